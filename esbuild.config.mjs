@@ -1,11 +1,42 @@
 import esbuild from "esbuild";
 import { readFileSync } from "fs";
+import path from "path";
 
 const watch = process.argv.includes("--watch");
 const prod = process.argv.includes("--prod");
 
 const banner = readFileSync("manifest.json", "utf8");
 
+// Bundles `./file?worker` imports as standalone scripts and exports their source,
+// so workers ship inside main.js and start from a Blob URL.
+const inlineWorkerPlugin = {
+  name: "inline-worker",
+  setup(build) {
+    build.onResolve({ filter: /\?worker$/ }, (args) => ({
+      path: path.resolve(args.resolveDir, args.path.replace(/\?worker$/, "")),
+      namespace: "inline-worker",
+    }));
+    build.onLoad({ filter: /.*/, namespace: "inline-worker" }, async (args) => {
+      const entry = /\.[cm]?[jt]s$/.test(args.path) ? args.path : `${args.path}.ts`;
+      const result = await esbuild.build({
+        entryPoints: [entry],
+        bundle: true,
+        write: false,
+        format: "iife",
+        target: "es2020",
+        platform: "browser",
+        minify: prod,
+        metafile: true,
+      });
+      return {
+        contents: result.outputFiles[0].text,
+        loader: "text",
+        watchFiles: Object.keys(result.metafile.inputs).map((input) => path.resolve(input)),
+      };
+    });
+  },
+};
+
 const context = await esbuild.context({
   entryPoints: ["src/main.ts"],
   bundle: true,
@@ -22,6 +53,7 @@ const context = await esbuild.context({
     "@codemirror/*",
     "@lezer/*"
   ],
+  plugins: [inlineWorkerPlugin],
   banner: {
     js: "/*\n" + banner.trim() + "\n*/",
   }
@@ -0,0 +1,109 @@
+export const CANVAS_ARROW_TYPE = 'canvas-arrow';
+
+export interface CanvasFileCard {
+  path: string;
+  count: number;
+}
+
+export interface CanvasTextCard {
+  id: string;
+  text: string;
+}
+
+export type CanvasEndpoint =
+  | { kind: 'file'; path: string }
+  | { kind: 'text'; id: string };
+
+export interface CanvasArrow {
+  from: CanvasEndpoint;
+  to: CanvasEndpoint;
+  type: string;
+}
+
+export interface CanvasStructure {
+  fileCards: CanvasFileCard[];
+  textCards: CanvasTextCard[];
+  arrows: CanvasArrow[];
+}
+
+const EMPTY_STRUCTURE: CanvasStructure = { fileCards: [], textCards: [], arrows: [] };
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : null;
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+export function canvasTextCardId(canvasPath: string, cardId: string): string {
+  return `${canvasPath}::${cardId}`;
+}
+
+export function arrowTypeFromLabel(label: string): string {
+  const normalized = label.trim().replace(/\s+/g, ' ').toLowerCase();
+  return normalized || CANVAS_ARROW_TYPE;
+}
+
+/**
+ * Reads the JSON Canvas format: file cards, text cards and the arrows between
+ * them. Group and link cards are ignored; malformed content yields an empty
+ * structure rather than throwing.
+ */
+export function parseCanvasStructure(content: string): CanvasStructure {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return EMPTY_STRUCTURE;
+  }
+  const doc = asRecord(parsed);
+  if (!doc) return EMPTY_STRUCTURE;
+
+  const endpoints = new Map<string, CanvasEndpoint>();
+  const fileCounts = new Map<string, number>();
+  const textCards: CanvasTextCard[] = [];
+
+  const nodes = Array.isArray(doc.nodes) ? doc.nodes : [];
+  nodes.forEach((entry) => {
+    const node = asRecord(entry);
+    const id = asString(node?.id);
+    if (!node || !id) return;
+    if (node.type === 'file') {
+      const path = asString(node.file).trim();
+      if (!path) return;
+      endpoints.set(id, { kind: 'file', path });
+      fileCounts.set(path, (fileCounts.get(path) ?? 0) + 1);
+    } else if (node.type === 'text') {
+      const text = asString(node.text).trim();
+      if (!text) return;
+      endpoints.set(id, { kind: 'text', id });
+      textCards.push({ id, text });
+    }
+  });
+
+  const arrows: CanvasArrow[] = [];
+  const edges = Array.isArray(doc.edges) ? doc.edges : [];
+  edges.forEach((entry) => {
+    const edge = asRecord(entry);
+    if (!edge) return;
+    const from = endpoints.get(asString(edge.fromNode));
+    const to = endpoints.get(asString(edge.toNode));
+    if (!from || !to) return;
+    arrows.push({ from, to, type: arrowTypeFromLabel(asString(edge.label)) });
+  });
+
+  return {
+    fileCards: Array.from(fileCounts, ([path, count]) => ({ path, count })),
+    textCards,
+    arrows,
+  };
+}
+
+export function summarizeCanvasText(text: string, maxLength = 48): string {
+  const firstLine = text.split(/\r?\n/).map((line) => line.replace(/^#+\s*/, '').trim()).find((line) => line.length > 0) ?? '';
+  if (firstLine.length <= maxLength) return firstLine;
+  return `${firstLine.slice(0, maxLength - 1).trim()}…`;
+}
@@ -0,0 +1,123 @@
+import type { CustomDataset, CustomDatasetRootType } from '../main';
+import { compileFilterQuery, type FilterTarget } from './graphFilterQuery';
+
+export const CUSTOM_DATASET_PREFIX = 'custom:';
+
+export interface DatasetRootContext {
+  activePath: string | null;
+  /** Notes and canvases open in workspace tabs. */
+  openPaths: string[];
+  /** Nodes picked as seeds in the graph view. */
+  selectedPaths: string[];
+  filePaths: string[];
+  resolveNotePath(linkpath: string): string | null;
+  tagsForPath(path: string): string[];
+  filterTargetForPath(path: string): FilterTarget | null;
+}
+
+export interface DatasetRootResolution {
+  paths: string[];
+  error: string | null;
+}
+
+export function customDatasetOptionId(dataset: Pick<CustomDataset, 'id'>): string {
+  return `${CUSTOM_DATASET_PREFIX}${dataset.id}`;
+}
+
+export function isCustomDatasetOptionId(id: string): boolean {
+  return id.startsWith(CUSTOM_DATASET_PREFIX);
+}
+
+export function createCustomDataset(existing: CustomDataset[], now = Date.now()): CustomDataset {
+  const names = new Set(existing.map((dataset) => dataset.name));
+  let suffix = existing.length + 1;
+  while (names.has(`Dataset ${suffix}`)) suffix += 1;
+  return {
+    id: `${now.toString(36)}-${existing.length}`,
+    name: `Dataset ${suffix}`,
+    scope: 'local',
+    rootType: 'active',
+    root: '',
+    depth: 2,
+    maxNodes: 360,
+    includeCanvas: true,
+    includeAttachments: false,
+    filter: '',
+  };
+}
+
+function normalizeFolder(folder: string): string {
+  return folder.trim().replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * Turns a dataset's root into concrete vault paths. Local datasets grow
+ * outwards from these paths; global datasets use them as the candidate pool.
+ * `search` roots reuse the filter query language.
+ */
+export function resolveDatasetRootPaths(dataset: CustomDataset, context: DatasetRootContext): DatasetRootResolution {
+  return resolveRootPaths(dataset.rootType, dataset.root, context);
+}
+
+export interface DatasetRootScope {
+  /** Local note roots grow from this note. */
+  rootPath: string | null;
+  /** Other local roots grow from all of these paths. */
+  seedPaths: string[] | null;
+  /** Global datasets only consider these paths. */
+  candidatePaths: Set<string> | null;
+}
+
+/** Applies resolved root paths to a dataset's scope; global datasets are limited to the root, whatever its type. */
+export function scopeDatasetRoot(dataset: Pick<CustomDataset, 'scope' | 'rootType'>, paths: string[]): DatasetRootScope {
+  if (dataset.scope !== 'local') return { rootPath: null, seedPaths: null, candidatePaths: new Set(paths) };
+  if (dataset.rootType === 'note') return { rootPath: paths[0] ?? null, seedPaths: null, candidatePaths: null };
+  return { rootPath: null, seedPaths: paths, candidatePaths: null };
+}
+
+export function resolveRootPaths(rootType: CustomDatasetRootType, rootValue: string, context: DatasetRootContext): DatasetRootResolution {
+  const root = rootValue.trim();
+  switch (rootType) {
+    case 'active':
+      return { paths: context.activePath ? [context.activePath] : [], error: null };
+    case 'note': {
+      if (!root) return { paths: [], error: 'Choose a note for this dataset' };
+      const path = context.resolveNotePath(root);
+      return path ? { paths: [path], error: null } : { paths: [], error: `Note "${root}" not found` };
+    }
+    case 'folder': {
+      const folder = normalizeFolder(root);
+      const prefix = folder ? `${folder}/` : '';
+      return { paths: context.filePaths.filter((path) => path.startsWith(prefix)), error: null };
+    }
+    case 'tag': {
+      const tag = root.replace(/^#/, '').toLowerCase();
+      if (!tag) return { paths: [], error: 'Choose a tag for this dataset' };
+      const paths = context.filePaths.filter((path) => context.tagsForPath(path).some((candidate) => {
+        const normalized = candidate.replace(/^#/, '').toLowerCase();
+        return normalized === tag || normalized.startsWith(`${tag}/`);
+      }));
+      return { paths, error: null };
+    }
+    case 'search': {
+      const { predicate, error } = compileFilterQuery(root);
+      if (error) return { paths: [], error: `Search: ${error.message}` };
+      if (!predicate) return { paths: [], error: 'Enter a search for this dataset' };
+      const paths = context.filePaths.filter((path) => {
+        const target = context.filterTargetForPath(path);
+        return target ? predicate(target) : false;
+      });
+      return { paths, error: null };
+    }
+    case 'open-tabs':
+      return context.openPaths.length > 0
+        ? { paths: context.openPaths.slice(), error: null }
+        : { paths: [], error: 'No notes are open in tabs' };
+    case 'selection':
+      return context.selectedPaths.length > 0
+        ? { paths: context.selectedPaths.slice(), error: null }
+        : { paths: [], error: 'No seeds picked yet. Shift-click nodes in the graph to pick them' };
+    default:
+      return { paths: [], error: null };
+  }
+}
@@ -0,0 +1,107 @@
+import { formatPropertyValue } from './notePreview';
+
+export type LabelSource = 'basename' | 'title' | 'alias' | 'heading' | 'template';
+
+export const LABEL_SOURCE_LABELS: Record<LabelSource, string> = {
+  basename: 'File name',
+  title: 'Title property',
+  alias: 'First alias',
+  heading: 'First H1',
+  template: 'Template',
+};
+
+/** Zettelkasten `YYYYMMDD-` prefixes, stripped by default as before strip patterns were configurable. */
+export const DEFAULT_LABEL_STRIP_PATTERNS = ['^\\d{8}-'];
+
+const TEMPLATE_FIELD_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export interface DisplayTitleSubject {
+  basename: string;
+  frontmatter?: Record<string, unknown> | null;
+  firstHeading?: string | null;
+}
+
+function frontmatterValue(frontmatter: Record<string, unknown> | null | undefined, key: string): unknown {
+  if (!frontmatter) return undefined;
+  if (key in frontmatter) return frontmatter[key];
+  const lower = key.toLowerCase();
+  const match = Object.keys(frontmatter).find((candidate) => candidate.toLowerCase() === lower);
+  return match === undefined ? undefined : frontmatter[match];
+}
+
+function firstAlias(frontmatter: Record<string, unknown> | null | undefined): string {
+  const aliases = frontmatterValue(frontmatter, 'aliases') ?? frontmatterValue(frontmatter, 'alias');
+  const first = Array.isArray(aliases) ? aliases[0] : aliases;
+  return typeof first === 'string' ? first.trim() : '';
+}
+
+function templateField(subject: DisplayTitleSubject, key: string): string {
+  switch (key.toLowerCase()) {
+    case 'basename':
+    case 'filename':
+      return subject.basename;
+    case 'alias':
+      return firstAlias(subject.frontmatter);
+    case 'heading':
+      return subject.firstHeading?.trim() ?? '';
+    default:
+      return formatPropertyValue(frontmatterValue(subject.frontmatter, key)).trim();
+  }
+}
+
+/**
+ * Fills `{{field}}` placeholders from frontmatter (plus `basename`, `alias` and
+ * `heading`), then drops brackets and separators left empty by missing fields.
+ */
+export function renderLabelTemplate(template: string, subject: DisplayTitleSubject): string {
+  return template
+    .replace(TEMPLATE_FIELD_PATTERN, (_match, key: string) => templateField(subject, key))
+    .replace(/\(\s*\)|\[\s*\]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s·•|:,-]+|[\s·•|:,-]+$/g, '')
+    .trim();
+}
+
+/** The label for a note under `source`, falling back to its file name when the source is empty. */
+export function resolveDisplayTitle(subject: DisplayTitleSubject, source: LabelSource, template = ''): string {
+  let title = '';
+  switch (source) {
+    case 'title':
+      title = formatPropertyValue(frontmatterValue(subject.frontmatter, 'title')).trim();
+      break;
+    case 'alias':
+      title = firstAlias(subject.frontmatter);
+      break;
+    case 'heading':
+      title = subject.firstHeading?.trim() ?? '';
+      break;
+    case 'template':
+      title = renderLabelTemplate(template, subject);
+      break;
+    default:
+      break;
+  }
+  return title || subject.basename;
+}
+
+/** Compiles strip patterns, skipping blank lines and invalid expressions. */
+export function compileLabelStripPatterns(patterns: string[]): RegExp[] {
+  const compiled: RegExp[] = [];
+  patterns.forEach((pattern) => {
+    const source = pattern.trim();
+    if (!source) return;
+    try {
+      compiled.push(new RegExp(source, 'g'));
+    } catch {
+      // Ignore patterns that are still being typed.
+    }
+  });
+  return compiled;
+}
+
+/** Removes every strip pattern from a label; a label stripped to nothing is kept whole. */
+export function stripLabel(label: string, patterns: RegExp[]): string {
+  if (patterns.length === 0) return label;
+  const stripped = patterns.reduce((text, pattern) => text.replace(pattern, ''), label).trim();
+  return stripped || label;
+}
@@ -0,0 +1,75 @@
+import type { EdgeDash, RawGraphLink } from '../hyper/core/graph';
+import { linkpathFromLinktext } from './propertyLinks';
+import { parseHexColor } from './vaultGraphRules';
+
+/** Where a note-to-note edge was written: body `[[link]]`, `![[embed]]`, a frontmatter property or a `key:: [[link]]` inline field. */
+export type EdgeKind = 'link' | 'embed' | 'frontmatter' | 'inline';
+
+export interface EdgeKindStyle {
+  visible: boolean;
+  /** Overrides the link type color; null keeps it. */
+  color: string | null;
+  dash: EdgeDash;
+}
+
+export const EDGE_KINDS: EdgeKind[] = ['link', 'embed', 'frontmatter', 'inline'];
+
+export const EDGE_KIND_LABELS: Record<EdgeKind, string> = {
+  link: 'Links',
+  embed: 'Embeds',
+  frontmatter: 'Frontmatter links',
+  inline: 'Inline fields',
+};
+
+export const EDGE_DASH_LABELS: Record<EdgeDash, string> = {
+  solid: 'Solid',
+  dashed: 'Dashed',
+  dotted: 'Dotted',
+};
+
+export const DEFAULT_EDGE_KIND_STYLES: Record<EdgeKind, EdgeKindStyle> = {
+  link: { visible: true, color: null, dash: 'solid' },
+  embed: { visible: true, color: '#4dd0e1', dash: 'dashed' },
+  frontmatter: { visible: true, color: null, dash: 'dotted' },
+  inline: { visible: true, color: null, dash: 'dotted' },
+};
+
+export function edgeKindStyle(styles: Partial<Record<EdgeKind, EdgeKindStyle>> | null | undefined, kind: EdgeKind): EdgeKindStyle {
+  return styles?.[kind] ?? DEFAULT_EDGE_KIND_STYLES[kind];
+}
+
+/** Embed counts per resolved target path; unresolved embeds are skipped. */
+export function countEmbedTargets(
+  embeds: Array<{ link: string }> | null | undefined,
+  resolveLinkpath: (linkpath: string) => string | null
+): Array<{ targetPath: string; count: number }> {
+  const counts = new Map<string, number>();
+  embeds?.forEach((embed) => {
+    const linkpath = linkpathFromLinktext(embed.link);
+    if (!linkpath) return;
+    const targetPath = resolveLinkpath(linkpath);
+    if (!targetPath) return;
+    counts.set(targetPath, (counts.get(targetPath) ?? 0) + 1);
+  });
+  return Array.from(counts, ([targetPath, count]) => ({ targetPath, count }));
+}
+
+/** Hides switched-off kinds and applies each kind's color and dash; links without a kind pass through. */
+export function applyEdgeKindStyles(
+  links: RawGraphLink[],
+  styles: Partial<Record<EdgeKind, EdgeKindStyle>> | null | undefined
+): RawGraphLink[] {
+  const styled: RawGraphLink[] = [];
+  links.forEach((link) => {
+    const kind = link.kind as EdgeKind | undefined;
+    if (!kind || !EDGE_KINDS.includes(kind)) {
+      styled.push(link);
+      return;
+    }
+    const style = edgeKindStyle(styles, kind);
+    if (!style.visible) return;
+    const color = style.color ? parseHexColor(style.color) : null;
+    styled.push({ ...link, dash: style.dash, ...(color === null ? {} : { color }) });
+  });
+  return styled;
+}
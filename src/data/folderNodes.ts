@@ -0,0 +1,86 @@
+export const FOLDER_NODE_PREFIX = 'folder:';
+
+export interface FolderHubNode {
+  path: string;
+  parent: string | null;
+  descendantCount: number;
+}
+
+export interface FolderContainment {
+  folder: string;
+  path: string;
+}
+
+export interface FolderHierarchy {
+  folders: FolderHubNode[];
+  fileLinks: FolderContainment[];
+}
+
+export function folderNodeId(folderPath: string): string {
+  return `${FOLDER_NODE_PREFIX}${folderPath || '/'}`;
+}
+
+export function isFolderNodeId(id: string): boolean {
+  return id.startsWith(FOLDER_NODE_PREFIX);
+}
+
+export function parentFolderPath(path: string): string {
+  const lastSlash = path.lastIndexOf('/');
+  return lastSlash === -1 ? '' : path.slice(0, lastSlash);
+}
+
+/**
+ * Builds the folder tree above the given files. The vault root is the folder
+ * with path `''`; descendant counts include both files and sub-folders.
+ */
+export function buildFolderHierarchy(filePaths: string[]): FolderHierarchy {
+  const parentByFolder = new Map<string, string | null>();
+  const descendants = new Map<string, number>();
+  const fileLinks: FolderContainment[] = [];
+
+  const registerFolder = (folder: string): boolean => {
+    if (parentByFolder.has(folder)) return false;
+    parentByFolder.set(folder, folder === '' ? null : parentFolderPath(folder));
+    descendants.set(folder, 0);
+    return true;
+  };
+
+  const countUpwards = (folder: string | null) => {
+    let current = folder;
+    while (current !== null) {
+      descendants.set(current, (descendants.get(current) ?? 0) + 1);
+      current = parentByFolder.get(current) ?? null;
+    }
+  };
+
+  const ensureFolder = (folder: string) => {
+    const chain: string[] = [];
+    let current: string | null = folder;
+    while (current !== null && !parentByFolder.has(current)) {
+      chain.push(current);
+      current = current === '' ? null : parentFolderPath(current);
+    }
+    chain.reverse().forEach((entry) => {
+      if (registerFolder(entry)) {
+        countUpwards(parentByFolder.get(entry) ?? null);
+      }
+    });
+  };
+
+  filePaths.forEach((path) => {
+    const folder = parentFolderPath(path);
+    ensureFolder(folder);
+    countUpwards(folder);
+    fileLinks.push({ folder, path });
+  });
+
+  const folders: FolderHubNode[] = Array.from(parentByFolder.entries())
+    .map(([path, parent]) => ({
+      path,
+      parent,
+      descendantCount: descendants.get(path) ?? 0,
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  return { folders, fileLinks };
+}
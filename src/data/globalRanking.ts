@@ -0,0 +1,159 @@
+import type { DegreeMaps, ResolvedLinks } from './linkMaps';
+
+export type GlobalRankingStrategy = 'recency' | 'degree' | 'pagerank' | 'backlinks' | 'folder-balanced';
+
+export const GLOBAL_RANKING_LABELS: Record<GlobalRankingStrategy, string> = {
+  recency: 'Recently edited',
+  degree: 'Most connected',
+  pagerank: 'PageRank',
+  backlinks: 'Most backlinks',
+  'folder-balanced': 'Folder-balanced sample',
+};
+
+export interface RankingCandidate {
+  path: string;
+  mtime: number;
+}
+
+export interface RankingInputs {
+  degreeMaps: DegreeMaps;
+  resolvedLinks: ResolvedLinks;
+}
+
+export interface RankingResult {
+  selected: string[];
+  dropped: number;
+}
+
+export interface PageRankOptions {
+  damping?: number;
+  iterations?: number;
+  tolerance?: number;
+}
+
+/**
+ * PageRank over the links between `paths` only; rank held by notes without
+ * outgoing links is spread evenly so the scores keep summing to one.
+ */
+export function computePageRank(
+  paths: string[],
+  resolvedLinks: ResolvedLinks,
+  options: PageRankOptions = {}
+): Map<string, number> {
+  const { damping = 0.85, iterations = 50, tolerance = 1e-9 } = options;
+  const count = paths.length;
+  const ranks = new Map<string, number>();
+  if (count === 0) return ranks;
+
+  const indexByPath = new Map(paths.map((path, index) => [path, index]));
+  const outgoing: Array<Array<{ target: number; weight: number }>> = paths.map((path) => {
+    const targets = resolvedLinks[path] ?? {};
+    const edges: Array<{ target: number; weight: number }> = [];
+    let total = 0;
+    Object.entries(targets).forEach(([targetPath, linkCount]) => {
+      const target = indexByPath.get(targetPath);
+      if (target === undefined || target === indexByPath.get(path)) return;
+      const weight = Number.isFinite(linkCount) && linkCount > 0 ? linkCount : 1;
+      edges.push({ target, weight });
+      total += weight;
+    });
+    return edges.map((edge) => ({ target: edge.target, weight: edge.weight / total }));
+  });
+
+  let current = new Float64Array(count).fill(1 / count);
+  for (let iteration = 0; iteration < iterations; iteration += 1) {
+    let danglingMass = 0;
+    for (let i = 0; i < count; i += 1) {
+      if (outgoing[i].length === 0) danglingMass += current[i];
+    }
+    const base = (1 - damping) / count + (damping * danglingMass) / count;
+    const next = new Float64Array(count).fill(base);
+    for (let i = 0; i < count; i += 1) {
+      const share = damping * current[i];
+      outgoing[i].forEach(({ target, weight }) => {
+        next[target] += share * weight;
+      });
+    }
+    let delta = 0;
+    for (let i = 0; i < count; i += 1) delta += Math.abs(next[i] - current[i]);
+    current = next;
+    if (delta < tolerance) break;
+  }
+
+  paths.forEach((path, index) => ranks.set(path, current[index]));
+  return ranks;
+}
+
+function byScoreThenRecency(scores: Map<string, number>): (a: RankingCandidate, b: RankingCandidate) => number {
+  return (a, b) => (scores.get(b.path) ?? 0) - (scores.get(a.path) ?? 0)
+    || b.mtime - a.mtime
+    || a.path.localeCompare(b.path);
+}
+
+function folderOf(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+}
+
+/**
+ * Takes notes from every folder in turn, best-connected first, so large
+ * folders cannot crowd out the rest of the vault.
+ */
+function sampleAcrossFolders(sorted: RankingCandidate[], limit: number): RankingCandidate[] {
+  const byFolder = new Map<string, RankingCandidate[]>();
+  sorted.forEach((candidate) => {
+    const folder = folderOf(candidate.path);
+    const bucket = byFolder.get(folder);
+    if (bucket) {
+      bucket.push(candidate);
+    } else {
+      byFolder.set(folder, [candidate]);
+    }
+  });
+  const buckets = Array.from(byFolder.entries())
+    .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+    .map(([, bucket]) => bucket);
+
+  const picked: RankingCandidate[] = [];
+  for (let round = 0; picked.length < limit; round += 1) {
+    let tookAny = false;
+    for (const bucket of buckets) {
+      if (picked.length >= limit) break;
+      if (round < bucket.length) {
+        picked.push(bucket[round]);
+        tookAny = true;
+      }
+    }
+    if (!tookAny) break;
+  }
+  return picked;
+}
+
+export function rankGlobalCandidates(
+  candidates: RankingCandidate[],
+  strategy: GlobalRankingStrategy,
+  inputs: RankingInputs,
+  limit: number
+): RankingResult {
+  const max = Math.max(0, Math.floor(limit));
+  let ordered: RankingCandidate[];
+  if (strategy === 'recency') {
+    ordered = candidates.slice().sort((a, b) => b.mtime - a.mtime);
+  } else if (strategy === 'pagerank') {
+    const ranks = computePageRank(candidates.map((candidate) => candidate.path), inputs.resolvedLinks);
+    ordered = candidates.slice().sort(byScoreThenRecency(ranks));
+  } else {
+    const { outgoing, incoming } = inputs.degreeMaps;
+    const scores = new Map<string, number>();
+    candidates.forEach(({ path }) => {
+      const backlinks = incoming.get(path) ?? 0;
+      scores.set(path, strategy === 'backlinks' ? backlinks : backlinks + (outgoing.get(path) ?? 0));
+    });
+    ordered = candidates.slice().sort(byScoreThenRecency(scores));
+    if (strategy === 'folder-balanced') {
+      ordered = sampleAcrossFolders(ordered, max);
+    }
+  }
+  const selected = ordered.slice(0, max).map((candidate) => candidate.path);
+  return { selected, dropped: candidates.length - selected.length };
+}
@@ -0,0 +1,412 @@
+export interface FilterTarget {
+  path: string;
+  basename: string;
+  category: string;
+  tags: string[];
+  outgoingLinks: number;
+  incomingLinks: number;
+  mtime: number;
+  ctime: number;
+  properties: Record<string, unknown> | null;
+}
+
+export type FilterPredicate = (target: FilterTarget) => boolean;
+
+export interface FilterQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface CompiledFilterQuery {
+  predicate: FilterPredicate | null;
+  error: FilterQueryError | null;
+}
+
+type Comparator = '=' | '>' | '<' | '>=' | '<=';
+
+interface Token {
+  kind: 'lparen' | 'rparen' | 'or' | 'and' | 'not' | 'term';
+  text: string;
+  start: number;
+  end: number;
+}
+
+class FilterSyntaxError extends Error {
+  constructor(message: string, readonly start: number, readonly end: number) {
+    super(message);
+  }
+}
+
+const FIELD_ALIASES: Record<string, string> = {
+  tag: 'tag',
+  path: 'path',
+  file: 'file',
+  name: 'file',
+  category: 'category',
+  links: 'links',
+  inlinks: 'inlinks',
+  backlinks: 'inlinks',
+  outlinks: 'outlinks',
+  modified: 'modified',
+  mtime: 'modified',
+  created: 'created',
+  ctime: 'created',
+  property: 'property',
+  prop: 'property',
+};
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  h: 3600_000,
+  d: 86_400_000,
+  w: 7 * 86_400_000,
+  m: 30 * 86_400_000,
+  y: 365 * 86_400_000,
+};
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < query.length) {
+    const ch = query[index];
+    if (/\s/.test(ch)) {
+      index += 1;
+      continue;
+    }
+    if (ch === '(' || ch === ')') {
+      tokens.push({ kind: ch === '(' ? 'lparen' : 'rparen', text: ch, start: index, end: index + 1 });
+      index += 1;
+      continue;
+    }
+    if (ch === '-') {
+      if (index + 1 >= query.length || /\s/.test(query[index + 1])) {
+        throw new FilterSyntaxError('Nothing to negate after "-"', index, index + 1);
+      }
+      tokens.push({ kind: 'not', text: ch, start: index, end: index + 1 });
+      index += 1;
+      continue;
+    }
+    const start = index;
+    while (index < query.length && !/[\s()]/.test(query[index])) {
+      if (query[index] === '"') {
+        const close = query.indexOf('"', index + 1);
+        if (close === -1) {
+          throw new FilterSyntaxError('Unterminated quote', index, query.length);
+        }
+        index = close + 1;
+        continue;
+      }
+      index += 1;
+    }
+    const text = query.slice(start, index);
+    const kind = text === 'OR' ? 'or' : (text === 'AND' ? 'and' : 'term');
+    tokens.push({ kind, text, start, end: index });
+  }
+  return tokens;
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, '');
+}
+
+function compareNumbers(actual: number, comparator: Comparator, expected: number): boolean {
+  switch (comparator) {
+    case '>': return actual > expected;
+    case '<': return actual < expected;
+    case '>=': return actual >= expected;
+    case '<=': return actual <= expected;
+    default: return actual === expected;
+  }
+}
+
+function splitComparator(value: string): { comparator: Comparator | null; rest: string } {
+  const match = value.match(/^(>=|<=|>|<|=)(.*)$/);
+  if (!match) return { comparator: null, rest: value };
+  return { comparator: match[1] as Comparator, rest: match[2] };
+}
+
+function parseNumber(value: string, token: Token): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed)) {
+    throw new FilterSyntaxError(`Expected a number but found "${value}"`, token.start, token.end);
+  }
+  return parsed;
+}
+
+function localDateRange(value: string): { start: number; end: number } | null {
+  const match = value.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : null;
+  const day = match[3] ? Number(match[3]) : null;
+  if (month === null) {
+    return { start: new Date(year, 0, 1).getTime(), end: new Date(year + 1, 0, 1).getTime() };
+  }
+  if (day === null) {
+    return { start: new Date(year, month, 1).getTime(), end: new Date(year, month + 1, 1).getTime() };
+  }
+  return { start: new Date(year, month, day).getTime(), end: new Date(year, month, day + 1).getTime() };
+}
+
+/**
+ * Durations (`30d`, `2w`, `6m`) compare the file's age: `<30d` means changed
+ * within the last 30 days. Dates (`2024`, `2024-05`, `2024-05-01`) compare
+ * against the whole period they name.
+ */
+function compileDateTerm(
+  read: (target: FilterTarget) => number,
+  comparator: Comparator,
+  value: string,
+  now: number,
+  token: Token
+): FilterPredicate {
+  const duration = value.match(/^(\d+(?:\.\d+)?)([hdwmy])$/i);
+  if (duration) {
+    const spanMs = Number(duration[1]) * DURATION_UNITS_MS[duration[2].toLowerCase()];
+    const effective = comparator === '=' ? '<=' : comparator;
+    return (target) => compareNumbers(now - read(target), effective, spanMs);
+  }
+  const range = localDateRange(value);
+  if (!range) {
+    throw new FilterSyntaxError(`Expected a date (2024-05-01) or duration (30d) but found "${value}"`, token.start, token.end);
+  }
+  return (target) => {
+    const time = read(target);
+    switch (comparator) {
+      case '>': return time >= range.end;
+      case '>=': return time >= range.start;
+      case '<': return time < range.start;
+      case '<=': return time < range.end;
+      default: return time >= range.start && time < range.end;
+    }
+  };
+}
+
+function normalizePropertyValue(value: unknown): string {
+  return String(value).replace(/^\[\[|\]\]$/g, '').trim().toLowerCase();
+}
+
+function readProperty(properties: Record<string, unknown> | null, key: string): unknown {
+  if (!properties) return undefined;
+  const match = Object.keys(properties).find((candidate) => candidate.toLowerCase() === key);
+  return match === undefined ? undefined : properties[match];
+}
+
+function compilePropertyTerm(value: string, token: Token): FilterPredicate {
+  const match = value.match(/^([^=<>]+)(>=|<=|=|>|<)?(.*)$/);
+  if (!match) {
+    throw new FilterSyntaxError('Expected a property name, e.g. property:status=active', token.start, token.end);
+  }
+  const key = match[1].trim().toLowerCase();
+  const comparator = match[2] as Comparator | undefined;
+  const expected = match[3];
+  if (!comparator) {
+    return (target) => {
+      const actual = readProperty(target.properties, key);
+      if (actual === undefined || actual === null || actual === '') return false;
+      return !Array.isArray(actual) || actual.length > 0;
+    };
+  }
+  if (comparator === '=') {
+    const normalized = normalizePropertyValue(expected);
+    return (target) => {
+      const actual = readProperty(target.properties, key);
+      if (actual === undefined || actual === null) return false;
+      const values = Array.isArray(actual) ? actual : [actual];
+      return values.some((item) => normalizePropertyValue(item) === normalized);
+    };
+  }
+  const threshold = parseNumber(expected, token);
+  return (target) => {
+    const actual = readProperty(target.properties, key);
+    const values = Array.isArray(actual) ? actual : [actual];
+    return values.some((item) => {
+      const numeric = typeof item === 'number' ? item : Number(item);
+      return item !== null && item !== '' && Number.isFinite(numeric) && compareNumbers(numeric, comparator, threshold);
+    });
+  };
+}
+
+function compileTerm(token: Token, now: number): FilterPredicate {
+  const fieldMatch = token.text.match(/^([a-z]+)(:|>=|<=|>|<|=)(.*)$/i);
+  if (!fieldMatch) {
+    const needle = unquote(token.text).toLowerCase();
+    return (target) => target.path.toLowerCase().includes(needle);
+  }
+
+  const fieldName = fieldMatch[1].toLowerCase();
+  const field = FIELD_ALIASES[fieldName];
+  if (!field) {
+    throw new FilterSyntaxError(`Unknown filter field "${fieldName}"`, token.start, token.start + fieldName.length);
+  }
+  let comparator: Comparator = fieldMatch[2] === ':' ? '=' : fieldMatch[2] as Comparator;
+  let value = fieldMatch[3];
+  if (fieldMatch[2] === ':' && field !== 'property') {
+    const split = splitComparator(value);
+    if (split.comparator) {
+      comparator = split.comparator;
+      value = split.rest;
+    }
+  }
+  value = unquote(value);
+  if (!value) {
+    throw new FilterSyntaxError(`Missing value for "${fieldName}"`, token.start, token.end);
+  }
+
+  const requireEquality = () => {
+    if (comparator !== '=') {
+      throw new FilterSyntaxError(`"${fieldName}" does not support ${comparator}`, token.start, token.end);
+    }
+  };
+
+  switch (field) {
+    case 'tag': {
+      requireEquality();
+      const tag = value.replace(/^#/, '').toLowerCase();
+      return (target) => target.tags.some((candidate) => {
+        const normalized = candidate.replace(/^#/, '').toLowerCase();
+        return normalized === tag || normalized.startsWith(`${tag}/`);
+      });
+    }
+    case 'path': {
+      requireEquality();
+      const needle = value.toLowerCase();
+      return (target) => target.path.toLowerCase().includes(needle);
+    }
+    case 'file': {
+      requireEquality();
+      const needle = value.toLowerCase();
+      return (target) => target.basename.toLowerCase().includes(needle);
+    }
+    case 'category': {
+      requireEquality();
+      const category = value.toLowerCase();
+      return (target) => target.category.toLowerCase() === category;
+    }
+    case 'links': {
+      const expected = parseNumber(value, token);
+      return (target) => compareNumbers(target.outgoingLinks + target.incomingLinks, comparator, expected);
+    }
+    case 'inlinks': {
+      const expected = parseNumber(value, token);
+      return (target) => compareNumbers(target.incomingLinks, comparator, expected);
+    }
+    case 'outlinks': {
+      const expected = parseNumber(value, token);
+      return (target) => compareNumbers(target.outgoingLinks, comparator, expected);
+    }
+    case 'modified':
+      return compileDateTerm((target) => target.mtime, comparator, value, now, token);
+    case 'created':
+      return compileDateTerm((target) => target.ctime, comparator, value, now, token);
+    default:
+      return compilePropertyTerm(value, token);
+  }
+}
+
+class FilterParser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly now: number, private readonly queryLength: number) {}
+
+  parse(): FilterPredicate {
+    const predicate = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new FilterSyntaxError('Unexpected ")"', extra.start, extra.end);
+    }
+    return predicate;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private parseOr(): FilterPredicate {
+    const items = [this.parseAnd()];
+    while (this.peek()?.kind === 'or') {
+      const orToken = this.tokens[this.index];
+      this.index += 1;
+      const next = this.peek();
+      if (!next || next.kind === 'rparen' || next.kind === 'or') {
+        throw new FilterSyntaxError('Expected an expression after OR', orToken.start, orToken.end);
+      }
+      items.push(this.parseAnd());
+    }
+    return items.length === 1 ? items[0] : (target) => items.some((item) => item(target));
+  }
+
+  private parseAnd(): FilterPredicate {
+    const items: FilterPredicate[] = [];
+    for (let token = this.peek(); token && token.kind !== 'or' && token.kind !== 'rparen'; token = this.peek()) {
+      if (token.kind === 'and') {
+        this.index += 1;
+        const next = this.peek();
+        if (items.length === 0) {
+          throw new FilterSyntaxError('Expected an expression before AND', token.start, token.end);
+        }
+        if (!next || next.kind === 'rparen' || next.kind === 'or' || next.kind === 'and') {
+          throw new FilterSyntaxError('Expected an expression after AND', token.start, token.end);
+        }
+        continue;
+      }
+      items.push(this.parseUnary());
+    }
+    if (items.length === 0) {
+      const token = this.peek();
+      const start = token?.start ?? this.queryLength;
+      throw new FilterSyntaxError('Expected an expression', start, token?.end ?? start);
+    }
+    return items.length === 1 ? items[0] : (target) => items.every((item) => item(target));
+  }
+
+  private parseUnary(): FilterPredicate {
+    const token = this.peek()!;
+    if (token.kind === 'not') {
+      this.index += 1;
+      const next = this.peek();
+      if (!next || next.kind === 'or' || next.kind === 'and' || next.kind === 'rparen') {
+        throw new FilterSyntaxError('Nothing to negate after "-"', token.start, token.end);
+      }
+      const inner = this.parseUnary();
+      return (target) => !inner(target);
+    }
+    if (token.kind === 'lparen') {
+      this.index += 1;
+      const inner = this.parseOr();
+      if (this.peek()?.kind !== 'rparen') {
+        throw new FilterSyntaxError('Missing closing ")"', token.start, token.end);
+      }
+      this.index += 1;
+      return inner;
+    }
+    this.index += 1;
+    return compileTerm(token, this.now);
+  }
+}
+
+export function combineFilterPredicates(predicates: Array<FilterPredicate | null>): FilterPredicate | null {
+  const active = predicates.filter((predicate): predicate is FilterPredicate => Boolean(predicate));
+  if (active.length === 0) return null;
+  if (active.length === 1) return active[0];
+  return (target) => active.every((predicate) => predicate(target));
+}
+
+/**
+ * Compiles a filter expression such as
+ * `tag:#project -path:archive/ links>3 modified:<30d OR property:status=active`.
+ * Terms are ANDed, `OR` binds looser than AND, `-` negates and parentheses
+ * group. An empty query compiles to no predicate.
+ */
+export function compileFilterQuery(query: string, now = Date.now()): CompiledFilterQuery {
+  try {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) return { predicate: null, error: null };
+    return { predicate: new FilterParser(tokens, now, query.length).parse(), error: null };
+  } catch (error) {
+    if (error instanceof FilterSyntaxError) {
+      return { predicate: null, error: { message: error.message, start: error.start, end: error.end } };
+    }
+    throw error;
+  }
+}
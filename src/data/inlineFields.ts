@@ -0,0 +1,54 @@
+import type { PropertyLinkReference } from './propertyLinks';
+
+const FRONTMATTER_PATTERN = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+/** `[key:: value]` or `(key:: value)` anywhere in a line; the value may hold `[[links]]`. */
+const BRACKETED_FIELD_PATTERN = /[[(]([^[\]():]+?)::\s*((?:\[\[[^\]]*\]\]|[^[\]()])*)[\])]/g;
+/** `key:: value` as a whole line, after an optional list, quote or bold marker. */
+const LINE_FIELD_PATTERN = /^\s*(?:(?:[-*+]|\d+[.)])\s+|>\s*)*(?:\*\*|__)?([^:[\]()*_`>]+?)(?:\*\*|__)?::\s*(.*)$/;
+const WIKI_LINK_PATTERN = /\[\[([^\]]+)\]\]/g;
+
+export interface InlineFieldReference extends PropertyLinkReference {
+  /** Zero-based line in the note, frontmatter included. */
+  line: number;
+}
+
+function pushLinks(key: string, value: string, line: number, refs: InlineFieldReference[]): void {
+  const trimmedKey = key.trim();
+  if (!trimmedKey) return;
+  WIKI_LINK_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = WIKI_LINK_PATTERN.exec(value)) !== null) {
+    refs.push({ key: trimmedKey, link: match[1], line });
+  }
+}
+
+/**
+ * Dataview-style inline fields (`mentor:: [[Ada]]`, `[blocked-by:: [[Task 12]]]`)
+ * that point at notes. Frontmatter and fenced code are skipped; fields without a
+ * wiki link produce nothing.
+ */
+export function extractInlineFieldReferences(markdown: string): InlineFieldReference[] {
+  const refs: InlineFieldReference[] = [];
+  const frontmatter = FRONTMATTER_PATTERN.exec(markdown)?.[0] ?? '';
+  const lineOffset = frontmatter ? frontmatter.split(/\r?\n/).length - 1 : 0;
+  let inFence = false;
+  markdown
+    .slice(frontmatter.length)
+    .split(/\r?\n/)
+    .forEach((text, index) => {
+      if (FENCE_PATTERN.test(text)) {
+        inFence = !inFence;
+        return;
+      }
+      if (inFence || !text.includes('::')) return;
+      const line = lineOffset + index;
+      const rest = text.replace(BRACKETED_FIELD_PATTERN, (_match, key: string, value: string) => {
+        pushLinks(key, value, line, refs);
+        return '';
+      });
+      const lineField = LINE_FIELD_PATTERN.exec(rest);
+      if (lineField) pushLinks(lineField[1], lineField[2], line, refs);
+    });
+  return refs;
+}
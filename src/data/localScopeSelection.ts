@@ -1,8 +1,16 @@
 export type ResolvedLinks = Record<string, Record<string, number>>;
 
+export type LocalScopeDirection = 'both' | 'outgoing' | 'backlinks';
+
 export interface LocalScopeSelectionOptions {
   rootPath: string | null;
+  /** Several roots at once; takes precedence over `rootPath` when non-empty. */
+  seedPaths?: string[];
+  /** Hops along outgoing links. */
   depth: number;
+  /** Hops along backlinks; defaults to `depth`. */
+  backlinkDepth?: number;
+  direction?: LocalScopeDirection;
   minNodes: number;
   maxDepth: number;
   includeCanvas: boolean;
@@ -21,60 +29,99 @@ function isPathAllowed(path: string, includeCanvas: boolean): boolean {
   return true;
 }
 
+interface DepthLimits {
+  outgoing: number;
+  backlinks: number;
+}
+
+interface SearchState {
+  path: string;
+  outgoing: number;
+  backlinks: number;
+}
+
+/**
+ * Breadth-first search where a path may take at most `limits.outgoing` steps
+ * along outgoing links, `limits.backlinks` steps against them, and no more
+ * than the larger of the two in total. With equal limits this is a plain
+ * undirected search to that depth.
+ */
 function runBreadthFirstSelection(
   seedPaths: string[],
-  depthLimit: number,
+  limits: DepthLimits,
   includeCanvas: boolean,
   resolvedLinks: ResolvedLinks,
   reverseLinks: Map<string, Set<string>>
 ): Set<string> {
-  const result = new Set<string>();
-  const queue: Array<{ path: string; depth: number }> = [];
-
-  seedPaths.forEach((seed) => {
-    if (!isPathAllowed(seed, includeCanvas)) return;
-    if (result.has(seed)) return;
-    result.add(seed);
-    queue.push({ path: seed, depth: 0 });
-  });
-
-  while (queue.length > 0) {
-    const current = queue.shift()!;
-    if (current.depth >= depthLimit) continue;
-
-    const outgoing = resolvedLinks[current.path];
-    if (outgoing) {
-      Object.keys(outgoing).forEach((target) => {
-        if (!isPathAllowed(target, includeCanvas)) return;
-        if (result.has(target)) return;
-        result.add(target);
-        queue.push({ path: target, depth: current.depth + 1 });
-      });
+  const totalLimit = Math.max(limits.outgoing, limits.backlinks);
+  // Hop counts each path was reached with; a later state is only worth
+  // expanding if no earlier one used fewer hops in both directions.
+  const reached = new Map<string, Array<{ outgoing: number; backlinks: number }>>();
+  const queue: SearchState[] = [];
+
+  const visit = (state: SearchState) => {
+    if (!isPathAllowed(state.path, includeCanvas)) return;
+    const previous = reached.get(state.path);
+    if (previous?.some((hops) => hops.outgoing <= state.outgoing && hops.backlinks <= state.backlinks)) return;
+    if (previous) {
+      previous.push({ outgoing: state.outgoing, backlinks: state.backlinks });
+    } else {
+      reached.set(state.path, [{ outgoing: state.outgoing, backlinks: state.backlinks }]);
     }
+    queue.push(state);
+  };
 
-    const incoming = reverseLinks.get(current.path);
-    if (incoming) {
-      incoming.forEach((source) => {
-        if (!isPathAllowed(source, includeCanvas)) return;
-        if (result.has(source)) return;
-        result.add(source);
-        queue.push({ path: source, depth: current.depth + 1 });
-      });
+  seedPaths.forEach((seed) => visit({ path: seed, outgoing: 0, backlinks: 0 }));
+
+  for (let head = 0; head < queue.length; head += 1) {
+    const current = queue[head];
+    if (current.outgoing + current.backlinks >= totalLimit) continue;
+
+    if (current.outgoing < limits.outgoing) {
+      const outgoing = resolvedLinks[current.path];
+      if (outgoing) {
+        Object.keys(outgoing).forEach((target) => {
+          visit({ path: target, outgoing: current.outgoing + 1, backlinks: current.backlinks });
+        });
+      }
+    }
+
+    if (current.backlinks < limits.backlinks) {
+      const incoming = reverseLinks.get(current.path);
+      if (incoming) {
+        incoming.forEach((source) => {
+          visit({ path: source, outgoing: current.outgoing, backlinks: current.backlinks + 1 });
+        });
+      }
     }
   }
 
-  return result;
+  return new Set(reached.keys());
+}
+
+function depthLimitsFor(direction: LocalScopeDirection, outgoing: number, backlinks: number): DepthLimits {
+  return {
+    outgoing: direction === 'backlinks' ? 0 : outgoing,
+    backlinks: direction === 'outgoing' ? 0 : backlinks,
+  };
 }
 
 export function selectLocalScopePaths(options: LocalScopeSelectionOptions): Set<string> {
-  const depthStart = Math.max(0, Math.round(options.depth));
-  const depthMax = Math.max(depthStart, Math.round(options.maxDepth));
+  const direction = options.direction ?? 'both';
+  const outgoingStart = Math.max(0, Math.round(options.depth));
+  const backlinkStart = Math.max(0, Math.round(options.backlinkDepth ?? options.depth));
+  const depthStart = depthLimitsFor(direction, outgoingStart, backlinkStart);
+  const depthMax = Math.max(depthStart.outgoing, depthStart.backlinks, Math.round(options.maxDepth));
   const minNodes = Math.max(1, Math.round(options.minNodes));
   const fallbackSeeds = options.fallbackPaths.filter((path) => isPathAllowed(path, options.includeCanvas));
   const rootSeed = options.rootPath && isPathAllowed(options.rootPath, options.includeCanvas)
     ? options.rootPath
     : null;
-  const seedPaths = rootSeed ? [rootSeed] : fallbackSeeds.slice(0, 1);
+  const explicitSeeds = (options.seedPaths ?? []).filter((path) => isPathAllowed(path, options.includeCanvas));
+  const hasRoot = explicitSeeds.length > 0 || rootSeed !== null;
+  const seedPaths = explicitSeeds.length > 0
+    ? explicitSeeds
+    : (rootSeed ? [rootSeed] : fallbackSeeds.slice(0, 1));
 
   if (seedPaths.length === 0) {
     return new Set<string>();
@@ -88,18 +135,19 @@ export function selectLocalScopePaths(options: LocalScopeSelectionOptions): Set<
     options.reverseLinks
   );
 
-  for (let depth = depthStart + 1; depth <= depthMax; depth += 1) {
+  // Auto-expansion deepens only the directions the caller asked for.
+  for (let extra = 1; Math.max(depthStart.outgoing, depthStart.backlinks) + extra <= depthMax; extra += 1) {
     if (best.size >= minNodes) break;
     best = runBreadthFirstSelection(
       seedPaths,
-      depth,
+      depthLimitsFor(direction, outgoingStart + extra, backlinkStart + extra),
       options.includeCanvas,
       options.resolvedLinks,
       options.reverseLinks
     );
   }
 
-  if (!rootSeed && best.size < minNodes) {
+  if (!hasRoot && best.size < minNodes) {
     for (const path of fallbackSeeds) {
       if (best.size >= minNodes) break;
       best.add(path);
@@ -0,0 +1,29 @@
+const FRONTMATTER_PATTERN = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+const CODE_FENCE_PATTERN = /^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm;
+const WORD_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}'’_-]*/gu;
+
+/** Words of prose in a note, ignoring frontmatter and fenced code. */
+export function countWords(markdown: string): number {
+  const body = markdown.replace(FRONTMATTER_PATTERN, '').replace(CODE_FENCE_PATTERN, '');
+  return body.match(WORD_PATTERN)?.length ?? 0;
+}
+
+/** Frontmatter values that read as numbers, keyed by property name. */
+export function numericProperties(frontmatter: Record<string, unknown> | null | undefined): Record<string, number> {
+  const result: Record<string, number> = {};
+  if (!frontmatter) return result;
+  Object.entries(frontmatter).forEach(([key, value]) => {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      result[key] = value;
+    } else if (typeof value === 'string' && /^\s*-?\d+(?:\.\d+)?\s*$/.test(value)) {
+      result[key] = Number(value);
+    }
+  });
+  return result;
+}
+
+/** Unchecked `- [ ]` items among a note's list items; done and cancelled tasks are skipped. */
+export function countOpenTasks(listItems: Array<{ task?: string }> | null | undefined): number {
+  if (!listItems) return 0;
+  return listItems.filter((item) => item.task === ' ').length;
+}
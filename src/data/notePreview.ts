@@ -0,0 +1,92 @@
+const FRONTMATTER_PATTERN = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const HEADING_PATTERN = /^#{1,6}\s/;
+
+/** Characters of note body shown in the node panel before the preview is cut off. */
+export const NOTE_PREVIEW_MAX_LENGTH = 4000;
+
+/** Properties Obsidian keeps for itself and the panel leaves out. */
+const HIDDEN_PROPERTIES = new Set(['position']);
+
+export interface NotePreviewProperty {
+  key: string;
+  /** Markdown for the value, so wiki links in properties render as links. */
+  value: string;
+}
+
+export interface NotePreview {
+  properties: NotePreviewProperty[];
+  /** The opening section: everything up to the second heading. */
+  lead: string;
+  /** The rest of the note, cut to the preview length. */
+  body: string;
+  truncated: boolean;
+}
+
+export function formatPropertyValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map((item) => formatPropertyValue(item)).filter(Boolean).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function isFence(line: string): boolean {
+  return FENCE_PATTERN.test(line);
+}
+
+/** Cuts markdown at a line boundary, closing a code fence left open by the cut. */
+function truncateMarkdown(markdown: string, maxLength: number): { text: string; truncated: boolean } {
+  if (markdown.length <= maxLength) return { text: markdown, truncated: false };
+  const cut = markdown.lastIndexOf('\n', maxLength);
+  const text = markdown.slice(0, cut > 0 ? cut : maxLength);
+  const openFence = text.split('\n').filter(isFence).length % 2 === 1;
+  return { text: openFence ? `${text}\n\`\`\`` : text, truncated: true };
+}
+
+/**
+ * Splits a note into the parts the node panel renders: its properties, the
+ * opening section and a length-capped remainder. Headings inside code fences
+ * do not start a section.
+ */
+export function buildNotePreview(
+  markdown: string,
+  frontmatter: Record<string, unknown> | null | undefined,
+  maxLength = NOTE_PREVIEW_MAX_LENGTH
+): NotePreview {
+  const properties: NotePreviewProperty[] = [];
+  Object.entries(frontmatter ?? {}).forEach(([key, value]) => {
+    if (HIDDEN_PROPERTIES.has(key)) return;
+    const formatted = formatPropertyValue(value);
+    if (formatted) properties.push({ key, value: formatted });
+  });
+
+  const lines = markdown.replace(FRONTMATTER_PATTERN, '').split(/\r?\n/);
+  let inFence = false;
+  let headings = 0;
+  let splitAt = lines.length;
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+    if (isFence(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence || !HEADING_PATTERN.test(line)) continue;
+    headings += 1;
+    if (headings === 2 || (headings === 1 && lines.slice(0, index).some((prior) => prior.trim()))) {
+      splitAt = index;
+      break;
+    }
+  }
+
+  const lead = truncateMarkdown(lines.slice(0, splitAt).join('\n').trim(), maxLength);
+  const remaining = Math.max(0, maxLength - lead.text.length);
+  const body = lead.truncated
+    ? { text: '', truncated: true }
+    : truncateMarkdown(lines.slice(splitAt).join('\n').trim(), remaining);
+  return {
+    properties,
+    lead: lead.text,
+    body: body.text,
+    truncated: lead.truncated || body.truncated,
+  };
+}
@@ -0,0 +1,95 @@
+export interface PropertyLinkReference {
+  key: string;
+  link: string;
+}
+
+export interface PropertyLink {
+  property: string;
+  targetPath: string;
+  count: number;
+}
+
+const WIKI_LINK_PATTERN = /\[\[([^\]]+)\]\]/g;
+
+export function propertyNameFromKey(key: string): string {
+  return key.replace(/\.\d+$/, '').trim().toLowerCase();
+}
+
+export function linkpathFromLinktext(linktext: string): string {
+  const withoutAlias = linktext.split('|')[0];
+  const hashIndex = withoutAlias.indexOf('#');
+  const linkpath = hashIndex === -1 ? withoutAlias : withoutAlias.slice(0, hashIndex);
+  return linkpath.trim();
+}
+
+function collectWikiLinks(value: unknown, key: string, refs: PropertyLinkReference[]): void {
+  if (typeof value === 'string') {
+    WIKI_LINK_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = WIKI_LINK_PATTERN.exec(value)) !== null) {
+      refs.push({ key, link: match[1] });
+    }
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => collectWikiLinks(item, `${key}.${index}`, refs));
+  }
+}
+
+/**
+ * Fallback for metadata caches without `frontmatterLinks`: scans frontmatter
+ * values for `[[wiki-links]]`, keyed the same way Obsidian keys list entries.
+ */
+export function extractFrontmatterLinkReferences(frontmatter: Record<string, unknown> | null | undefined): PropertyLinkReference[] {
+  if (!frontmatter) return [];
+  const refs: PropertyLinkReference[] = [];
+  Object.entries(frontmatter).forEach(([key, value]) => {
+    if (key === 'position') return;
+    collectWikiLinks(value, key, refs);
+  });
+  return refs;
+}
+
+export function collectPropertyLinks(
+  refs: PropertyLinkReference[],
+  resolveLinkpath: (linkpath: string) => string | null
+): PropertyLink[] {
+  const byKey = new Map<string, PropertyLink>();
+  refs.forEach((ref) => {
+    const property = propertyNameFromKey(ref.key);
+    const linkpath = linkpathFromLinktext(ref.link);
+    if (!property || !linkpath) return;
+    const targetPath = resolveLinkpath(linkpath);
+    if (!targetPath) return;
+    const key = `${property}\u0000${targetPath}`;
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.count += 1;
+    } else {
+      byKey.set(key, { property, targetPath, count: 1 });
+    }
+  });
+  return Array.from(byKey.values());
+}
+
+/**
+ * `resolvedLinks` already counts frontmatter links, so typed property edges
+ * are removed from the plain reference counts to avoid drawing them twice.
+ */
+export function subtractLinkCounts(
+  outgoing: Record<string, number>,
+  consumed: Array<{ targetPath: string; count: number }>
+): Record<string, number> {
+  if (consumed.length === 0) return outgoing;
+  const remaining: Record<string, number> = { ...outgoing };
+  consumed.forEach(({ targetPath, count }) => {
+    if (!(targetPath in remaining)) return;
+    const next = remaining[targetPath] - count;
+    if (next > 0) {
+      remaining[targetPath] = next;
+    } else {
+      delete remaining[targetPath];
+    }
+  });
+  return remaining;
+}
@@ -0,0 +1,100 @@
+import type { SizeRule, SizeRuleMetric } from '../main';
+
+export const SIZE_RULE_METRIC_LABELS: Record<SizeRuleMetric, string> = {
+  property: 'Number property',
+  'word-count': 'Word count',
+  backlinks: 'Backlink count',
+  'open-tasks': 'Open tasks',
+};
+
+/** Node size given to the lowest and highest value of a rule; degree-based sizes run from 2.5 to 15. */
+export const SIZE_RULE_MIN_SIZE = 4;
+export const SIZE_RULE_MAX_SIZE = 40;
+
+export interface SizeRuleSubject {
+  properties: Record<string, number>;
+  wordCount?: number | null;
+  backlinks: number;
+  openTasks: number;
+}
+
+export interface SizeLegendEntry {
+  ruleId: string;
+  label: string;
+  min: number;
+  max: number;
+  /** Notes sized by this rule. */
+  count: number;
+}
+
+export interface SizeRuleResult {
+  /** Per subject, the node size from the first rule with a value, or null to keep the default. */
+  sizes: Array<number | null>;
+  legend: SizeLegendEntry[];
+}
+
+export function sizeRuleLabel(rule: SizeRule): string {
+  const property = rule.property?.trim();
+  return rule.metric === 'property' && property ? property : SIZE_RULE_METRIC_LABELS[rule.metric];
+}
+
+export function sizeRuleValue(rule: SizeRule, subject: SizeRuleSubject): number | null {
+  switch (rule.metric) {
+    case 'property': {
+      const key = rule.property?.trim();
+      if (!key) return null;
+      const value = subject.properties[key];
+      return typeof value === 'number' && Number.isFinite(value) ? value : null;
+    }
+    case 'word-count':
+      return typeof subject.wordCount === 'number' ? subject.wordCount : null;
+    case 'backlinks':
+      return subject.backlinks;
+    case 'open-tasks':
+      return subject.openTasks;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Sizes notes by the first enabled rule that has a value for them, spreading
+ * each rule's values linearly from SIZE_RULE_MIN_SIZE to SIZE_RULE_MAX_SIZE.
+ */
+export function applySizeRules(subjects: SizeRuleSubject[], rules: SizeRule[]): SizeRuleResult {
+  const active = rules.filter((rule) => rule.enabled);
+  const sizes: Array<number | null> = subjects.map(() => null);
+  if (active.length === 0) return { sizes, legend: [] };
+
+  const assigned = subjects.map((subject) => {
+    for (let index = 0; index < active.length; index += 1) {
+      const value = sizeRuleValue(active[index], subject);
+      if (value !== null) return { rule: index, value };
+    }
+    return null;
+  });
+
+  const legend: SizeLegendEntry[] = active.map((rule) => ({
+    ruleId: rule.id,
+    label: sizeRuleLabel(rule),
+    min: Infinity,
+    max: -Infinity,
+    count: 0,
+  }));
+  assigned.forEach((entry) => {
+    if (!entry) return;
+    const range = legend[entry.rule];
+    range.min = Math.min(range.min, entry.value);
+    range.max = Math.max(range.max, entry.value);
+    range.count += 1;
+  });
+
+  assigned.forEach((entry, index) => {
+    if (!entry) return;
+    const { min, max } = legend[entry.rule];
+    const t = max > min ? (entry.value - min) / (max - min) : 1;
+    sizes[index] = SIZE_RULE_MIN_SIZE + t * (SIZE_RULE_MAX_SIZE - SIZE_RULE_MIN_SIZE);
+  });
+
+  return { sizes, legend: legend.filter((entry) => entry.count > 0) };
+}
@@ -0,0 +1,181 @@
+import type { GraphDataPayload, RawGraphLink, RawGraphNode } from '../hyper/core/graph';
+import { linkpathFromLinktext } from './propertyLinks';
+
+export type SubNodeKind = 'heading' | 'block';
+
+export interface SubpathLink {
+  linkpath: string;
+  kind: SubNodeKind;
+  ref: string;
+}
+
+export interface SectionHeading {
+  heading: string;
+  line: number;
+}
+
+export function normalizeHeading(heading: string): string {
+  return heading.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Splits `Note#Section`, `Note#^block` and the shorthand `Note^block` into
+ * the note part and the sub-node reference. Nested headings (`Note#A#B`)
+ * point at the innermost heading.
+ */
+export function parseSubpathLink(linktext: string): SubpathLink | null {
+  const link = linktext.split('|')[0].trim();
+  const hashIndex = link.indexOf('#');
+  if (hashIndex !== -1) {
+    const linkpath = link.slice(0, hashIndex).trim();
+    const subpath = link.slice(hashIndex + 1);
+    if (subpath.startsWith('^')) {
+      const ref = subpath.slice(1).trim();
+      return ref ? { linkpath, kind: 'block', ref } : null;
+    }
+    const parts = subpath.split('#').map((part) => part.trim()).filter((part) => part.length > 0);
+    const ref = parts[parts.length - 1];
+    return ref ? { linkpath, kind: 'heading', ref } : null;
+  }
+  const caretIndex = link.indexOf('^');
+  if (caretIndex > 0) {
+    const ref = link.slice(caretIndex + 1).trim();
+    return ref ? { linkpath: link.slice(0, caretIndex).trim(), kind: 'block', ref } : null;
+  }
+  return null;
+}
+
+export function subNodeId(notePath: string, kind: SubNodeKind, ref: string): string {
+  return kind === 'block'
+    ? `${notePath}#^${ref}`
+    : `${notePath}#${normalizeHeading(ref)}`;
+}
+
+/** Share of `maxNodes` kept for sub-nodes even when notes already fill the graph. */
+const SUB_NODE_RESERVE = 0.5;
+
+/** Room for sub-nodes: whatever `maxNodes` leaves after `usedNodes`, but never less than the reserve. */
+export function subNodeBudget(maxNodes: number, usedNodes: number): number {
+  return Math.max(0, maxNodes - usedNodes, Math.floor(maxNodes * SUB_NODE_RESERVE));
+}
+
+/** Keeps linked sections and blocks ahead of unreferenced headings, up to `maxCount`. */
+export function prioritizeSubNodes<T extends RawGraphNode>(linked: T[], headings: T[], maxCount: number): T[] {
+  const picked = new Map<string, T>();
+  for (const node of [...linked, ...headings]) {
+    if (picked.size >= maxCount) break;
+    const id = String(node.id);
+    if (!picked.has(id)) picked.set(id, node);
+  }
+  return Array.from(picked.values());
+}
+
+export function findSectionHeading(headings: SectionHeading[], line: number): SectionHeading | null {
+  let current: SectionHeading | null = null;
+  for (const heading of headings) {
+    if (heading.line > line) break;
+    current = heading;
+  }
+  return current;
+}
+
+export interface SectionLinkReference {
+  link: string;
+  line: number;
+  /** Written as `![[embed]]` rather than `[[link]]`. */
+  embed?: boolean;
+}
+
+export interface SectionLink {
+  sourceId: string;
+  targetId: string;
+  targetPath: string;
+  count: number;
+  embed: boolean;
+}
+
+export interface SectionLinkParams {
+  notePath: string;
+  headings: SectionHeading[];
+  references: SectionLinkReference[];
+  resolveLinkpath: (linkpath: string) => string | null;
+  hasSubNode: (id: string) => boolean;
+}
+
+/**
+ * Attributes each body link to the heading section it is written under and
+ * points it at the linked heading or block sub-node when one exists.
+ */
+export function collectSectionLinks(params: SectionLinkParams): SectionLink[] {
+  const { notePath, headings, references, resolveLinkpath, hasSubNode } = params;
+  const byKey = new Map<string, SectionLink>();
+  references.forEach((reference) => {
+    const subpath = parseSubpathLink(reference.link);
+    const linkpath = subpath ? subpath.linkpath : linkpathFromLinktext(reference.link);
+    const targetPath = linkpath ? resolveLinkpath(linkpath) : notePath;
+    if (!targetPath) return;
+
+    const section = findSectionHeading(headings, reference.line);
+    const sectionId = section ? subNodeId(notePath, 'heading', section.heading) : null;
+    const sourceId = sectionId && hasSubNode(sectionId) ? sectionId : notePath;
+
+    const subTargetId = subpath ? subNodeId(targetPath, subpath.kind, subpath.ref) : null;
+    const targetId = subTargetId && hasSubNode(subTargetId) ? subTargetId : targetPath;
+    if (sourceId === targetId) return;
+
+    const embed = reference.embed === true;
+    const key = `${sourceId}\u0000${targetId}\u0000${embed ? 'embed' : 'link'}`;
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.count += 1;
+    } else {
+      byKey.set(key, { sourceId, targetId, targetPath, count: 1, embed });
+    }
+  });
+  return Array.from(byKey.values());
+}
+
+/**
+ * Folds the sub-nodes of the given parents back into them. Links that pointed
+ * at a folded sub-node are redirected to the parent and merged per type.
+ */
+export function collapseSubNodes(data: GraphDataPayload, collapsedParents: Set<string>): GraphDataPayload {
+  if (collapsedParents.size === 0) return data;
+  const redirect = new Map<string, string>();
+  const nodes: RawGraphNode[] = [];
+  (data.nodes ?? []).forEach((node) => {
+    const parent = node.parent !== undefined ? String(node.parent) : null;
+    if (parent !== null && collapsedParents.has(parent)) {
+      redirect.set(String(node.id), parent);
+      return;
+    }
+    nodes.push(node);
+  });
+
+  const merged = new Map<string, RawGraphLink>();
+  const links: RawGraphLink[] = [];
+  (data.links ?? []).forEach((link) => {
+    if (link.source === undefined || link.target === undefined) {
+      links.push(link);
+      return;
+    }
+    const source = redirect.get(String(link.source)) ?? String(link.source);
+    const target = redirect.get(String(link.target)) ?? String(link.target);
+    if (source === target) return;
+    if (source === String(link.source) && target === String(link.target)) {
+      links.push(link);
+      return;
+    }
+    const key = `${source}\u0000${target}\u0000${link.type ?? ''}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.value = (existing.value ?? 1) + (link.value ?? 1);
+      return;
+    }
+    const redirected: RawGraphLink = { ...link, source, target };
+    merged.set(key, redirected);
+    links.push(redirected);
+  });
+
+  return { ...data, nodes, links };
+}
@@ -0,0 +1,74 @@
+export const TAG_NODE_PREFIX = 'tag:';
+
+export interface TagHubNode {
+  tag: string;
+  parent: string | null;
+  noteCount: number;
+}
+
+export interface TagNoteLink {
+  path: string;
+  tag: string;
+}
+
+export interface TagHierarchy {
+  tags: TagHubNode[];
+  noteLinks: TagNoteLink[];
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').replace(/\/+$/, '').toLowerCase();
+}
+
+export function tagNodeId(tag: string): string {
+  return `${TAG_NODE_PREFIX}${normalizeTag(tag)}`;
+}
+
+export function isTagNodeId(id: string): boolean {
+  return id.startsWith(TAG_NODE_PREFIX);
+}
+
+export function expandTagHierarchy(tag: string): string[] {
+  const normalized = normalizeTag(tag);
+  if (!normalized) return [];
+  const parts = normalized.split('/').filter((part) => part.length > 0);
+  return parts.map((_, index) => parts.slice(0, index + 1).join('/'));
+}
+
+/**
+ * Notes link to the tags they carry; nested tags additionally link to their
+ * parent so `#area/research` hangs off `#area`. Note counts include notes
+ * tagged with any descendant.
+ */
+export function buildTagHierarchy(tagsByPath: Map<string, string[]>): TagHierarchy {
+  const notesByTag = new Map<string, Set<string>>();
+  const parentByTag = new Map<string, string | null>();
+  const noteLinks: TagNoteLink[] = [];
+
+  tagsByPath.forEach((tags, path) => {
+    const direct = new Set<string>();
+    tags.forEach((rawTag) => {
+      const chain = expandTagHierarchy(rawTag);
+      if (chain.length === 0) return;
+      direct.add(chain[chain.length - 1]);
+      chain.forEach((tag, index) => {
+        if (!parentByTag.has(tag)) {
+          parentByTag.set(tag, index > 0 ? chain[index - 1] : null);
+        }
+        if (!notesByTag.has(tag)) notesByTag.set(tag, new Set());
+        notesByTag.get(tag)!.add(path);
+      });
+    });
+    direct.forEach((tag) => noteLinks.push({ path, tag }));
+  });
+
+  const tags: TagHubNode[] = Array.from(parentByTag.entries())
+    .map(([tag, parent]) => ({
+      tag,
+      parent,
+      noteCount: notesByTag.get(tag)?.size ?? 0,
+    }))
+    .sort((a, b) => a.tag.localeCompare(b.tag));
+
+  return { tags, noteLinks };
+}
@@ -0,0 +1,110 @@
+import type { ResolvedLinks } from './linkMaps';
+
+export interface VaultChangeBatch {
+  changedPaths: string[];
+  removedPaths: string[];
+}
+
+export interface VaultChangeBatcherBindings {
+  setTimeout(callback: () => void, delayMs: number): number;
+  clearTimeout(timerId: number): void;
+  onFlush(batch: VaultChangeBatch): void;
+}
+
+export interface VaultChangeBatcherConfig {
+  /** Quiet period after the last edit before the batch is applied. */
+  changeDelayMs: number;
+  /** Shorter wait once metadataCache reports that link resolution settled. */
+  resolvedDelayMs: number;
+}
+
+const DEFAULT_CONFIG: VaultChangeBatcherConfig = {
+  changeDelayMs: 1200,
+  resolvedDelayMs: 250,
+};
+
+export class VaultChangeBatcher {
+  private changedPaths = new Set<string>();
+  private removedPaths = new Set<string>();
+  private flushTimer: number | null = null;
+  private config: VaultChangeBatcherConfig;
+
+  constructor(
+    private readonly bindings: VaultChangeBatcherBindings,
+    config: Partial<VaultChangeBatcherConfig> = {}
+  ) {
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+    };
+  }
+
+  recordChange(path: string): void {
+    this.removedPaths.delete(path);
+    this.changedPaths.add(path);
+    this.scheduleFlush(this.config.changeDelayMs);
+  }
+
+  recordDelete(path: string): void {
+    this.changedPaths.delete(path);
+    this.removedPaths.add(path);
+    this.scheduleFlush(this.config.changeDelayMs);
+  }
+
+  recordRename(path: string, oldPath: string): void {
+    this.recordDelete(oldPath);
+    this.recordChange(path);
+  }
+
+  markResolved(): void {
+    if (!this.hasPending()) return;
+    this.scheduleFlush(this.config.resolvedDelayMs);
+  }
+
+  hasPending(): boolean {
+    return this.changedPaths.size > 0 || this.removedPaths.size > 0;
+  }
+
+  dispose(): void {
+    if (this.flushTimer !== null) {
+      this.bindings.clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.changedPaths.clear();
+    this.removedPaths.clear();
+  }
+
+  private scheduleFlush(delayMs: number): void {
+    if (this.flushTimer !== null) {
+      this.bindings.clearTimeout(this.flushTimer);
+    }
+    this.flushTimer = this.bindings.setTimeout(() => {
+      this.flushTimer = null;
+      const batch: VaultChangeBatch = {
+        changedPaths: Array.from(this.changedPaths),
+        removedPaths: Array.from(this.removedPaths),
+      };
+      this.changedPaths.clear();
+      this.removedPaths.clear();
+      if (batch.changedPaths.length === 0 && batch.removedPaths.length === 0) return;
+      this.bindings.onFlush(batch);
+    }, delayMs);
+  }
+}
+
+/**
+ * A batch matters to the current graph when it touches one of its nodes or
+ * when a changed file now links into the graph.
+ */
+export function isBatchRelevant(
+  batch: VaultChangeBatch,
+  nodeIds: Set<string>,
+  resolvedLinks: ResolvedLinks
+): boolean {
+  if (batch.removedPaths.some((path) => nodeIds.has(path))) return true;
+  return batch.changedPaths.some((path) => {
+    if (nodeIds.has(path)) return true;
+    const outgoing = resolvedLinks[path];
+    return outgoing ? Object.keys(outgoing).some((target) => nodeIds.has(target)) : false;
+  });
+}
@@ -1,30 +1,107 @@
 import type { App, CachedMetadata } from 'obsidian';
-import { TFile } from 'obsidian';
+import { FileView, TFile } from 'obsidian';
 import type { GraphDataPayload, RawGraphLink, RawGraphNode } from '../hyper/core/graph';
-import type { ColorRule } from '../main';
+import type { ColorRule, SizeRule } from '../main';
 import {
-  collectMissingTargetPaths,
+  collectMissingTargets,
   compileIgnorePattern,
-  getCustomColorForFile,
+  countColorRuleMatches,
+  findColorRule,
+  parseHexColor,
 } from './vaultGraphRules';
 import { type DegreeMaps, resolvedLinkDerivedCache } from './linkMaps';
-import { selectLocalScopePaths } from './localScopeSelection';
+import { countEmbedTargets } from './edgeKinds';
+import { extractInlineFieldReferences, type InlineFieldReference } from './inlineFields';
+import { resolveDisplayTitle, type LabelSource } from './displayTitles';
+import { selectLocalScopePaths, type LocalScopeDirection } from './localScopeSelection';
+import {
+  collectPropertyLinks,
+  extractFrontmatterLinkReferences,
+  subtractLinkCounts,
+  type PropertyLink,
+  type PropertyLinkReference,
+} from './propertyLinks';
+import { buildTagHierarchy, tagNodeId, type TagHierarchy } from './tagNodes';
+import { buildFolderHierarchy, folderNodeId, type FolderHierarchy } from './folderNodes';
+import {
+  collectSectionLinks,
+  parseSubpathLink,
+  prioritizeSubNodes,
+  subNodeBudget,
+  subNodeId,
+  type SectionHeading,
+  type SectionLinkReference,
+} from './subNodes';
+import {
+  canvasTextCardId,
+  parseCanvasStructure,
+  summarizeCanvasText,
+  type CanvasEndpoint,
+  type CanvasStructure,
+  type CanvasTextCard,
+} from './canvasGraph';
+import type { FilterPredicate, FilterTarget } from './graphFilterQuery';
+import type { DatasetRootContext } from './customDatasets';
+import { countOpenTasks, countWords, numericProperties } from './noteMetrics';
+import { applySizeRules, type SizeLegendEntry, type SizeRuleSubject } from './sizeRules';
+import { rankGlobalCandidates, type GlobalRankingStrategy, type RankingInputs } from './globalRanking';
 
 export type VaultGraphScope = 'global' | 'local';
 
+export interface VaultGraphTruncation {
+  strategy: GlobalRankingStrategy;
+  considered: number;
+  dropped: number;
+}
+
+export interface VaultGraphPayload extends GraphDataPayload {
+  truncation?: VaultGraphTruncation | null;
+  /** Notes in the graph matched by each color rule, keyed by rule id. */
+  colorRuleMatches?: Record<string, number>;
+  /** Value range behind each size rule that sized at least one note. */
+  sizeLegend?: SizeLegendEntry[];
+}
+
 export interface VaultGraphOptions {
   scope: VaultGraphScope;
   rootFile?: TFile | null;
   includeCanvas?: boolean;
   includeAttachments?: boolean;
   maxNodes?: number;
+  /** Local scope: hops along outgoing links. */
   depth?: number;
+  /** Local scope: hops along backlinks; defaults to `depth`. */
+  backlinkDepth?: number;
+  direction?: LocalScopeDirection;
   showOnlyExistingFiles?: boolean;
+  includeTagNodes?: boolean;
+  includeFolderNodes?: boolean;
+  includeSubNodes?: boolean;
+  includeCanvasText?: boolean;
+  filter?: FilterPredicate | null;
+  /** Local scope: grow the graph from all of these paths instead of `rootFile`. */
+  seedPaths?: string[];
+  /** Global scope: only consider these paths. */
+  candidatePaths?: Set<string> | null;
+  /** Global scope: which notes survive the `maxNodes` cut. */
+  ranking?: GlobalRankingStrategy;
+  /** Read every note to record its word count (for word-count axes). */
+  includeWordCounts?: boolean;
+  /** Read note bodies for Dataview-style `key:: [[link]]` fields and draw them as typed links. */
+  includeInlineFields?: boolean;
+  /** Where note labels come from; `labelTemplate` is used by the 'template' source. */
+  labelSource?: LabelSource;
+  labelTemplate?: string;
   colorRules?: ColorRule[];
+  /** Size notes by property, word count, backlinks or open tasks instead of degree. */
+  sizeRules?: SizeRule[];
 }
 
 const IMAGE_EXTENSIONS = new Set(['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp', 'svg', 'tiff']);
 const noteSummaryCache = new Map<string, { mtime: number; summary: string }>();
+const wordCountCache = new Map<string, { mtime: number; words: number }>();
+const inlineFieldCache = new Map<string, { mtime: number; refs: InlineFieldReference[] }>();
+const canvasStructureCache = new Map<string, { mtime: number; structure: CanvasStructure }>();
 
 function isFileExcluded(app: App, file: TFile): boolean {
   // Access Obsidian's user ignore filters from vault config
@@ -105,6 +182,60 @@ async function extractNoteSummary(app: App, file: TFile, cache: CachedMetadata |
   }
 }
 
+async function readWordCount(app: App, file: TFile): Promise<number | null> {
+  if (!isMarkdown(file)) return null;
+  const cached = wordCountCache.get(file.path);
+  if (cached && cached.mtime === file.stat.mtime) return cached.words;
+  try {
+    const words = countWords(await app.vault.cachedRead(file));
+    wordCountCache.set(file.path, { mtime: file.stat.mtime, words });
+    return words;
+  } catch (error) {
+    console.warn('[vaultGraph] Failed to read file for word count', file.path, error);
+    return cached?.words ?? null;
+  }
+}
+
+async function readInlineFieldReferences(app: App, file: TFile): Promise<InlineFieldReference[]> {
+  const cached = inlineFieldCache.get(file.path);
+  if (cached && cached.mtime === file.stat.mtime) return cached.refs;
+  try {
+    const refs = extractInlineFieldReferences(await app.vault.cachedRead(file));
+    inlineFieldCache.set(file.path, { mtime: file.stat.mtime, refs });
+    return refs;
+  } catch (error) {
+    console.warn('[vaultGraph] Failed to read file for inline fields', file.path, error);
+    return cached?.refs ?? [];
+  }
+}
+
+async function readCanvasStructure(app: App, file: TFile): Promise<CanvasStructure> {
+  const cached = canvasStructureCache.get(file.path);
+  if (cached && cached.mtime === file.stat.mtime) {
+    return cached.structure;
+  }
+  try {
+    const structure = parseCanvasStructure(await app.vault.cachedRead(file));
+    canvasStructureCache.set(file.path, { mtime: file.stat.mtime, structure });
+    return structure;
+  } catch (error) {
+    console.warn('[vaultGraph] Failed to read canvas', file.path, error);
+    return cached?.structure ?? { fileCards: [], textCards: [], arrows: [] };
+  }
+}
+
+function buildCanvasTextNode(canvas: TFile, card: CanvasTextCard): RawGraphNode {
+  return {
+    id: canvasTextCardId(canvas.path, card.id),
+    label: summarizeCanvasText(card.text) || canvas.basename,
+    category: 'canvas-text',
+    summary: trimSummary(card.text.replace(/\s+/g, ' ')),
+    importance: 1,
+    size: 2,
+    raw: { isCanvasText: true, canvasPath: canvas.path, cardId: card.id, tags: [] },
+  };
+}
+
 function resolveEmbedResource(app: App, source: TFile, link: string): string | null {
   const target = app.metadataCache.getFirstLinkpathDest(link, source.path);
   if (!target) return null;
@@ -138,6 +269,24 @@ function gatherNodeMedia(app: App, file: TFile, cache: CachedMetadata | null): {
   };
 }
 
+/** A file's node label under `labelSource`, as the graph builder resolves it. */
+export function resolveFileLabel(
+  file: TFile,
+  cache: CachedMetadata | null,
+  labelSource: LabelSource,
+  labelTemplate: string
+): string {
+  return resolveDisplayTitle(
+    {
+      basename: file.basename,
+      frontmatter: (cache?.frontmatter ?? {}) as Record<string, unknown>,
+      firstHeading: cache?.headings?.find((heading) => heading.level === 1)?.heading ?? null,
+    },
+    labelSource,
+    labelTemplate
+  );
+}
+
 function scoreNodeImportance(path: string, maps: DegreeMaps): number {
   const outgoing = maps.outgoing.get(path) ?? 0;
   const incoming = maps.incoming.get(path) ?? 0;
@@ -171,16 +320,184 @@ function extractTags(cache: CachedMetadata | null): string[] {
   return Array.from(tags);
 }
 
-function gatherGlobalFiles(app: App, includeCanvas: boolean, maxNodes: number): TFile[] {
+function buildTagNode(tag: string, noteCount: number): RawGraphNode {
+  const importance = Math.min(6, 2 + Math.log2(noteCount + 1));
+  return {
+    id: tagNodeId(tag),
+    label: `#${tag}`,
+    category: 'tag',
+    summary: `Tag carried by ${noteCount} note${noteCount === 1 ? '' : 's'}`,
+    importance,
+    size: importance * 2.5,
+    raw: { isTag: true, tag, noteCount, tags: [] },
+  };
+}
+
+function buildFolderNode(app: App, folderPath: string, descendantCount: number): RawGraphNode {
+  const importance = Math.min(6, 2 + Math.log2(descendantCount + 1));
+  return {
+    id: folderNodeId(folderPath),
+    label: folderPath ? (folderPath.split('/').pop() ?? folderPath) : app.vault.getName(),
+    category: 'folder',
+    summary: `${folderPath || '/'} · ${descendantCount} item${descendantCount === 1 ? '' : 's'}`,
+    importance,
+    size: importance * 2.5,
+    raw: { isFolder: true, folderPath, descendantCount, tags: [] },
+  };
+}
+
+function sectionHeadings(cache: CachedMetadata | null): SectionHeading[] {
+  return (cache?.headings ?? []).map((heading) => ({
+    heading: heading.heading,
+    line: heading.position.start.line,
+  }));
+}
+
+function bodyLinkReferences(cache: CachedMetadata | null): SectionLinkReference[] {
+  const refs: SectionLinkReference[] = [];
+  cache?.links?.forEach((link) => refs.push({ link: link.link, line: link.position.start.line }));
+  cache?.embeds?.forEach((embed) => refs.push({ link: embed.link, line: embed.position.start.line, embed: true }));
+  return refs;
+}
+
+/** Inline field links already become typed edges, so section links skip them. */
+function withoutInlineFieldLinks(refs: SectionLinkReference[], inlineRefs: InlineFieldReference[]): SectionLinkReference[] {
+  if (inlineRefs.length === 0) return refs;
+  const inline = new Set(inlineRefs.map((ref) => `${ref.line}\u0000${ref.link.split('|')[0].trim()}`));
+  return refs.filter((ref) => ref.embed || !inline.has(`${ref.line}\u0000${ref.link}`));
+}
+
+function buildSubNode(
+  file: TFile,
+  kind: 'heading' | 'block',
+  ref: string,
+  line: number
+): RawGraphNode {
+  const label = kind === 'heading' ? ref : `^${ref}`;
+  return {
+    id: subNodeId(file.path, kind, ref),
+    label,
+    category: kind,
+    parent: file.path,
+    summary: `${file.basename} › ${label}`,
+    importance: 1,
+    size: 2,
+    raw: { isSubNode: true, subNodeKind: kind, notePath: file.path, ref, line, tags: [] },
+  };
+}
+
+/**
+ * Heading sub-nodes come from every included note; block sub-nodes only for
+ * block IDs that some included note actually links to. At most `maxCount` are
+ * kept, linked sections and blocks first.
+ */
+function gatherSubNodes(app: App, files: TFile[], includedPaths: Set<string>, maxCount: number): RawGraphNode[] {
+  const headings = new Map<string, RawGraphNode>();
+  const linked = new Map<string, RawGraphNode>();
+  const markdownFiles = files.filter((file) => isMarkdown(file));
+
+  markdownFiles.forEach((file) => {
+    const cache = app.metadataCache.getFileCache(file) ?? null;
+    sectionHeadings(cache).forEach(({ heading, line }) => {
+      const node = buildSubNode(file, 'heading', heading, line);
+      const id = String(node.id);
+      if (!headings.has(id)) headings.set(id, node);
+    });
+  });
+
+  markdownFiles.forEach((source) => {
+    const cache = app.metadataCache.getFileCache(source) ?? null;
+    bodyLinkReferences(cache).forEach(({ link }) => {
+      const subpath = parseSubpathLink(link);
+      if (!subpath) return;
+      const target = subpath.linkpath
+        ? app.metadataCache.getFirstLinkpathDest(subpath.linkpath, source.path)
+        : source;
+      if (!target || !includedPaths.has(target.path)) return;
+      const id = subNodeId(target.path, subpath.kind, subpath.ref);
+      if (linked.has(id)) return;
+      if (subpath.kind === 'heading') {
+        const heading = headings.get(id);
+        if (heading) linked.set(id, heading);
+        return;
+      }
+      const blocks = app.metadataCache.getFileCache(target)?.blocks;
+      const block = blocks?.[subpath.ref] ?? blocks?.[subpath.ref.toLowerCase()];
+      if (!block) return;
+      linked.set(id, buildSubNode(target, 'block', subpath.ref, block.position.start.line));
+    });
+  });
+
+  return prioritizeSubNodes(Array.from(linked.values()), Array.from(headings.values()), maxCount);
+}
+
+function gatherPropertyLinks(app: App, file: TFile, cache: CachedMetadata | null): PropertyLink[] {
+  if (!cache) return [];
+  const refs: PropertyLinkReference[] = cache.frontmatterLinks
+    ? cache.frontmatterLinks.map((ref) => ({ key: ref.key, link: ref.link }))
+    : extractFrontmatterLinkReferences(cache.frontmatter);
+  if (refs.length === 0) return [];
+  return collectPropertyLinks(refs, (linkpath) => {
+    const target = app.metadataCache.getFirstLinkpathDest(linkpath, file.path);
+    return target ? target.path : null;
+  });
+}
+
+function buildFilterTarget(app: App, file: TFile, maps: DegreeMaps): FilterTarget {
+  const cache = app.metadataCache.getFileCache(file) ?? null;
+  return {
+    path: file.path,
+    basename: file.basename,
+    category: getCategoryForFile(file),
+    tags: extractTags(cache),
+    outgoingLinks: maps.outgoing.get(file.path) ?? 0,
+    incomingLinks: maps.incoming.get(file.path) ?? 0,
+    mtime: file.stat.mtime,
+    ctime: file.stat.ctime,
+    properties: cache?.frontmatter ?? null,
+  };
+}
+
+function gatherCandidateFiles(
+  app: App,
+  includeCanvas: boolean,
+  accept: ((file: TFile) => boolean) | null = null
+): TFile[] {
   const markdown = app.vault.getMarkdownFiles();
   const canvases = includeCanvas
     ? app.vault.getFiles().filter((file) => isCanvasFile(file))
     : [];
-  const combined = [...markdown, ...canvases];
+  return [...markdown, ...canvases].filter((file) => !accept || accept(file));
+}
+
+function gatherGlobalFiles(app: App, includeCanvas: boolean, maxNodes: number): TFile[] {
+  const combined = gatherCandidateFiles(app, includeCanvas);
   combined.sort((a, b) => b.stat.mtime - a.stat.mtime);
   return combined.slice(0, maxNodes);
 }
 
+function gatherRankedGlobalFiles(
+  app: App,
+  includeCanvas: boolean,
+  maxNodes: number,
+  accept: ((file: TFile) => boolean) | null,
+  strategy: GlobalRankingStrategy,
+  inputs: RankingInputs
+): { files: TFile[]; truncation: VaultGraphTruncation } {
+  const candidates = gatherCandidateFiles(app, includeCanvas, (file) => !isFileExcluded(app, file) && (!accept || accept(file)));
+  const byPath = new Map(candidates.map((file) => [file.path, file]));
+  const { selected, dropped } = rankGlobalCandidates(
+    candidates.map((file) => ({ path: file.path, mtime: file.stat.mtime })),
+    strategy,
+    inputs,
+    maxNodes
+  );
+  return {
+    files: selected.map((path) => byPath.get(path)).filter((file): file is TFile => Boolean(file)),
+    truncation: { strategy, considered: candidates.length, dropped },
+  };
+}
+
 function gatherRecentPaths(app: App, includeCanvas: boolean, maxNodes: number): string[] {
   return gatherGlobalFiles(app, includeCanvas, maxNodes).map((file) => file.path);
 }
@@ -194,14 +511,18 @@ function pickFilesForLocalScope(
   const root = options.rootFile;
   const includeCanvas = options.includeCanvas ?? true;
   const depthLimit = options.depth ?? 2;
+  const backlinkDepth = options.backlinkDepth ?? depthLimit;
   const maxNodes = options.maxNodes ?? 360;
   const minNodes = Math.max(8, Math.min(maxNodes, 48));
 
   return selectLocalScopePaths({
     rootPath: root?.path ?? null,
+    seedPaths: options.seedPaths,
     depth: depthLimit,
+    backlinkDepth,
+    direction: options.direction,
     minNodes,
-    maxDepth: Math.max(depthLimit, 4),
+    maxDepth: Math.max(depthLimit, backlinkDepth, 4),
     includeCanvas,
     fallbackPaths: gatherRecentPaths(app, includeCanvas, maxNodes),
     resolvedLinks,
@@ -220,20 +541,46 @@ function materializePaths(app: App, paths: Set<string>): TFile[] {
   return files;
 }
 
-export async function buildVaultGraph(app: App, options: VaultGraphOptions): Promise<GraphDataPayload> {
+export async function buildVaultGraph(app: App, options: VaultGraphOptions): Promise<VaultGraphPayload> {
   const includeCanvas = options.includeCanvas ?? true;
   const includeAttachments = options.includeAttachments ?? false;
   const maxNodes = options.maxNodes ?? 360;
   const showOnlyExistingFiles = options.showOnlyExistingFiles ?? true;
+  const includeTagNodes = options.includeTagNodes ?? false;
+  const includeFolderNodes = options.includeFolderNodes ?? false;
+  const includeSubNodes = options.includeSubNodes ?? false;
+  const includeCanvasText = options.includeCanvasText ?? false;
+  const includeInlineFields = options.includeInlineFields ?? false;
+  const labelSource = options.labelSource ?? 'basename';
+  const labelTemplate = options.labelTemplate ?? '';
 
   const resolvedLinks = app.metadataCache.resolvedLinks;
   const derivedLinks = resolvedLinkDerivedCache.get(resolvedLinks);
   const reverseLinks = derivedLinks.reverseLinks;
   const degreeMaps = derivedLinks.degreeMaps;
 
+  const filter = options.filter ?? null;
+  const passesFilter = filter
+    ? (file: TFile) => file.path === options.rootFile?.path || filter(buildFilterTarget(app, file, degreeMaps))
+    : null;
+  const candidatePaths = options.candidatePaths ?? null;
+  const acceptGlobal = candidatePaths || passesFilter
+    ? (file: TFile) => (!candidatePaths || candidatePaths.has(file.path)) && (!passesFilter || passesFilter(file))
+    : null;
+
   let targetFiles: TFile[] = [];
+  let truncation: VaultGraphTruncation | null = null;
   if (options.scope === 'global') {
-    targetFiles = gatherGlobalFiles(app, includeCanvas, maxNodes);
+    const ranked = gatherRankedGlobalFiles(
+      app,
+      includeCanvas,
+      maxNodes,
+      acceptGlobal,
+      options.ranking ?? 'recency',
+      { degreeMaps, resolvedLinks }
+    );
+    targetFiles = ranked.files;
+    truncation = ranked.truncation;
   } else {
     const paths = pickFilesForLocalScope(app, options, resolvedLinks, reverseLinks);
     targetFiles = materializePaths(app, paths).slice(0, maxNodes);
@@ -246,23 +593,27 @@ export async function buildVaultGraph(app: App, options: VaultGraphOptions): Pro
     if (isFileExcluded(app, file)) return;
     const category = getCategoryForFile(file);
     if (category === 'image' && !includeAttachments) return;
+    if (passesFilter && options.scope !== 'global' && !passesFilter(file)) return;
     seen.add(file.path);
     filtered.push(file);
   });
 
   const nodes: RawGraphNode[] = [];
   const nodeIdByPath = new Map<string, string>();
-  const missingNodesByPath = new Map<string, RawGraphNode>();
+  const seedPaths = new Set(options.scope === 'local' ? options.seedPaths ?? [] : []);
   const colorRules = options.colorRules ?? [];
+  const sizeRules = options.sizeRules ?? [];
+  const includeWordCounts = options.includeWordCounts
+    || sizeRules.some((rule) => rule.enabled && rule.metric === 'word-count');
   const includedPaths = new Set(filtered.map((file) => file.path));
 
-  const missingNodePaths = showOnlyExistingFiles
+  const missingTargets = showOnlyExistingFiles
     ? []
-    : collectMissingTargetPaths({
+    : collectMissingTargets({
       includeCanvas,
       maxCount: Math.max(0, maxNodes - filtered.length),
       sourcePaths: filtered.map((file) => file.path),
-      resolvedLinks,
+      metadataCache: app.metadataCache,
       knownPaths: includedPaths,
       hasPath: (path) => {
         const entry = app.vault.getAbstractFileByPath(path);
@@ -280,33 +631,131 @@ export async function buildVaultGraph(app: App, options: VaultGraphOptions): Pro
       const isMoc = tags.includes('moc');
       const nodeId = file.path;
 
-      const customColor = getCustomColorForFile(file.path, tags, colorRules);
+      const frontmatter = (cache?.frontmatter ?? {}) as Record<string, unknown>;
+      const colorRule = findColorRule(file.path, tags, colorRules, frontmatter);
+      const customColor = colorRule ? parseHexColor(colorRule.color) : null;
+      const raw: Record<string, unknown> = {
+        isMoc,
+        tags,
+        ctime: file.stat.ctime,
+        mtime: file.stat.mtime,
+        folderDepth: file.path.split('/').length - 1,
+        properties: numericProperties(cache?.frontmatter),
+      };
+      if (includeWordCounts) raw.wordCount = await readWordCount(app, file);
+      if (seedPaths.has(file.path)) raw.isSeed = true;
       const nodeData: RawGraphNode = {
         id: nodeId,
-        label: file.basename,
+        label: resolveFileLabel(file, cache, labelSource, labelTemplate),
         category: getCategoryForFile(file),
         summary,
         importance,
         size: importance * 2.5,
         imageUrl: image,
         media: gallery,
-        raw: { isMoc, tags },
+        raw,
       };
       if (customColor !== null) {
         nodeData.color = customColor;
       }
-      return { path: file.path, nodeData };
+      if (colorRule?.shape) nodeData.shape = colorRule.shape;
+      const sizeSubject: SizeRuleSubject = {
+        properties: raw.properties as Record<string, number>,
+        wordCount: raw.wordCount as number | null | undefined,
+        backlinks: derivedLinks.reverseLinks.get(file.path)?.size ?? 0,
+        openTasks: countOpenTasks(cache?.listItems),
+      };
+      return { path: file.path, nodeData, tags, frontmatter, sizeSubject };
     })
   );
+  const sizing = applySizeRules(existingNodeData.map(({ sizeSubject }) => sizeSubject), sizeRules);
+  sizing.sizes.forEach((size, index) => {
+    if (size !== null) existingNodeData[index].nodeData.size = size;
+  });
+  const colorRuleMatches = countColorRuleMatches(
+    existingNodeData.map(({ path, tags, frontmatter }) => ({ path, tags, properties: frontmatter })),
+    colorRules
+  );
 
-  existingNodeData.forEach(({ path, nodeData }) => {
+  const tagsByPath = new Map<string, string[]>();
+  existingNodeData.forEach(({ path, nodeData, tags }) => {
     nodeIdByPath.set(path, String(nodeData.id ?? path));
     nodes.push(nodeData);
+    if (tags.length > 0) tagsByPath.set(path, tags);
   });
 
-  missingNodePaths.forEach((missingPath) => {
+  let tagHierarchy: TagHierarchy | null = null;
+  if (includeTagNodes) {
+    tagHierarchy = buildTagHierarchy(tagsByPath);
+    tagHierarchy.tags.forEach(({ tag, noteCount }) => {
+      nodes.push(buildTagNode(tag, noteCount));
+    });
+  }
+
+  let folderHierarchy: FolderHierarchy | null = null;
+  if (includeFolderNodes) {
+    folderHierarchy = buildFolderHierarchy(filtered.map((file) => file.path));
+    folderHierarchy.folders.forEach(({ path, descendantCount }) => {
+      nodes.push(buildFolderNode(app, path, descendantCount));
+    });
+  }
+
+  const canvasStructures = new Map<string, CanvasStructure>();
+  await Promise.all(
+    filtered
+      .filter((file) => isCanvasFile(file))
+      .map(async (file) => {
+        canvasStructures.set(file.path, await readCanvasStructure(app, file));
+      })
+  );
+
+  const inlineFieldRefs = new Map<string, InlineFieldReference[]>();
+  if (includeInlineFields) {
+    await Promise.all(
+      filtered
+        .filter((file) => isMarkdown(file))
+        .map(async (file) => {
+          inlineFieldRefs.set(file.path, await readInlineFieldReferences(app, file));
+        })
+    );
+  }
+
+  const subNodeIds = new Set<string>();
+  const links: RawGraphLink[] = [];
+
+  if (includeCanvasText) {
+    filtered.forEach((file) => {
+      canvasStructures.get(file.path)?.textCards.forEach((card) => {
+        const node = buildCanvasTextNode(file, card);
+        nodes.push(node);
+        links.push({ source: file.path, target: String(node.id), value: 1, type: 'canvas' });
+      });
+    });
+  }
+
+  const canvasEndpointId = (canvasPath: string, endpoint: CanvasEndpoint): string | null => {
+    if (endpoint.kind === 'file') return nodeIdByPath.get(endpoint.path) ?? null;
+    return includeCanvasText ? canvasTextCardId(canvasPath, endpoint.id) : null;
+  };
+
+  if (includeSubNodes) {
+    const budget = subNodeBudget(maxNodes, filtered.length + missingTargets.length);
+    gatherSubNodes(app, filtered, includedPaths, budget).forEach((node) => {
+      const id = String(node.id);
+      subNodeIds.add(id);
+      nodes.push(node);
+      links.push({
+        source: String(node.parent),
+        target: id,
+        value: 1,
+        type: 'section',
+      });
+    });
+  }
+
+  missingTargets.forEach(({ path: missingPath, references, sources }) => {
     const nodeId = missingPath;
-    const missingNode: RawGraphNode = {
+    nodes.push({
       id: nodeId,
       label: missingPath.split('/').pop() ?? missingPath,
       category: 'missing',
@@ -316,53 +765,147 @@ export async function buildVaultGraph(app: App, options: VaultGraphOptions): Pro
       raw: {
         isMissing: true,
         tags: [],
-        incomingReferences: 0,
-        incomingSources: 0,
+        incomingReferences: references,
+        incomingSources: sources.length,
+        incomingSourcePaths: sources.map((source) => source.path),
       },
-    };
-    nodeIdByPath.set(missingPath, nodeId);
-    missingNodesByPath.set(missingPath, missingNode);
-    nodes.push(missingNode);
+    });
+    sources.forEach((source) => {
+      const sourceId = nodeIdByPath.get(source.path);
+      if (!sourceId) return;
+      links.push({
+        source: sourceId,
+        target: nodeId,
+        value: source.count,
+        type: 'missing-reference',
+      });
+    });
   });
 
-  const links: RawGraphLink[] = [];
-
   filtered.forEach((file) => {
     const sourceId = nodeIdByPath.get(file.path);
     if (!sourceId) return;
-    const outgoing = resolvedLinks[file.path];
-    if (!outgoing) return;
 
-    Object.entries(outgoing).forEach(([targetPath, count]) => {
+    const propertyLinks = isMarkdown(file)
+      ? gatherPropertyLinks(app, file, app.metadataCache.getFileCache(file) ?? null)
+      : [];
+    propertyLinks.forEach(({ property, targetPath, count }) => {
       const targetId = nodeIdByPath.get(targetPath);
       if (!targetId) return;
-      const missingNode = missingNodesByPath.get(targetPath);
-      if (missingNode && missingNode.raw && typeof missingNode.raw === 'object') {
-        const raw = missingNode.raw as { incomingReferences?: number; incomingSourcePaths?: Set<string>; incomingSources?: number };
-        raw.incomingReferences = (raw.incomingReferences ?? 0) + count;
-        if (!raw.incomingSourcePaths) {
-          raw.incomingSourcePaths = new Set<string>();
-        }
-        raw.incomingSourcePaths.add(file.path);
-        raw.incomingSources = raw.incomingSourcePaths.size;
-      }
       links.push({
         source: sourceId,
         target: targetId,
         value: count,
-        type: missingNode ? 'missing-reference' : (isCanvasFile(file) ? 'canvas' : 'reference'),
+        type: property,
+        kind: 'frontmatter',
       });
     });
-  });
 
-  missingNodesByPath.forEach((node) => {
-    if (!node.raw || typeof node.raw !== 'object') return;
-    const raw = node.raw as { incomingSourcePaths?: Set<string> };
-    if (raw.incomingSourcePaths) {
-      delete raw.incomingSourcePaths;
+    const inlineRefs = inlineFieldRefs.get(file.path) ?? [];
+    const inlineLinks = collectPropertyLinks(
+      inlineRefs,
+      (linkpath) => app.metadataCache.getFirstLinkpathDest(linkpath, file.path)?.path ?? null
+    );
+    inlineLinks.forEach(({ property, targetPath, count }) => {
+      const targetId = nodeIdByPath.get(targetPath);
+      if (!targetId) return;
+      links.push({
+        source: sourceId,
+        target: targetId,
+        value: count,
+        type: property,
+        kind: 'inline',
+      });
+    });
+
+    const consumed: Array<{ targetPath: string; count: number }> = [...propertyLinks, ...inlineLinks];
+    const canvasStructure = canvasStructures.get(file.path);
+    if (canvasStructure) {
+      canvasStructure.fileCards.forEach(({ path, count }) => {
+        consumed.push({ targetPath: path, count });
+        const targetId = nodeIdByPath.get(path);
+        if (!targetId) return;
+        links.push({ source: sourceId, target: targetId, value: count, type: 'canvas' });
+      });
+      canvasStructure.arrows.forEach(({ from, to, type }) => {
+        const arrowSourceId = canvasEndpointId(file.path, from);
+        const arrowTargetId = canvasEndpointId(file.path, to);
+        if (!arrowSourceId || !arrowTargetId || arrowSourceId === arrowTargetId) return;
+        links.push({ source: arrowSourceId, target: arrowTargetId, value: 1, type });
+      });
+    }
+    if (includeSubNodes && isMarkdown(file)) {
+      const cache = app.metadataCache.getFileCache(file) ?? null;
+      const sectionLinks = collectSectionLinks({
+        notePath: file.path,
+        headings: sectionHeadings(cache),
+        references: withoutInlineFieldLinks(bodyLinkReferences(cache), inlineRefs),
+        resolveLinkpath: (linkpath) => app.metadataCache.getFirstLinkpathDest(linkpath, file.path)?.path ?? null,
+        hasSubNode: (id) => subNodeIds.has(id),
+      });
+      sectionLinks.forEach(({ sourceId: linkSourceId, targetId, targetPath, count, embed }) => {
+        consumed.push({ targetPath, count });
+        const resolvedTargetId = subNodeIds.has(targetId) ? targetId : nodeIdByPath.get(targetPath);
+        if (!resolvedTargetId) return;
+        links.push({
+          source: linkSourceId,
+          target: resolvedTargetId,
+          value: count,
+          type: embed ? 'embed' : 'reference',
+          kind: embed ? 'embed' : 'link',
+        });
+      });
+    } else if (isMarkdown(file)) {
+      const embeds = countEmbedTargets(
+        app.metadataCache.getFileCache(file)?.embeds,
+        (linkpath) => app.metadataCache.getFirstLinkpathDest(linkpath, file.path)?.path ?? null
+      );
+      embeds.forEach(({ targetPath, count }) => {
+        consumed.push({ targetPath, count });
+        const targetId = nodeIdByPath.get(targetPath);
+        if (!targetId || targetId === sourceId) return;
+        links.push({ source: sourceId, target: targetId, value: count, type: 'embed', kind: 'embed' });
+      });
     }
+
+    const outgoing = resolvedLinks[file.path];
+    if (!outgoing) return;
+
+    Object.entries(subtractLinkCounts(outgoing, consumed)).forEach(([targetPath, count]) => {
+      const targetId = nodeIdByPath.get(targetPath);
+      if (!targetId) return;
+      if (isCanvasFile(file)) {
+        links.push({ source: sourceId, target: targetId, value: count, type: 'canvas' });
+        return;
+      }
+      links.push({ source: sourceId, target: targetId, value: count, type: 'reference', kind: 'link' });
+    });
   });
 
+  if (tagHierarchy) {
+    tagHierarchy.noteLinks.forEach(({ path, tag }) => {
+      const sourceId = nodeIdByPath.get(path);
+      if (!sourceId) return;
+      links.push({ source: sourceId, target: tagNodeId(tag), value: 1, type: 'tag' });
+    });
+    tagHierarchy.tags.forEach(({ tag, parent }) => {
+      if (!parent) return;
+      links.push({ source: tagNodeId(tag), target: tagNodeId(parent), value: 1, type: 'subtag' });
+    });
+  }
+
+  if (folderHierarchy) {
+    folderHierarchy.folders.forEach(({ path, parent }) => {
+      if (parent === null) return;
+      links.push({ source: folderNodeId(parent), target: folderNodeId(path), value: 1, type: 'contains' });
+    });
+    folderHierarchy.fileLinks.forEach(({ folder, path }) => {
+      const targetId = nodeIdByPath.get(path);
+      if (!targetId) return;
+      links.push({ source: folderNodeId(folder), target: targetId, value: 1, type: 'contains' });
+    });
+  }
+
   const scopeLabel = options.scope === 'global'
     ? 'Vault (global)'
     : `Vault • ${options.rootFile?.basename ?? 'selection'}`;
@@ -370,14 +913,61 @@ export async function buildVaultGraph(app: App, options: VaultGraphOptions): Pro
   return {
     nodes,
     links,
-    summary: `${nodes.length} nodes · ${links.length} links${missingNodePaths.length > 0 ? ` · ${missingNodePaths.length} unresolved` : ''}`,
+    summary: `${nodes.length} nodes · ${links.length} links${missingTargets.length > 0 ? ` · ${missingTargets.length} unresolved` : ''}`,
     query: scopeLabel,
+    truncation,
+    colorRuleMatches,
+    sizeLegend: sizing.legend,
+  };
+}
+
+/** Notes (and canvases, if included) open in the main workspace, in tab order. */
+export function gatherOpenTabPaths(app: App, includeCanvas: boolean): string[] {
+  const paths: string[] = [];
+  app.workspace.iterateRootLeaves((leaf) => {
+    const file = leaf.view instanceof FileView ? leaf.view.file : null;
+    if (!file || paths.includes(file.path)) return;
+    if (isMarkdown(file) || (includeCanvas && isCanvasFile(file))) paths.push(file.path);
+  });
+  return paths;
+}
+
+export function createDatasetRootContext(
+  app: App,
+  activePath: string | null,
+  includeCanvas: boolean,
+  selectedPaths: string[] = []
+): DatasetRootContext {
+  const files = gatherCandidateFiles(app, includeCanvas);
+  const filesByPath = new Map(files.map((file) => [file.path, file]));
+  const degreeMaps = resolvedLinkDerivedCache.get(app.metadataCache.resolvedLinks).degreeMaps;
+  return {
+    activePath,
+    openPaths: gatherOpenTabPaths(app, includeCanvas),
+    selectedPaths: selectedPaths.filter((path) => filesByPath.has(path)),
+    filePaths: files.map((file) => file.path),
+    resolveNotePath: (linkpath) => {
+      const direct = app.vault.getAbstractFileByPath(linkpath);
+      if (direct instanceof TFile) return direct.path;
+      return app.metadataCache.getFirstLinkpathDest(linkpath, '')?.path ?? null;
+    },
+    tagsForPath: (path) => {
+      const file = filesByPath.get(path);
+      return file ? extractTags(app.metadataCache.getFileCache(file) ?? null) : [];
+    },
+    filterTargetForPath: (path) => {
+      const file = filesByPath.get(path);
+      return file ? buildFilterTarget(app, file, degreeMaps) : null;
+    },
   };
 }
 
 export const __vaultGraphInternals = {
   clearCaches(): void {
     noteSummaryCache.clear();
+    wordCountCache.clear();
+    inlineFieldCache.clear();
+    canvasStructureCache.clear();
     resolvedLinkDerivedCache.clear();
   },
 };
@@ -1,4 +1,5 @@
-import type { ColorRule } from '../main';
+import type { RawGraphLink } from '../hyper/core/graph';
+import type { ColorRule, ColorRuleCondition, LinkTypeStyle, PropertyOperator } from '../main';
 
 function escapeRegexChar(ch: string): string {
   return /[\\^$+?.()|[\]{}]/.test(ch) ? `\\${ch}` : ch;
@@ -29,99 +30,291 @@ export function compileIgnorePattern(pattern: string): RegExp | null {
   }
 }
 
-export function matchColorRule(rule: ColorRule, filePath: string, tags: string[], filename: string): boolean {
-  if (!rule.enabled || !rule.pattern) return false;
+/** `/source/flags` patterns become regular expressions; plain text yields null. */
+function parseSlashedRegex(pattern: string): RegExp | null {
+  if (!pattern.startsWith('/') || pattern.lastIndexOf('/') <= 0) return null;
+  const lastSlash = pattern.lastIndexOf('/');
+  return new RegExp(pattern.slice(1, lastSlash), pattern.slice(lastSlash + 1) || 'i');
+}
 
-  try {
-    if (rule.type === 'tag') {
-      const patterns = rule.pattern
-        .split(/[,\s]+/)
-        .map((p) => p.trim().toLowerCase())
-        .filter((p) => p.length > 0);
+function matchText(pattern: string, value: string): boolean {
+  const regex = parseSlashedRegex(pattern);
+  return regex ? regex.test(value) : value.toLowerCase().includes(pattern.toLowerCase());
+}
 
-      return patterns.some((pattern) => tags.some((tag) => tag.toLowerCase() === pattern));
-    }
-    if (rule.type === 'path') {
-      if (rule.pattern.startsWith('/') && rule.pattern.lastIndexOf('/') > 0) {
-        const lastSlash = rule.pattern.lastIndexOf('/');
-        const regexPattern = rule.pattern.slice(1, lastSlash);
-        const flags = rule.pattern.slice(lastSlash + 1);
-        const regex = new RegExp(regexPattern, flags || 'i');
-        return regex.test(filePath);
-      }
-      return filePath.toLowerCase().includes(rule.pattern.toLowerCase());
+function lookupProperty(properties: Record<string, unknown>, key: string): unknown {
+  if (key in properties) return properties[key];
+  const lower = key.toLowerCase();
+  const match = Object.keys(properties).find((candidate) => candidate.toLowerCase() === lower);
+  return match === undefined ? undefined : properties[match];
+}
+
+/** Numbers compare as numbers and ISO dates (`2024-05-01`) by time stamp. */
+function comparableValue(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const trimmed = value.trim();
+  const numeric = Number(trimmed);
+  if (Number.isFinite(numeric)) return numeric;
+  if (!/^\d{4}-\d{2}-\d{2}/.test(trimmed)) return null;
+  const time = Date.parse(trimmed);
+  return Number.isFinite(time) ? time : null;
+}
+
+function matchPropertyValue(operator: PropertyOperator, pattern: string, value: unknown): boolean {
+  if (value === null || value === undefined) return false;
+  if (Array.isArray(value)) return value.some((item) => matchPropertyValue(operator, pattern, item));
+  if (typeof value === 'object') return false;
+  const text = String(value);
+  switch (operator) {
+    case 'exists':
+      return text.trim() !== '';
+    case 'equals':
+      return text.trim().toLowerCase() === pattern.trim().toLowerCase();
+    case 'contains':
+      return text.toLowerCase().includes(pattern.toLowerCase());
+    case 'regex':
+      return (parseSlashedRegex(pattern) ?? new RegExp(pattern, 'i')).test(text);
+    default: {
+      const left = comparableValue(value);
+      const right = comparableValue(pattern);
+      if (left === null || right === null) return false;
+      if (operator === 'gt') return left > right;
+      if (operator === 'gte') return left >= right;
+      if (operator === 'lt') return left < right;
+      return left <= right;
     }
-    if (rule.type === 'filename') {
-      if (rule.pattern.startsWith('/') && rule.pattern.lastIndexOf('/') > 0) {
-        const lastSlash = rule.pattern.lastIndexOf('/');
-        const regexPattern = rule.pattern.slice(1, lastSlash);
-        const flags = rule.pattern.slice(lastSlash + 1);
-        const regex = new RegExp(regexPattern, flags || 'i');
-        return regex.test(filename);
-      }
-      return filename.toLowerCase().includes(rule.pattern.toLowerCase());
+  }
+}
+
+function matchCondition(
+  condition: ColorRuleCondition,
+  filePath: string,
+  tags: string[],
+  filename: string,
+  properties: Record<string, unknown>
+): boolean {
+  if (condition.type === 'property') {
+    const key = condition.property?.trim();
+    const operator = condition.operator ?? 'equals';
+    if (!key || (operator !== 'exists' && !condition.pattern)) return false;
+    return matchPropertyValue(operator, condition.pattern, lookupProperty(properties, key));
+  }
+  if (!condition.pattern) return false;
+  if (condition.type === 'tag') {
+    const patterns = condition.pattern
+      .split(/[,\s]+/)
+      .map((p) => p.trim().toLowerCase())
+      .filter((p) => p.length > 0);
+
+    return patterns.some((pattern) => tags.some((tag) => tag.toLowerCase() === pattern));
+  }
+  if (condition.type === 'path') return matchText(condition.pattern, filePath);
+  if (condition.type === 'filename') return matchText(condition.pattern, filename);
+  return false;
+}
+
+/**
+ * Group rules combine their conditions with AND (`all`) or OR (`any`); a group
+ * without conditions never matches. Invalid regular expressions never match.
+ */
+export function matchColorRule(
+  rule: ColorRule,
+  filePath: string,
+  tags: string[],
+  filename: string,
+  properties: Record<string, unknown> = {}
+): boolean {
+  if (!rule.enabled) return false;
+
+  try {
+    if (rule.type === 'group') {
+      const conditions = rule.conditions ?? [];
+      if (conditions.length === 0) return false;
+      const test = (condition: ColorRuleCondition) => matchCondition(condition, filePath, tags, filename, properties);
+      return rule.match === 'any' ? conditions.some(test) : conditions.every(test);
     }
+    return matchCondition(rule as ColorRuleCondition, filePath, tags, filename, properties);
   } catch {
     return false;
   }
+}
 
-  return false;
+export function parseHexColor(color: string): number | null {
+  const hex = color.replace('#', '');
+  const colorInt = parseInt(hex, 16);
+  return Number.isFinite(colorInt) ? colorInt : null;
 }
 
-export function getCustomColorForFile(filePath: string, tags: string[], colorRules: ColorRule[]): number | null {
+/** Rules are checked in list order, so earlier rules take priority. */
+export function findColorRule(
+  filePath: string,
+  tags: string[],
+  colorRules: ColorRule[],
+  properties: Record<string, unknown> = {}
+): ColorRule | null {
   const filename = filePath.split('/').pop() ?? '';
 
   for (const rule of colorRules) {
-    if (matchColorRule(rule, filePath, tags, filename)) {
-      const hex = rule.color.replace('#', '');
-      const colorInt = parseInt(hex, 16);
-      if (Number.isFinite(colorInt)) {
-        return colorInt;
-      }
-      return null;
+    if (matchColorRule(rule, filePath, tags, filename, properties)) {
+      return rule;
     }
   }
 
   return null;
 }
 
-interface CollectMissingTargetPathsOptions {
+export function getCustomColorForFile(
+  filePath: string,
+  tags: string[],
+  colorRules: ColorRule[],
+  properties: Record<string, unknown> = {}
+): number | null {
+  const rule = findColorRule(filePath, tags, colorRules, properties);
+  return rule ? parseHexColor(rule.color) : null;
+}
+
+export interface ColorRuleSubject {
+  path: string;
+  tags: string[];
+  properties: Record<string, unknown>;
+}
+
+/** How many subjects each rule matches on its own, keyed by rule id. */
+export function countColorRuleMatches(subjects: ColorRuleSubject[], colorRules: ColorRule[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  colorRules.forEach((rule) => {
+    counts[rule.id] = 0;
+  });
+  subjects.forEach((subject) => {
+    const filename = subject.path.split('/').pop() ?? '';
+    colorRules.forEach((rule) => {
+      if (matchColorRule(rule, subject.path, subject.tags, filename, subject.properties)) {
+        counts[rule.id] += 1;
+      }
+    });
+  });
+  return counts;
+}
+
+export function collectLinkTypes(links: RawGraphLink[]): string[] {
+  const types = new Set<string>();
+  links.forEach((link) => {
+    const type = (link.type || link.kind || '').toLowerCase();
+    if (type) types.add(type);
+  });
+  return Array.from(types).sort();
+}
+
+export function applyLinkTypeStyles(links: RawGraphLink[], styles: Record<string, LinkTypeStyle>): RawGraphLink[] {
+  const styled: RawGraphLink[] = [];
+  links.forEach((link) => {
+    const type = (link.type || link.kind || '').toLowerCase();
+    const style = styles[type];
+    if (!style) {
+      styled.push(link);
+      return;
+    }
+    if (!style.visible) return;
+    const color = style.color ? parseHexColor(style.color) : null;
+    styled.push(color === null ? link : { ...link, color });
+  });
+  return styled;
+}
+
+export interface LinkIndex {
+  resolvedLinks: Record<string, Record<string, number>>;
+  unresolvedLinks: Record<string, Record<string, number>>;
+}
+
+export interface MissingTargetSource {
+  path: string;
+  count: number;
+}
+
+export interface MissingTarget {
+  path: string;
+  references: number;
+  sources: MissingTargetSource[];
+}
+
+interface CollectMissingTargetsOptions {
   includeCanvas: boolean;
   maxCount: number;
   sourcePaths: string[];
-  resolvedLinks: Record<string, Record<string, number>>;
+  metadataCache: LinkIndex;
   hasPath: (path: string) => boolean;
   knownPaths: Set<string>;
 }
 
-export function collectMissingTargetPaths(options: CollectMissingTargetPathsOptions): string[] {
+/** Notes, canvases and the attachment types Obsidian opens; any other dotted suffix is part of a note name. */
+const FILE_EXTENSION_PATTERN = /\.(?:md|canvas|pdf|png|jpe?g|gif|bmp|svg|webp|avif|mp3|wav|m4a|ogg|flac|3gp|webm|mp4|ogv|mov|mkv)$/i;
+
+/**
+ * Unresolved link keys are raw link paths (`Foo`, `Foo.md`, `Foo#Heading`);
+ * they are reduced to a vault path so variants of one target collapse.
+ */
+export function normalizeMissingTargetPath(linkpath: string): string {
+  const withoutAlias = linkpath.split('|')[0];
+  const hashIndex = withoutAlias.indexOf('#');
+  const base = (hashIndex === -1 ? withoutAlias : withoutAlias.slice(0, hashIndex))
+    .trim()
+    .replace(/^\/+/, '');
+  if (!base) return '';
+  return FILE_EXTENSION_PATTERN.test(base) ? base : `${base}.md`;
+}
+
+export function collectMissingTargets(options: CollectMissingTargetsOptions): MissingTarget[] {
   const {
     includeCanvas,
     maxCount,
     sourcePaths,
-    resolvedLinks,
+    metadataCache,
     hasPath,
     knownPaths,
   } = options;
 
-  const missing: string[] = [];
-  const seen = new Set<string>();
+  const targets: MissingTarget[] = [];
+  const targetsByKey = new Map<string, MissingTarget>();
+
+  const record = (sourcePath: string, rawTarget: string, count: number) => {
+    const path = normalizeMissingTargetPath(rawTarget);
+    if (!path) return;
+    if (!includeCanvas && !path.toLowerCase().endsWith('.md')) return;
+    const key = path.toLowerCase();
+    let target = targetsByKey.get(key);
+    if (!target) {
+      if (targets.length >= maxCount) return;
+      if (knownPaths.has(path) || hasPath(path)) return;
+      target = { path, references: 0, sources: [] };
+      targetsByKey.set(key, target);
+      targets.push(target);
+    }
+    const safeCount = Number.isFinite(count) ? Number(count) : 0;
+    target.references += safeCount;
+    const existingSource = target.sources.find((source) => source.path === sourcePath);
+    if (existingSource) {
+      existingSource.count += safeCount;
+    } else {
+      target.sources.push({ path: sourcePath, count: safeCount });
+    }
+  };
 
   for (const sourcePath of sourcePaths) {
-    const outgoing = resolvedLinks[sourcePath];
-    if (!outgoing) continue;
-
-    for (const targetPath of Object.keys(outgoing)) {
-      if (!includeCanvas && !targetPath.toLowerCase().endsWith('.md')) continue;
-      if (knownPaths.has(targetPath) || seen.has(targetPath)) continue;
-      if (hasPath(targetPath)) continue;
-      seen.add(targetPath);
-      missing.push(targetPath);
-      if (missing.length >= maxCount) {
-        return missing;
-      }
+    const unresolved = metadataCache.unresolvedLinks[sourcePath];
+    if (unresolved) {
+      Object.entries(unresolved).forEach(([target, count]) => record(sourcePath, target, count));
+    }
+
+    // Resolved entries can briefly point at deleted files until the cache catches up.
+    const resolved = metadataCache.resolvedLinks[sourcePath];
+    if (resolved) {
+      Object.entries(resolved).forEach(([target, count]) => {
+        if (knownPaths.has(target) || hasPath(target)) return;
+        record(sourcePath, target, count);
+      });
     }
   }
 
-  return missing;
+  return targets;
 }
@@ -94,7 +94,7 @@ function gatherEdgesWithin(meta: GraphMeta, nodeSet: Set<number>): number[] {
   return indices;
 }
 
-function detectCommunities(adjacency: number[][], degrees: number[]): number[][] {
+export function detectCommunities(adjacency: number[][], degrees: number[]): number[][] {
   const nodeCount = adjacency.length;
   if (nodeCount === 0) return [];
 
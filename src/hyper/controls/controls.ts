@@ -56,6 +56,8 @@ export class HyperControls {
   }
 
   onPointerDown(event) {
+    // Lets the view claim the pointer, e.g. to drag a node instead of rotating.
+    if (this.callbacks.pointerDown?.(event)) return;
     this.canvas.setPointerCapture(event.pointerId);
     this.isDragging = true;
     this.pointerId = event.pointerId;
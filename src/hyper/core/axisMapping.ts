@@ -0,0 +1,200 @@
+import type { RawGraphNode } from './graph';
+import { detectCommunities } from '../analysis/graphInsights';
+
+export type AxisMetric =
+  | 'force'
+  | 'created'
+  | 'modified'
+  | 'property'
+  | 'in-degree'
+  | 'out-degree'
+  | 'word-count'
+  | 'folder-depth'
+  | 'community';
+
+export interface AxisBinding {
+  metric: AxisMetric;
+  /** Frontmatter key read by the `property` metric. */
+  property?: string;
+}
+
+export const AXIS_NAMES = ['X', 'Y', 'Z', 'W'] as const;
+
+export const AXIS_METRIC_LABELS: Record<AxisMetric, string> = {
+  force: 'Force-directed',
+  created: 'Created time',
+  modified: 'Modified time',
+  property: 'Number property',
+  'in-degree': 'In-degree',
+  'out-degree': 'Out-degree',
+  'word-count': 'Word count',
+  'folder-depth': 'Folder depth',
+  community: 'Community',
+};
+
+/** Half-width of the band bound values are spread over; matches the W slice offset range. */
+export const AXIS_EXTENT = 1.2;
+
+export interface AxisRange {
+  metric: AxisMetric;
+  property?: string;
+  min: number;
+  max: number;
+  /** Half-width the values were finally spread over. */
+  extent: number;
+}
+
+export interface AxisLayout {
+  ranges: Array<AxisRange | null>;
+  /** Per axis, the coordinate of each node, or null where the node has no value and stays free. */
+  coordinates: Array<Array<number | null>>;
+}
+
+interface GraphStructure {
+  inDegree: number[];
+  outDegree: number[];
+  community: number[];
+}
+
+const RAW_METRIC_KEYS: Record<'created' | 'modified' | 'word-count' | 'folder-depth', string> = {
+  created: 'ctime',
+  modified: 'mtime',
+  'word-count': 'wordCount',
+  'folder-depth': 'folderDepth',
+};
+
+/**
+ * Settings saved before axis bindings kept the W axis time mode in `wAxis`;
+ * a stored `created` or `modified` becomes the W binding.
+ */
+export function migrateLegacyWAxis(bindings: AxisBinding[], wAxis: unknown): AxisBinding[] {
+  if (wAxis !== 'created' && wAxis !== 'modified') return bindings;
+  return bindings.map((binding, axis) => (axis === 3 ? { metric: wAxis } : { ...binding }));
+}
+
+export function isBoundAxis(binding: AxisBinding | null | undefined): boolean {
+  if (!binding || binding.metric === 'force') return false;
+  return binding.metric !== 'property' || Boolean(binding.property?.trim());
+}
+
+function rawFields(node: RawGraphNode | null | undefined): Record<string, unknown> | null {
+  const raw = node?.raw;
+  return raw && typeof raw === 'object' ? raw as Record<string, unknown> : null;
+}
+
+function finiteNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function analyseStructure(nodeCount: number, edges: Array<[number, number]>): GraphStructure {
+  const inDegree = new Array<number>(nodeCount).fill(0);
+  const outDegree = new Array<number>(nodeCount).fill(0);
+  const adjacency = Array.from({ length: nodeCount }, () => new Set<number>());
+  edges.forEach(([source, target]) => {
+    outDegree[source] += 1;
+    inDegree[target] += 1;
+    if (source === target) return;
+    adjacency[source].add(target);
+    adjacency[target].add(source);
+  });
+  const neighbors = adjacency.map((set) => Array.from(set));
+  const community = new Array<number>(nodeCount).fill(0);
+  detectCommunities(neighbors, neighbors.map((list) => list.length)).forEach((members, index) => {
+    members.forEach((member) => {
+      community[member] = index;
+    });
+  });
+  return { inDegree, outDegree, community };
+}
+
+/**
+ * Value of `binding` for one node. Time stamps, word counts and folder depth
+ * come from the vault fields on `raw`; degrees and communities from the
+ * graph itself, so they describe the loaded graph rather than the whole vault.
+ */
+function metricValue(
+  node: RawGraphNode | null | undefined,
+  index: number,
+  binding: AxisBinding,
+  structure: GraphStructure
+): number | null {
+  const raw = rawFields(node);
+  switch (binding.metric) {
+    case 'in-degree':
+      return structure.inDegree[index];
+    case 'out-degree':
+      return structure.outDegree[index];
+    case 'community':
+      return structure.community[index];
+    case 'property': {
+      const properties = raw?.properties;
+      if (!properties || typeof properties !== 'object') return null;
+      return finiteNumber((properties as Record<string, unknown>)[binding.property?.trim() ?? '']);
+    }
+    case 'created':
+    case 'modified': {
+      const value = finiteNumber(raw?.[RAW_METRIC_KEYS[binding.metric]]);
+      return value !== null && value > 0 ? value : null;
+    }
+    case 'word-count':
+    case 'folder-depth':
+      return finiteNumber(raw?.[RAW_METRIC_KEYS[binding.metric]]);
+    default:
+      return null;
+  }
+}
+
+/** Spreads each bound axis linearly from -extent (lowest value) to +extent (highest). */
+export function layoutAxes(
+  nodes: Array<RawGraphNode | null | undefined>,
+  edges: Array<[number, number]>,
+  bindings: Array<AxisBinding | null | undefined>,
+  extent = AXIS_EXTENT
+): AxisLayout {
+  const ranges: Array<AxisRange | null> = [null, null, null, null];
+  const coordinates: Array<Array<number | null>> = AXIS_NAMES.map(() => nodes.map(() => null));
+  if (!bindings.some((binding) => isBoundAxis(binding))) {
+    return { ranges, coordinates };
+  }
+
+  const structure = analyseStructure(nodes.length, edges);
+  AXIS_NAMES.forEach((_, axis) => {
+    const binding = bindings[axis];
+    if (!binding || !isBoundAxis(binding)) return;
+    const values = nodes.map((node, index) => metricValue(node, index, binding, structure));
+    let min = Infinity;
+    let max = -Infinity;
+    values.forEach((value) => {
+      if (value === null) return;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    });
+    if (!Number.isFinite(min)) return;
+    const span = max - min;
+    ranges[axis] = { metric: binding.metric, property: binding.property, min, max, extent };
+    coordinates[axis] = values.map((value) => {
+      if (value === null) return null;
+      return span === 0 ? 0 : ((value - min) / span) * 2 * extent - extent;
+    });
+  });
+  return { ranges, coordinates };
+}
+
+export function valueAtCoordinate(range: AxisRange, coordinate: number): number {
+  const t = Math.min(1, Math.max(0, (coordinate + range.extent) / (2 * range.extent)));
+  return range.min + t * (range.max - range.min);
+}
+
+/** Values covered by a hyperplane slice at `offset` with the given thickness. */
+export function sliceBounds(range: AxisRange, offset: number, thickness: number): { start: number; end: number } {
+  const half = Math.max(0, thickness) / 2;
+  return {
+    start: valueAtCoordinate(range, offset - half),
+    end: valueAtCoordinate(range, offset + half),
+  };
+}
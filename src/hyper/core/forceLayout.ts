@@ -0,0 +1,254 @@
+import type { Vec4 } from './math4d';
+import { DEFAULT_REPULSION_THETA, planForceLayoutExecution, type RepulsionMode } from './forceLayoutPlan';
+import { applyExactRepulsion, applyTreeRepulsion } from './hyperTree';
+
+export interface ForceLayoutConfig {
+  iterations: number;
+  repelForce: number;
+  centerForce: number;
+  linkForce: number;
+  linkDistance: number;
+  /** Barnes–Hut opening angle for large graphs; lower is more accurate and slower. */
+  theta?: number;
+}
+
+export interface ForceLayoutProgress {
+  /** Called after `vertices` has been updated with the layout so far. */
+  onProgress: (iteration: number, iterations: number) => void;
+  /** Iterations between updates. */
+  every?: number;
+}
+
+export const DEFAULT_FORCE_LAYOUT: ForceLayoutConfig = {
+  iterations: 48,
+  repelForce: 0,
+  centerForce: 0,
+  linkForce: 0,
+  linkDistance: 1.6,
+  theta: DEFAULT_REPULSION_THETA,
+};
+
+const DEFAULT_PROGRESS_EVERY = 4;
+/** Layouts wider than this are scaled down to fit the scene. */
+const CLAMP_RADIUS = 8.8;
+const DAMPING = 0.85;
+const TIME_STEP = 0.02;
+const EPSILON = 0.0001;
+
+/** Positions and velocities of a running force simulation, in simulation space. */
+export interface ForceSimulation {
+  positions: Vec4[];
+  velocities: Vec4[];
+  forces: Vec4[];
+  edges: Array<[number, number]>;
+  pinned: boolean[][] | null;
+  repel: number;
+  center: number;
+  linkStrength: number;
+  targetDistance: number;
+  repulsion: RepulsionMode;
+  theta: number;
+  /** Iterations a one-shot layout runs. */
+  iterations: number;
+}
+
+/** How simulation space maps onto the scene: `(position - centroid) * scale`. */
+export interface ForceLayoutFrame {
+  centroid: Vec4;
+  scale: number;
+}
+
+export function createForceSimulation(
+  vertices: Vec4[],
+  edges: Array<[number, number]>,
+  config: ForceLayoutConfig,
+  pinned: boolean[][] | null = null
+): ForceSimulation {
+  const count = vertices.length;
+  const plan = planForceLayoutExecution(count, config.iterations || DEFAULT_FORCE_LAYOUT.iterations, config.theta);
+  return {
+    positions: vertices.map((vertex) => [...vertex] as Vec4),
+    velocities: Array.from({ length: count }, () => [0, 0, 0, 0] as Vec4),
+    forces: Array.from({ length: count }, () => [0, 0, 0, 0] as Vec4),
+    edges,
+    pinned,
+    repel: Math.max(0, config.repelForce),
+    center: Math.max(0, config.centerForce),
+    linkStrength: Math.max(0, config.linkForce),
+    targetDistance: Math.max(0.05, config.linkDistance || DEFAULT_FORCE_LAYOUT.linkDistance),
+    repulsion: plan.repulsion,
+    theta: plan.theta,
+    iterations: plan.iterations,
+  };
+}
+
+/**
+ * Advances the simulation one iteration with forces scaled by `alpha` and
+ * returns the kinetic energy left in it.
+ */
+export function stepForceSimulation(simulation: ForceSimulation, alpha = 1): number {
+  const { positions, velocities, forces, edges, pinned, repel, center, linkStrength, targetDistance } = simulation;
+  const count = positions.length;
+  for (let i = 0; i < count; i += 1) {
+    const f = forces[i];
+    f[0] = 0;
+    f[1] = 0;
+    f[2] = 0;
+    f[3] = 0;
+  }
+
+  if (repel > 0) {
+    if (simulation.repulsion === 'tree') {
+      applyTreeRepulsion(positions, forces, repel, simulation.theta, EPSILON);
+    } else {
+      applyExactRepulsion(positions, forces, repel, EPSILON);
+    }
+  }
+
+  if (center > 0) {
+    for (let i = 0; i < count; i += 1) {
+      const pos = positions[i];
+      forces[i][0] -= pos[0] * center;
+      forces[i][1] -= pos[1] * center;
+      forces[i][2] -= pos[2] * center;
+      forces[i][3] -= pos[3] * center;
+    }
+  }
+
+  if (linkStrength > 0 && edges.length > 0) {
+    for (let index = 0; index < edges.length; index += 1) {
+      const [aIndex, bIndex] = edges[index];
+      const pa = positions[aIndex];
+      const pb = positions[bIndex];
+      let dx = pb[0] - pa[0];
+      let dy = pb[1] - pa[1];
+      let dz = pb[2] - pa[2];
+      let dw = pb[3] - pa[3];
+      const distSq = dx * dx + dy * dy + dz * dz + dw * dw;
+      if (distSq < EPSILON) continue;
+      const dist = Math.sqrt(distSq);
+      const diff = dist - targetDistance;
+      const limitedDiff = Math.max(-targetDistance * 3, Math.min(diff, targetDistance * 3));
+      const scale = (linkStrength * limitedDiff) / dist;
+      dx *= scale;
+      dy *= scale;
+      dz *= scale;
+      dw *= scale;
+      forces[aIndex][0] += dx;
+      forces[aIndex][1] += dy;
+      forces[aIndex][2] += dz;
+      forces[aIndex][3] += dw;
+      forces[bIndex][0] -= dx;
+      forces[bIndex][1] -= dy;
+      forces[bIndex][2] -= dz;
+      forces[bIndex][3] -= dw;
+    }
+  }
+
+  const step = TIME_STEP * alpha;
+  let energy = 0;
+  for (let i = 0; i < count; i += 1) {
+    const vel = velocities[i];
+    const force = forces[i];
+    const held = pinned?.[i];
+    vel[0] = held?.[0] ? 0 : (vel[0] + force[0] * step) * DAMPING;
+    vel[1] = held?.[1] ? 0 : (vel[1] + force[1] * step) * DAMPING;
+    vel[2] = held?.[2] ? 0 : (vel[2] + force[2] * step) * DAMPING;
+    vel[3] = held?.[3] ? 0 : (vel[3] + force[3] * step) * DAMPING;
+    positions[i][0] += vel[0];
+    positions[i][1] += vel[1];
+    positions[i][2] += vel[2];
+    positions[i][3] += vel[3];
+    energy += 0.5 * (vel[0] * vel[0] + vel[1] * vel[1] + vel[2] * vel[2] + vel[3] * vel[3]);
+  }
+  return energy;
+}
+
+/**
+ * Writes simulated positions into `vertices`, recentred and clamped to the
+ * scene radius; pinned axes are left as they are.
+ */
+export function writeForceLayout(
+  positions: Vec4[],
+  vertices: Vec4[],
+  pinned: boolean[][] | null
+): ForceLayoutFrame {
+  const count = positions.length;
+  const centroid: Vec4 = [0, 0, 0, 0];
+  if (count === 0) return { centroid, scale: 1 };
+  for (let i = 0; i < count; i += 1) {
+    const pos = positions[i];
+    centroid[0] += pos[0];
+    centroid[1] += pos[1];
+    centroid[2] += pos[2];
+    centroid[3] += pos[3];
+  }
+  const invCount = 1 / count;
+  centroid[0] *= invCount;
+  centroid[1] *= invCount;
+  centroid[2] *= invCount;
+  centroid[3] *= invCount;
+
+  let maxRadiusSq = 0;
+  for (let i = 0; i < count; i += 1) {
+    const pos = positions[i];
+    const dx = pos[0] - centroid[0];
+    const dy = pos[1] - centroid[1];
+    const dz = pos[2] - centroid[2];
+    const dw = pos[3] - centroid[3];
+    const radiusSq = dx * dx + dy * dy + dz * dz + dw * dw;
+    if (radiusSq > maxRadiusSq) maxRadiusSq = radiusSq;
+  }
+
+  const maxRadius = Math.sqrt(maxRadiusSq);
+  const scale = maxRadius > CLAMP_RADIUS ? CLAMP_RADIUS / maxRadius : 1;
+
+  for (let i = 0; i < count; i += 1) {
+    const pos = positions[i];
+    const held = pinned?.[i];
+    for (let axis = 0; axis < 4; axis += 1) {
+      if (!held?.[axis]) vertices[i][axis] = (pos[axis] - centroid[axis]) * scale;
+    }
+  }
+  return { centroid, scale };
+}
+
+export function shouldApplyForceLayout(config: ForceLayoutConfig): boolean {
+  return (
+    (config.repelForce ?? 0) > 0 ||
+    (config.centerForce ?? 0) > 0 ||
+    (config.linkForce ?? 0) > 0
+  );
+}
+
+/**
+ * Runs the force simulation and writes the result into `vertices`, recentred
+ * and clamped to the scene radius; pinned axes are left as they are. With
+ * `progress`, intermediate layouts are written the same way as it runs.
+ * Returns the number of iterations run.
+ */
+export function applyForceLayout(
+  vertices: Vec4[],
+  edges: Array<[number, number]>,
+  config: ForceLayoutConfig,
+  pinned: boolean[][] | null = null,
+  progress: ForceLayoutProgress | null = null
+): number {
+  if (!shouldApplyForceLayout(config)) return 0;
+  if (vertices.length === 0) return 0;
+
+  const simulation = createForceSimulation(vertices, edges, config, pinned);
+  const iterations = simulation.iterations;
+  const progressEvery = Math.max(1, Math.round(progress?.every ?? DEFAULT_PROGRESS_EVERY));
+  for (let iter = 0; iter < iterations; iter += 1) {
+    stepForceSimulation(simulation);
+    const done = iter + 1;
+    if (progress && done < iterations && done % progressEvery === 0) {
+      writeForceLayout(simulation.positions, vertices, pinned);
+      progress.onProgress(done, iterations);
+    }
+  }
+
+  writeForceLayout(simulation.positions, vertices, pinned);
+  return iterations;
+}
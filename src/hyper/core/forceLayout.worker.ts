@@ -0,0 +1,13 @@
+import { runForceLayoutRequest, type ForceLayoutMessage, type ForceLayoutRequest } from './forceLayoutRunner';
+
+/** The parts of the worker global scope used here; the DOM lib only types the window. */
+interface LayoutWorkerScope {
+  onmessage: ((event: MessageEvent<ForceLayoutRequest>) => void) | null;
+  postMessage(message: ForceLayoutMessage, transfer: Transferable[]): void;
+}
+
+const scope = self as unknown as LayoutWorkerScope;
+
+scope.onmessage = (event) => {
+  runForceLayoutRequest(event.data, (message, transfer) => scope.postMessage(message, transfer));
+};
@@ -0,0 +1,158 @@
+import type { Vec4 } from './math4d';
+import { applyForceLayout, type ForceLayoutConfig } from './forceLayout';
+
+export interface ForceLayoutJob {
+  vertices: Vec4[];
+  edges: Array<[number, number]>;
+  config: ForceLayoutConfig;
+  pinned: boolean[][] | null;
+}
+
+export interface ForceLayoutRequest {
+  id: number;
+  /** Start positions, four values per vertex. */
+  positions: Float64Array;
+  edges: Array<[number, number]>;
+  config: ForceLayoutConfig;
+  pinned: boolean[][] | null;
+}
+
+export type ForceLayoutMessage =
+  | { id: number; type: 'progress' | 'done'; positions: Float64Array; iteration: number; iterations: number }
+  | { id: number; type: 'error'; message: string };
+
+export type ForceLayoutRunResult = 'done' | 'cancelled';
+
+export type ForceLayoutProgressHandler = (positions: Vec4[], iteration: number, iterations: number) => void;
+
+export function packVertices(vertices: Vec4[]): Float64Array {
+  const packed = new Float64Array(vertices.length * 4);
+  vertices.forEach((vertex, index) => packed.set(vertex, index * 4));
+  return packed;
+}
+
+export function unpackVertices(packed: Float64Array): Vec4[] {
+  const vertices: Vec4[] = [];
+  for (let offset = 0; offset + 3 < packed.length; offset += 4) {
+    vertices.push([packed[offset], packed[offset + 1], packed[offset + 2], packed[offset + 3]]);
+  }
+  return vertices;
+}
+
+/** Worker side: runs one layout request, posting intermediate layouts and then the result. */
+export function runForceLayoutRequest(
+  request: ForceLayoutRequest,
+  post: (message: ForceLayoutMessage, transfer: Transferable[]) => void
+): void {
+  const vertices = unpackVertices(request.positions);
+  try {
+    const iterations = applyForceLayout(vertices, request.edges, request.config, request.pinned, {
+      onProgress: (iteration, total) => {
+        const positions = packVertices(vertices);
+        post({ id: request.id, type: 'progress', positions, iteration, iterations: total }, [positions.buffer]);
+      },
+    });
+    const positions = packVertices(vertices);
+    post({ id: request.id, type: 'done', positions, iteration: iterations, iterations }, [positions.buffer]);
+  } catch (error) {
+    post({ id: request.id, type: 'error', message: error instanceof Error ? error.message : String(error) }, []);
+  }
+}
+
+/**
+ * Runs force layouts in a worker, one at a time: starting a run or calling
+ * `cancel` terminates the one in flight. Without a worker (tests, benchmarks,
+ * or a worker that fails to start) the layout runs synchronously instead.
+ */
+export class ForceLayoutRunner {
+  private worker: Worker | null = null;
+  private jobId = 0;
+  private settle: ((result: ForceLayoutRunResult) => void) | null = null;
+
+  constructor(private readonly createWorker: (() => Worker | null) | null = null) {}
+
+  get running(): boolean {
+    return this.worker !== null;
+  }
+
+  run(job: ForceLayoutJob, onProgress: ForceLayoutProgressHandler): Promise<ForceLayoutRunResult> {
+    this.cancel();
+    const id = ++this.jobId;
+    let worker: Worker | null = null;
+    try {
+      worker = this.createWorker?.() ?? null;
+    } catch (error) {
+      console.warn('[forceLayout] Worker unavailable, laying out on the main thread', error);
+    }
+    if (!worker) {
+      this.runSync(job, onProgress);
+      return Promise.resolve('done');
+    }
+
+    const activeWorker = worker;
+    this.worker = activeWorker;
+    return new Promise<ForceLayoutRunResult>((resolve) => {
+      this.settle = resolve;
+      activeWorker.onmessage = (event: MessageEvent<ForceLayoutMessage>) => {
+        const message = event.data;
+        if (message.id !== id || this.jobId !== id) return;
+        if (message.type === 'error') {
+          console.warn('[forceLayout] Worker layout failed, laying out on the main thread', message.message);
+          this.finish();
+          this.runSync(job, onProgress);
+          resolve('done');
+          return;
+        }
+        onProgress(unpackVertices(message.positions), message.iteration, message.iterations);
+        if (message.type === 'done') {
+          this.finish();
+          resolve('done');
+        }
+      };
+      activeWorker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        if (this.jobId !== id) return;
+        console.warn('[forceLayout] Worker failed, laying out on the main thread', event.message);
+        this.finish();
+        this.runSync(job, onProgress);
+        resolve('done');
+      };
+      const request: ForceLayoutRequest = {
+        id,
+        positions: packVertices(job.vertices),
+        edges: job.edges,
+        config: job.config,
+        pinned: job.pinned,
+      };
+      activeWorker.postMessage(request, [request.positions.buffer]);
+    });
+  }
+
+  /**
+   * Restarts the layout in flight from `job`, e.g. when the graph was patched
+   * before it settled. Returns null, running nothing, when no layout is in flight.
+   */
+  rerun(job: ForceLayoutJob, onProgress: ForceLayoutProgressHandler): Promise<ForceLayoutRunResult> | null {
+    return this.running ? this.run(job, onProgress) : null;
+  }
+
+  /** Stops the layout in flight; its promise resolves as 'cancelled'. */
+  cancel(): void {
+    if (!this.worker) return;
+    const settle = this.settle;
+    this.finish();
+    settle?.('cancelled');
+  }
+
+  private finish(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.settle = null;
+  }
+
+  private runSync(job: ForceLayoutJob, onProgress: ForceLayoutProgressHandler): void {
+    const positions = job.vertices.map((vertex) => [...vertex] as Vec4);
+    const iterations = applyForceLayout(positions, job.edges, job.config, job.pinned);
+    onProgress(positions, iterations, iterations);
+  }
+}
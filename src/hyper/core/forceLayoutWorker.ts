@@ -0,0 +1,19 @@
+import workerSource from './forceLayout.worker?worker';
+
+let workerUrl: string | null = null;
+
+/** Starts a force layout worker from the bundled source, or returns null where workers are unavailable. */
+export function createForceLayoutWorker(): Worker | null {
+  if (typeof Worker === 'undefined' || typeof Blob === 'undefined' || typeof URL === 'undefined') return null;
+  if (!workerUrl) {
+    workerUrl = URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' }));
+  }
+  return new Worker(workerUrl);
+}
+
+/** Revokes the cached worker script URL; the next worker recreates it. */
+export function releaseForceLayoutWorkerUrl(): void {
+  if (!workerUrl) return;
+  URL.revokeObjectURL(workerUrl);
+  workerUrl = null;
+}
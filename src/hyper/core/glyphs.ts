@@ -0,0 +1,44 @@
+export type GlyphShape = 'circle' | 'square' | 'diamond' | 'triangle' | 'ring' | 'star';
+
+/** Shader glyph ids: the position of each shape in this list. */
+export const GLYPH_SHAPES: GlyphShape[] = ['circle', 'square', 'diamond', 'triangle', 'ring', 'star'];
+
+export const GLYPH_LABELS: Record<GlyphShape, string> = {
+  circle: 'Circle',
+  square: 'Square',
+  diamond: 'Diamond',
+  triangle: 'Triangle',
+  ring: 'Ring',
+  star: 'Star',
+};
+
+/** Categories get distinct shapes so they stay apart without relying on color. */
+export const DEFAULT_CATEGORY_GLYPHS: Record<string, GlyphShape> = {
+  note: 'circle',
+  canvas: 'square',
+  image: 'diamond',
+  missing: 'ring',
+  tag: 'triangle',
+  folder: 'star',
+  'canvas-text': 'square',
+};
+
+export function isGlyphShape(value: unknown): value is GlyphShape {
+  return typeof value === 'string' && (GLYPH_SHAPES as string[]).includes(value);
+}
+
+/** A node's own shape wins, then the category override, then the category default. */
+export function resolveGlyph(
+  category: string,
+  nodeShape: unknown,
+  categoryGlyphs: Record<string, GlyphShape> | null | undefined
+): GlyphShape {
+  if (isGlyphShape(nodeShape)) return nodeShape;
+  const override = categoryGlyphs?.[category];
+  if (isGlyphShape(override)) return override;
+  return DEFAULT_CATEGORY_GLYPHS[category] ?? 'circle';
+}
+
+export function glyphIndex(shape: GlyphShape): number {
+  return Math.max(0, GLYPH_SHAPES.indexOf(shape));
+}
@@ -1,5 +1,14 @@
 import type { Vec4 } from './math4d';
-import { planForceLayoutExecution } from './forceLayoutPlan';
+import {
+  applyForceLayout,
+  DEFAULT_FORCE_LAYOUT,
+  shouldApplyForceLayout,
+  type ForceLayoutConfig,
+} from './forceLayout';
+import { AXIS_EXTENT, isBoundAxis, layoutAxes, type AxisBinding, type AxisRange } from './axisMapping';
+import { glyphIndex, resolveGlyph, type GlyphShape } from './glyphs';
+
+export type { ForceLayoutConfig } from './forceLayout';
 
 export interface RawGraphNode {
   id?: string | number;
@@ -14,9 +23,17 @@ export interface RawGraphNode {
   imageUrl?: string;
   thumbnailUrl?: string;
   color?: number;
+  /** Glyph drawn for the node; defaults to its category's glyph. */
+  shape?: GlyphShape;
+  parent?: string | number;
   raw?: unknown;
 }
 
+export type EdgeDash = 'solid' | 'dashed' | 'dotted';
+
+/** Shader dash ids, indexed by position. */
+export const EDGE_DASHES: EdgeDash[] = ['solid', 'dashed', 'dotted'];
+
 export interface RawGraphLink {
   source?: string | number;
   target?: string | number;
@@ -32,6 +49,8 @@ export interface RawGraphLink {
   kind?: string;
   description?: string;
   summary?: string;
+  color?: number;
+  dash?: EdgeDash;
 }
 
 export interface GraphNodeMeta {
@@ -57,6 +76,9 @@ export interface GraphLinkMeta {
   type: string;
   description: string;
   color: [number, number, number];
+  /** Where the link came from (`link`, `embed`, `frontmatter`), when known. */
+  kind?: string;
+  dash?: EdgeDash;
 }
 
 export interface GraphMeta {
@@ -70,6 +92,10 @@ export interface GraphMeta {
   adjacency: number[][];
   summary: string;
   query: string;
+  /** Value range of each X/Y/Z/W axis bound to a metric; null for force-directed axes. */
+  axisRanges?: Array<AxisRange | null>;
+  /** Glyph id per node, indexing GLYPH_SHAPES. */
+  vertexShapes?: Float32Array;
 }
 
 export interface NarrativeGraph {
@@ -97,18 +123,18 @@ export interface GraphLayoutConfig {
 export interface GraphBuildOptions {
   fallbackData?: GraphDataPayload;
   graphName?: string;
+  /** Metric per X/Y/Z/W axis; bound axes are pinned, the rest stay force-directed. */
+  axes?: AxisBinding[] | null;
+  /** Glyph overrides keyed by node category. */
+  categoryGlyphs?: Record<string, GlyphShape> | null;
 }
 
-export interface ForceLayoutConfig {
-  iterations: number;
-  repelForce: number;
-  centerForce: number;
-  linkForce: number;
-  linkDistance: number;
-}
 
 const EDGE_TYPE_COLORS: Record<string, number> = {
   'missing-reference': 0xffb74d,
+  contains: 0x78909c,
+  section: 0x8d9bb0,
+  'canvas-arrow': 0xaed581,
   therapeutic: 0x4fc3f7,
   romantic: 0xff6f91,
   emotional: 0xffb74d,
@@ -161,6 +187,11 @@ const CATEGORY_EMOJI: Record<string, string> = {
   society: '🌍',
   culture: '🎭',
   image: '🖼️',
+  tag: '🏷️',
+  folder: '📁',
+  heading: '📑',
+  block: '🔖',
+  'canvas-text': '🗒️',
   default: '🔹',
 };
 
@@ -176,14 +207,6 @@ const DEFAULT_LAYOUT: GraphLayoutConfig = {
 
 let currentLayoutConfig: GraphLayoutConfig = { ...DEFAULT_LAYOUT };
 
-const DEFAULT_FORCE_LAYOUT: ForceLayoutConfig = {
-  iterations: 48,
-  repelForce: 0,
-  centerForce: 0,
-  linkForce: 0,
-  linkDistance: 1.6,
-};
-
 let currentForceLayout: ForceLayoutConfig = { ...DEFAULT_FORCE_LAYOUT };
 
 export function updateLayoutConfig(config: Partial<GraphLayoutConfig> = {}): void {
@@ -201,6 +224,10 @@ export function getLayoutConfig(): GraphLayoutConfig {
   return { ...currentLayoutConfig };
 }
 
+export function getForceLayoutConfig(): ForceLayoutConfig {
+  return { ...currentForceLayout };
+}
+
 export function updateForceLayoutConfig(config: Partial<ForceLayoutConfig> = {}): void {
   currentForceLayout = {
     ...currentForceLayout,
@@ -271,7 +298,7 @@ function emojiFromCategory(category?: string): string {
   return CATEGORY_EMOJI[key] || CATEGORY_EMOJI.default;
 }
 
-function edgeColor(type?: string): [number, number, number] {
+export function edgeColor(type?: string): [number, number, number] {
   if (!type) return lightenColor(intToRgb(EDGE_TYPE_COLORS.default));
   const key = type.toLowerCase();
   if (EDGE_TYPE_COLORS[key]) {
@@ -331,7 +358,8 @@ function normalizeNode(node: RawGraphNode | null | undefined, index: number): No
   } else if (isMoc) {
     color = [1.0, 0.84, 0.0]; // Golden color for MOC nodes
   } else if (Number.isFinite(node.color)) {
-    color = lightenColor(intToRgb(Number(node.color)));
+    // Custom colors are drawn as picked, like link colors, so one swatch matches both.
+    color = intToRgb(Number(node.color));
   } else {
     color = colorFromCategory(category);
   }
@@ -357,8 +385,10 @@ interface NormalizedLink {
   targetIndex: number;
   value: number;
   type: string;
+  kind: string;
   description: string;
   color: [number, number, number];
+  dash: EdgeDash;
 }
 
 function normalizeLink(link: RawGraphLink | null | undefined, indexById: Map<string, number>): NormalizedLink | null {
@@ -381,8 +411,11 @@ function normalizeLink(link: RawGraphLink | null | undefined, indexById: Map<str
     targetIndex,
     value,
     type,
+    kind: link.type && link.kind ? link.kind.toLowerCase() : '',
     description,
-    color: edgeColor(type),
+    // A user-chosen color is drawn exactly as picked so links match their swatch.
+    color: Number.isFinite(link.color) ? intToRgb(Number(link.color)) : edgeColor(type),
+    dash: link.dash && EDGE_DASHES.includes(link.dash) ? link.dash : 'solid',
   };
 }
 
@@ -497,7 +530,7 @@ function buildLinks(rawLinks: NormalizedLink[], adjacency: Array<Set<number>>):
     adjacency[link.targetIndex].add(link.sourceIndex);
     const value = link.value ?? 1;
     if (value > maxLinkValue) maxLinkValue = value;
-    linkMeta.push({
+    const meta: GraphLinkMeta = {
       index: linkIndex,
       sourceIndex: link.sourceIndex,
       targetIndex: link.targetIndex,
@@ -505,211 +538,80 @@ function buildLinks(rawLinks: NormalizedLink[], adjacency: Array<Set<number>>):
       type: link.type,
       description: link.description,
       color: link.color,
-    });
+      dash: link.dash,
+    };
+    if (link.kind) meta.kind = link.kind;
+    linkMeta.push(meta);
   });
 
   return { edges, linkMeta, maxLinkValue: maxLinkValue || 10 };
 }
 
-function shouldApplyForceLayout(config: ForceLayoutConfig): boolean {
-  return (
-    (config.repelForce ?? 0) > 0 ||
-    (config.centerForce ?? 0) > 0 ||
-    (config.linkForce ?? 0) > 0
-  );
-}
-
-function applyForceLayout(vertices: Vec4[], edges: Array<[number, number]>, config: ForceLayoutConfig): void {
-  if (!shouldApplyForceLayout(config)) return;
-  const count = vertices.length;
-  if (count === 0) return;
-
-  const plan = planForceLayoutExecution(count, config.iterations || DEFAULT_FORCE_LAYOUT.iterations);
-  const iterations = plan.iterations;
-  const repel = Math.max(0, config.repelForce);
-  const center = Math.max(0, config.centerForce);
-  const linkStrength = Math.max(0, config.linkForce);
-  const targetDistance = Math.max(0.05, config.linkDistance || DEFAULT_FORCE_LAYOUT.linkDistance);
-
-  const positions: Vec4[] = vertices.map((vertex) => [...vertex] as Vec4);
-  const velocities: Vec4[] = Array.from({ length: count }, () => [0, 0, 0, 0] as Vec4);
-  const forces: Vec4[] = Array.from({ length: count }, () => [0, 0, 0, 0] as Vec4);
-
-  const damping = 0.85;
-  const timeStep = 0.02;
-  const epsilon = 0.0001;
-
-  for (let iter = 0; iter < iterations; iter += 1) {
-    for (let i = 0; i < count; i += 1) {
-      const f = forces[i];
-      f[0] = 0;
-      f[1] = 0;
-      f[2] = 0;
-      f[3] = 0;
-    }
-
-    if (repel > 0) {
-      if (plan.useApproximateRepulsion && plan.repulsionOffsets.length > 0) {
-        for (let offsetIndex = 0; offsetIndex < plan.repulsionOffsets.length; offsetIndex += 1) {
-          const baseOffset = plan.repulsionOffsets[offsetIndex];
-          const rotatedOffset = (baseOffset + iter * 3) % count || 1;
-          for (let i = 0; i < count; i += 1) {
-            const j = (i + rotatedOffset) % count;
-            if (j <= i) continue;
-            const pi = positions[i];
-            const pj = positions[j];
-            let dx = pi[0] - pj[0];
-            let dy = pi[1] - pj[1];
-            let dz = pi[2] - pj[2];
-            let dw = pi[3] - pj[3];
-            const distSq = dx * dx + dy * dy + dz * dz + dw * dw + epsilon;
-            const scale = repel / distSq;
-            dx *= scale;
-            dy *= scale;
-            dz *= scale;
-            dw *= scale;
-            forces[i][0] += dx;
-            forces[i][1] += dy;
-            forces[i][2] += dz;
-            forces[i][3] += dw;
-            forces[j][0] -= dx;
-            forces[j][1] -= dy;
-            forces[j][2] -= dz;
-            forces[j][3] -= dw;
-          }
-        }
-      } else {
-        for (let i = 0; i < count; i += 1) {
-          for (let j = i + 1; j < count; j += 1) {
-            const pi = positions[i];
-            const pj = positions[j];
-            let dx = pi[0] - pj[0];
-            let dy = pi[1] - pj[1];
-            let dz = pi[2] - pj[2];
-            let dw = pi[3] - pj[3];
-            const distSq = dx * dx + dy * dy + dz * dz + dw * dw + epsilon;
-            const scale = repel / distSq;
-            dx *= scale;
-            dy *= scale;
-            dz *= scale;
-            dw *= scale;
-            forces[i][0] += dx;
-            forces[i][1] += dy;
-            forces[i][2] += dz;
-            forces[i][3] += dw;
-            forces[j][0] -= dx;
-            forces[j][1] -= dy;
-            forces[j][2] -= dz;
-            forces[j][3] -= dw;
-          }
-        }
-      }
-    }
-
-    if (center > 0) {
-      for (let i = 0; i < count; i += 1) {
-        const pos = positions[i];
-        forces[i][0] -= pos[0] * center;
-        forces[i][1] -= pos[1] * center;
-        forces[i][2] -= pos[2] * center;
-        forces[i][3] -= pos[3] * center;
-      }
-    }
-
-    if (linkStrength > 0 && edges.length > 0) {
-      for (let index = 0; index < edges.length; index += 1) {
-        const [aIndex, bIndex] = edges[index];
-        const pa = positions[aIndex];
-        const pb = positions[bIndex];
-        let dx = pb[0] - pa[0];
-        let dy = pb[1] - pa[1];
-        let dz = pb[2] - pa[2];
-        let dw = pb[3] - pa[3];
-        const distSq = dx * dx + dy * dy + dz * dz + dw * dw;
-        if (distSq < epsilon) continue;
-        const dist = Math.sqrt(distSq);
-        const diff = dist - targetDistance;
-        const limitedDiff = Math.max(-targetDistance * 3, Math.min(diff, targetDistance * 3));
-        const scale = (linkStrength * limitedDiff) / dist;
-        dx *= scale;
-        dy *= scale;
-        dz *= scale;
-        dw *= scale;
-        forces[aIndex][0] += dx;
-        forces[aIndex][1] += dy;
-        forces[aIndex][2] += dz;
-        forces[aIndex][3] += dw;
-        forces[bIndex][0] -= dx;
-        forces[bIndex][1] -= dy;
-        forces[bIndex][2] -= dz;
-        forces[bIndex][3] -= dw;
-      }
-    }
-
-    for (let i = 0; i < count; i += 1) {
-      const vel = velocities[i];
-      const force = forces[i];
-      vel[0] = (vel[0] + force[0] * timeStep) * damping;
-      vel[1] = (vel[1] + force[1] * timeStep) * damping;
-      vel[2] = (vel[2] + force[2] * timeStep) * damping;
-      vel[3] = (vel[3] + force[3] * timeStep) * damping;
-      positions[i][0] += vel[0];
-      positions[i][1] += vel[1];
-      positions[i][2] += vel[2];
-      positions[i][3] += vel[3];
+/**
+ * Places nodes that declare a `parent` on a small 4D shell around that parent,
+ * so sub-nodes stay visually attached whatever layout produced the parent.
+ */
+function placeOrbitingNodes(vertices: Vec4[], nodes: NormalizedNode[], indexById: Map<string, number>): void {
+  const childrenByParent = new Map<number, number[]>();
+  nodes.forEach((node, index) => {
+    const parentId = node.raw?.parent;
+    if (parentId === undefined) return;
+    const parentIndex = indexById.get(String(parentId));
+    if (parentIndex === undefined || parentIndex === index) return;
+    const siblings = childrenByParent.get(parentIndex);
+    if (siblings) {
+      siblings.push(index);
+    } else {
+      childrenByParent.set(parentIndex, [index]);
     }
-  }
-
-  const centroid: Vec4 = [0, 0, 0, 0];
-  for (let i = 0; i < count; i += 1) {
-    const pos = positions[i];
-    centroid[0] += pos[0];
-    centroid[1] += pos[1];
-    centroid[2] += pos[2];
-    centroid[3] += pos[3];
-  }
-  const invCount = 1 / count;
-  centroid[0] *= invCount;
-  centroid[1] *= invCount;
-  centroid[2] *= invCount;
-  centroid[3] *= invCount;
-
-  let maxRadiusSq = 0;
-  for (let i = 0; i < count; i += 1) {
-    const pos = positions[i];
-    pos[0] -= centroid[0];
-    pos[1] -= centroid[1];
-    pos[2] -= centroid[2];
-    pos[3] -= centroid[3];
-    const radiusSq = pos[0] * pos[0] + pos[1] * pos[1] + pos[2] * pos[2] + pos[3] * pos[3];
-    if (radiusSq > maxRadiusSq) maxRadiusSq = radiusSq;
-  }
-
-  const maxRadius = Math.sqrt(maxRadiusSq);
-  const clampRadius = 8.8;
-  const scale = maxRadius > clampRadius ? clampRadius / maxRadius : 1;
+  });
+  if (childrenByParent.size === 0) return;
 
-  for (let i = 0; i < count; i += 1) {
-    const pos = positions[i];
-    vertices[i][0] = pos[0] * scale;
-    vertices[i][1] = pos[1] * scale;
-    vertices[i][2] = pos[2] * scale;
-    vertices[i][3] = pos[3] * scale;
-  }
+  let extent = 0;
+  vertices.forEach((vertex) => {
+    extent = Math.max(extent, Math.hypot(vertex[0], vertex[1], vertex[2], vertex[3]));
+  });
+  const baseRadius = Math.max(0.12, extent * 0.06);
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+
+  childrenByParent.forEach((children, parentIndex) => {
+    const center = vertices[parentIndex];
+    const radius = baseRadius * (1 + Math.sqrt(children.length) * 0.25);
+    children.forEach((childIndex, order) => {
+      const theta = (order / children.length) * TWO_PI;
+      const phi = order * goldenAngle;
+      const tilt = 0.45;
+      const planar = Math.cos(tilt);
+      vertices[childIndex] = [
+        center[0] + radius * planar * Math.cos(theta),
+        center[1] + radius * planar * Math.sin(theta),
+        center[2] + radius * Math.sin(tilt) * Math.cos(phi),
+        center[3] + radius * Math.sin(tilt) * Math.sin(phi),
+      ];
+    });
+  });
 }
 
-export function buildNarrativeGraphFromData(
-  data: GraphDataPayload = {},
-  options: GraphBuildOptions = {}
-): NarrativeGraph {
-  const { fallbackData, graphName = 'Narrative Graph' } = options;
-  const { nodes = [], links = [], summary = '', query = '' } = data;
-
-  if ((!Array.isArray(nodes) || nodes.length === 0) && fallbackData) {
-    return buildNarrativeGraphFromData(fallbackData, options);
-  }
-
-  const normalizedNodes = (nodes ?? [])
+interface PreparedGraph {
+  normalizedNodes: NormalizedNode[];
+  indexById: Map<string, number>;
+  layout: LayoutResult;
+  edges: Array<[number, number]>;
+  linkMeta: GraphLinkMeta[];
+  maxLinkValue: number;
+  axisRanges: Array<AxisRange | null>;
+  /** Per node, which axes are held at the node's metric value. */
+  pinned: boolean[][] | null;
+  vertexShapes: Float32Array;
+}
+
+function prepareGraph(
+  nodes: RawGraphNode[],
+  links: RawGraphLink[],
+  axes: AxisBinding[] | null = null,
+  categoryGlyphs: Record<string, GlyphShape> | null = null
+): PreparedGraph {
+  const normalizedNodes = nodes
     .map((node, index) => normalizeNode(node, index))
     .filter((value): value is NormalizedNode => Boolean(value));
 
@@ -718,15 +620,67 @@ export function buildNarrativeGraphFromData(
     indexById.set(String(node.id), index);
   });
 
-  const normalizedLinks = (links ?? [])
+  const normalizedLinks = links
     .map((link) => normalizeLink(link, indexById))
     .filter((value): value is NormalizedLink => Boolean(value));
 
   const layout = layoutNodes(normalizedNodes);
   const { edges, linkMeta, maxLinkValue } = buildLinks(normalizedLinks, layout.adjacency);
+  const prepared: PreparedGraph = {
+    normalizedNodes,
+    indexById,
+    layout,
+    edges,
+    linkMeta,
+    maxLinkValue,
+    axisRanges: [null, null, null, null],
+    pinned: null,
+    vertexShapes: Float32Array.from(normalizedNodes, (node) => glyphIndex(resolveGlyph(node.category, node.raw?.shape, categoryGlyphs))),
+  };
+  if (axes?.some((binding) => isBoundAxis(binding))) applyAxisBindings(prepared, axes);
+  return prepared;
+}
+
+function applyAxisBindings(prepared: PreparedGraph, axes: AxisBinding[]): void {
+  const { ranges, coordinates } = layoutAxes(prepared.normalizedNodes.map((node) => node.raw), prepared.edges, axes);
+  if (!ranges.some(Boolean)) return;
+  prepared.axisRanges = ranges;
+  prepared.pinned = prepared.normalizedNodes.map((_, index) => coordinates.map((values, axis) => {
+    const value = values[index];
+    if (value === null) return false;
+    prepared.layout.vertices[index][axis] = value;
+    return true;
+  }));
+}
+
+/**
+ * Stretches bound X/Y/Z axes to the extent of the force-directed ones so a
+ * pinned axis doesn't look squashed next to a large layout. W keeps its
+ * extent so the slice offset range still covers it.
+ */
+function stretchBoundAxes(prepared: PreparedGraph): void {
+  const { pinned, axisRanges, layout } = prepared;
+  if (!pinned) return;
+  let freeExtent = 0;
+  layout.vertices.forEach((vertex, index) => {
+    for (let axis = 0; axis < 3; axis += 1) {
+      if (!axisRanges[axis] && !pinned[index][axis]) freeExtent = Math.max(freeExtent, Math.abs(vertex[axis]));
+    }
+  });
+  if (freeExtent <= AXIS_EXTENT) return;
+  const factor = freeExtent / AXIS_EXTENT;
+  for (let axis = 0; axis < 3; axis += 1) {
+    const range = axisRanges[axis];
+    if (!range) continue;
+    axisRanges[axis] = { ...range, extent: range.extent * factor };
+    layout.vertices.forEach((vertex, index) => {
+      if (pinned[index][axis]) vertex[axis] *= factor;
+    });
+  }
+}
 
-  applyForceLayout(layout.vertices, edges, currentForceLayout);
-
+function assembleGraph(graphName: string, prepared: PreparedGraph, summary: string, query: string): NarrativeGraph {
+  const { layout, edges, linkMeta, maxLinkValue, axisRanges, vertexShapes } = prepared;
   return {
     name: graphName,
     vertices: layout.vertices,
@@ -742,6 +696,176 @@ export function buildNarrativeGraphFromData(
       adjacency: layout.adjacency.map((set) => Array.from(set)),
       summary,
       query,
+      axisRanges,
+      vertexShapes,
     },
   };
 }
+
+function hashDirection(id: string): Vec4 {
+  const hash = stringHash(id);
+  const theta = ((hash & 0xffff) / 0xffff) * TWO_PI;
+  const phi = (((hash >>> 16) & 0xffff) / 0xffff) * TWO_PI;
+  const half = Math.SQRT1_2;
+  return [half * Math.cos(theta), half * Math.sin(theta), half * Math.cos(phi), half * Math.sin(phi)];
+}
+
+function averageEdgeLength(vertices: Vec4[], edges: Array<[number, number]>, placed: boolean[]): number {
+  let total = 0;
+  let count = 0;
+  edges.forEach(([a, b]) => {
+    if (!placed[a] || !placed[b]) return;
+    const va = vertices[a];
+    const vb = vertices[b];
+    total += Math.hypot(va[0] - vb[0], va[1] - vb[1], va[2] - vb[2], va[3] - vb[3]);
+    count += 1;
+  });
+  return count > 0 ? total / count : 0.3;
+}
+
+/**
+ * Rebuilds the graph from fresh data while keeping the 4D position of every
+ * node that already existed in `previous`. New nodes are dropped next to
+ * their already-placed neighbours; only isolated newcomers fall back to the
+ * category torus. The force layout is handed back, starting from the kept
+ * positions, rather than rerun.
+ */
+export function patchNarrativeGraphDeferred(
+  previous: NarrativeGraph,
+  data: GraphDataPayload = {},
+  options: GraphBuildOptions = {}
+): NarrativeGraphBuild {
+  const { graphName = previous.name, axes = null, categoryGlyphs = null } = options;
+  const { nodes = [], links = [], summary = '', query = '' } = data;
+  const prepared = prepareGraph(nodes ?? [], links ?? [], axes, categoryGlyphs);
+  const { normalizedNodes, layout, edges, pinned } = prepared;
+
+  const previousIndexById = new Map<string, number>();
+  previous.meta.nodes.forEach((node, index) => previousIndexById.set(node.id, index));
+
+  const vertices = layout.vertices;
+  const placed = normalizedNodes.map((node, index) => {
+    const previousIndex = previousIndexById.get(node.id);
+    const previousVertex = previousIndex !== undefined ? previous.vertices[previousIndex] : undefined;
+    if (!previousVertex) return false;
+    vertices[index] = previousVertex.map((value, axis) => (pinned?.[index][axis] ? vertices[index][axis] : value)) as Vec4;
+    return true;
+  });
+
+  const offset = averageEdgeLength(vertices, edges, placed) * 0.5;
+  let pending = placed.some((value) => !value);
+  while (pending) {
+    const newlyPlaced: number[] = [];
+    normalizedNodes.forEach((node, index) => {
+      if (placed[index]) return;
+      const anchors = Array.from(layout.adjacency[index]).filter((neighbor) => placed[neighbor]);
+      if (anchors.length === 0) return;
+      const center: Vec4 = [0, 0, 0, 0];
+      anchors.forEach((anchor) => {
+        for (let axis = 0; axis < 4; axis += 1) center[axis] += vertices[anchor][axis] / anchors.length;
+      });
+      const direction = hashDirection(node.id);
+      vertices[index] = center.map((value, axis) => (
+        pinned?.[index][axis] ? vertices[index][axis] : value + direction[axis] * offset
+      )) as Vec4;
+      newlyPlaced.push(index);
+    });
+    newlyPlaced.forEach((index) => {
+      placed[index] = true;
+    });
+    pending = newlyPlaced.length > 0 && placed.some((value) => !value);
+  }
+
+  const graph = assembleGraph(graphName, prepared, summary, query);
+  return { graph, layout: deferForceLayout(prepared) };
+}
+
+export function patchNarrativeGraph(
+  previous: NarrativeGraph,
+  data: GraphDataPayload = {},
+  options: GraphBuildOptions = {}
+): NarrativeGraph {
+  return patchNarrativeGraphDeferred(previous, data, options).graph;
+}
+
+/**
+ * A force layout still to run for a freshly built graph. `vertices` holds the
+ * start positions; every result passed to `apply` is written into the graph.
+ */
+export interface PendingForceLayout {
+  vertices: Vec4[];
+  edges: Array<[number, number]>;
+  config: ForceLayoutConfig;
+  pinned: boolean[][] | null;
+  /** Copies laid-out positions into the graph, restretching bound axes and re-placing sub-nodes. */
+  apply(positions: ArrayLike<number>[]): void;
+  /** The graph's current positions as layout input: bound axes unstretched, the rest as drawn. */
+  snapshot(): Vec4[];
+}
+
+export interface NarrativeGraphBuild {
+  graph: NarrativeGraph;
+  /** Null when the graph is empty. */
+  layout: PendingForceLayout | null;
+}
+
+/**
+ * Builds the graph on its initial torus layout and hands back the force layout
+ * instead of running it, so callers can settle it off the UI thread.
+ */
+export function buildNarrativeGraphDeferred(
+  data: GraphDataPayload = {},
+  options: GraphBuildOptions = {}
+): NarrativeGraphBuild {
+  const { fallbackData, graphName = 'Narrative Graph', axes = null, categoryGlyphs = null } = options;
+  const { nodes = [], links = [], summary = '', query = '' } = data;
+
+  if ((!Array.isArray(nodes) || nodes.length === 0) && fallbackData) {
+    return buildNarrativeGraphDeferred(fallbackData, options);
+  }
+
+  const prepared = prepareGraph(nodes ?? [], links ?? [], axes, categoryGlyphs);
+  const graph = assembleGraph(graphName, prepared, summary, query);
+  return { graph, layout: deferForceLayout(prepared) };
+}
+
+/** Wraps a prepared graph's layout for a caller to settle; stretches and places orbiting nodes for the start layout. */
+function deferForceLayout(prepared: PreparedGraph): PendingForceLayout | null {
+  const vertices = prepared.layout.vertices;
+  if (vertices.length === 0) return null;
+  const start = vertices.map((vertex) => [...vertex] as Vec4);
+  const baseRanges = prepared.axisRanges.slice();
+  const apply = (positions: ArrayLike<number>[]) => {
+    baseRanges.forEach((range, axis) => {
+      prepared.axisRanges[axis] = range;
+    });
+    positions.forEach((position, index) => {
+      const vertex = vertices[index];
+      if (!vertex) return;
+      vertex[0] = position[0];
+      vertex[1] = position[1];
+      vertex[2] = position[2];
+      vertex[3] = position[3];
+    });
+    stretchBoundAxes(prepared);
+    placeOrbitingNodes(vertices, prepared.normalizedNodes, prepared.indexById);
+  };
+  const snapshot = () => vertices.map((vertex, index) => (
+    vertex.map((value, axis) => (prepared.pinned?.[index][axis] ? start[index][axis] : value)) as Vec4
+  ));
+  apply(start);
+  return { vertices: start, edges: prepared.edges, config: { ...currentForceLayout }, pinned: prepared.pinned, apply, snapshot };
+}
+
+export function buildNarrativeGraphFromData(
+  data: GraphDataPayload = {},
+  options: GraphBuildOptions = {}
+): NarrativeGraph {
+  const { graph, layout } = buildNarrativeGraphDeferred(data, options);
+  if (layout && shouldApplyForceLayout(layout.config)) {
+    const positions = layout.vertices.map((vertex) => [...vertex] as Vec4);
+    applyForceLayout(positions, layout.edges, layout.config, layout.pinned);
+    layout.apply(positions);
+  }
+  return graph;
+}
@@ -0,0 +1,115 @@
+import type { RawGraphNode } from './graph';
+
+export interface GrowthTimeline {
+  /** Per node, the time it appears. */
+  births: number[];
+  /** Per node, an earlier-born neighbour it grows out of, or null. */
+  anchors: Array<number | null>;
+  edges: Array<[number, number]>;
+  start: number;
+  end: number;
+}
+
+export interface GrowthFrame {
+  /** Per node, rising from 0 to 1 over the fade leading up to its birth. */
+  vertexGrowth: number[];
+  /** Per edge, the growth of its later endpoint. */
+  edgeGrowth: number[];
+  bornCount: number;
+}
+
+/** Share of the timeline a node takes to fade in. */
+export const GROWTH_FADE_SHARE = 0.04;
+
+/** Length of a full playback at 1× speed. */
+export const GROWTH_PLAYBACK_MS = 20000;
+
+function creationTime(node: RawGraphNode | null | undefined): number | null {
+  const raw = node?.raw;
+  if (!raw || typeof raw !== 'object') return null;
+  const value = (raw as Record<string, unknown>).ctime;
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Birth times for every node of a graph. Notes use their creation time; nodes
+ * without one (tags, folders, placeholders) appear with their earliest timed
+ * neighbour, or at the start when nothing around them is timed. Returns null
+ * when no node carries a creation time.
+ */
+export function buildGrowthTimeline(
+  nodes: Array<RawGraphNode | null | undefined>,
+  edges: Array<[number, number]>
+): GrowthTimeline | null {
+  const times = nodes.map((node) => creationTime(node));
+  let start = Infinity;
+  let end = -Infinity;
+  times.forEach((time) => {
+    if (time === null) return;
+    if (time < start) start = time;
+    if (time > end) end = time;
+  });
+  if (!Number.isFinite(start)) return null;
+
+  const neighbors = nodes.map(() => [] as number[]);
+  edges.forEach(([source, target]) => {
+    if (source === target || !neighbors[source] || !neighbors[target]) return;
+    neighbors[source].push(target);
+    neighbors[target].push(source);
+  });
+
+  const births = times.map((time, index) => {
+    if (time !== null) return time;
+    let earliest = Infinity;
+    neighbors[index].forEach((neighbor) => {
+      const neighborTime = times[neighbor];
+      if (neighborTime !== null && neighborTime < earliest) earliest = neighborTime;
+    });
+    return Number.isFinite(earliest) ? earliest : start;
+  });
+
+  const anchors = births.map((birth, index) => {
+    let anchor: number | null = null;
+    neighbors[index].forEach((neighbor) => {
+      const neighborBirth = births[neighbor];
+      const earlier = neighborBirth < birth || (neighborBirth === birth && neighbor < index);
+      if (!earlier) return;
+      if (anchor === null || neighborBirth < births[anchor]) anchor = neighbor;
+    });
+    return anchor;
+  });
+
+  return { births, anchors, edges, start, end };
+}
+
+/**
+ * Node and edge growth at `time`. Nodes fade in over the stretch just before
+ * their birth so they are fully drawn at it; links show once both ends exist.
+ */
+export function growthFrame(timeline: GrowthTimeline, time: number, fadeShare = GROWTH_FADE_SHARE): GrowthFrame {
+  const fade = Math.max(1, (timeline.end - timeline.start) * fadeShare);
+  let bornCount = 0;
+  const vertexGrowth = timeline.births.map((birth) => {
+    if (time >= birth) {
+      bornCount += 1;
+      return 1;
+    }
+    return Math.max(0, 1 - (birth - time) / fade);
+  });
+  const edgeGrowth = timeline.edges.map(([source, target]) => Math.min(vertexGrowth[source] ?? 0, vertexGrowth[target] ?? 0));
+  return { vertexGrowth, edgeGrowth, bornCount };
+}
+
+/** Moves the playback clock forward by `deltaMs` of wall time at `speed`, stopping at the end. */
+export function advanceGrowthTime(
+  timeline: GrowthTimeline,
+  time: number,
+  deltaMs: number,
+  speed: number,
+  durationMs = GROWTH_PLAYBACK_MS
+): number {
+  const span = timeline.end - timeline.start;
+  if (span <= 0) return timeline.end;
+  const next = time + (span * deltaMs * speed) / durationMs;
+  return Math.min(timeline.end, Math.max(timeline.start, next));
+}
@@ -0,0 +1,225 @@
+import type { Vec4 } from './math4d';
+
+/** One child per sign combination of the four axes. */
+const CELL_CHILDREN = 16;
+/** Cells this deep keep every body they receive, so coincident points stop splitting. */
+const MAX_TREE_DEPTH = 20;
+
+export interface HyperTreeCell {
+  center: Vec4;
+  /** Half the cell's edge length. */
+  half: number;
+  mass: number;
+  massCenter: Vec4;
+  /** Body indices while the cell is a leaf; null once it has split. */
+  bodies: number[] | null;
+  children: Array<HyperTreeCell | null> | null;
+}
+
+function createCell(center: Vec4, half: number): HyperTreeCell {
+  return { center, half, mass: 0, massCenter: [0, 0, 0, 0], bodies: [], children: null };
+}
+
+function childSlot(cell: HyperTreeCell, point: Vec4): number {
+  let slot = 0;
+  for (let axis = 0; axis < 4; axis += 1) {
+    if (point[axis] >= cell.center[axis]) slot |= 1 << axis;
+  }
+  return slot;
+}
+
+function childCell(cell: HyperTreeCell, slot: number): HyperTreeCell {
+  const existing = cell.children![slot];
+  if (existing) return existing;
+  const half = cell.half / 2;
+  const center: Vec4 = [0, 0, 0, 0];
+  for (let axis = 0; axis < 4; axis += 1) {
+    center[axis] = cell.center[axis] + (slot & (1 << axis) ? half : -half);
+  }
+  const child = createCell(center, half);
+  cell.children![slot] = child;
+  return child;
+}
+
+function insertBody(root: HyperTreeCell, positions: Vec4[], index: number, rootDepth: number): void {
+  let cell = root;
+  let depth = rootDepth;
+  while (cell.children) {
+    cell = childCell(cell, childSlot(cell, positions[index]));
+    depth += 1;
+  }
+  const bodies = cell.bodies!;
+  bodies.push(index);
+  if (bodies.length === 1 || depth >= MAX_TREE_DEPTH) return;
+  cell.bodies = null;
+  cell.children = new Array<HyperTreeCell | null>(CELL_CHILDREN).fill(null);
+  bodies.forEach((body) => insertBody(cell, positions, body, depth));
+}
+
+function summarizeCell(cell: HyperTreeCell, positions: Vec4[]): void {
+  const center = cell.massCenter;
+  if (cell.bodies) {
+    cell.bodies.forEach((body) => {
+      const p = positions[body];
+      center[0] += p[0];
+      center[1] += p[1];
+      center[2] += p[2];
+      center[3] += p[3];
+    });
+    cell.mass = cell.bodies.length;
+  } else {
+    cell.children!.forEach((child) => {
+      if (!child) return;
+      summarizeCell(child, positions);
+      center[0] += child.massCenter[0] * child.mass;
+      center[1] += child.massCenter[1] * child.mass;
+      center[2] += child.massCenter[2] * child.mass;
+      center[3] += child.massCenter[3] * child.mass;
+      cell.mass += child.mass;
+    });
+  }
+  if (cell.mass > 0) {
+    center[0] /= cell.mass;
+    center[1] /= cell.mass;
+    center[2] /= cell.mass;
+    center[3] /= cell.mass;
+  }
+}
+
+/** Splits space into 16-way cells (a 4D octree) holding each cell's body count and centre of mass. */
+export function buildHyperTree(positions: Vec4[]): HyperTreeCell | null {
+  if (positions.length === 0) return null;
+  const min: Vec4 = [Infinity, Infinity, Infinity, Infinity];
+  const max: Vec4 = [-Infinity, -Infinity, -Infinity, -Infinity];
+  positions.forEach((p) => {
+    for (let axis = 0; axis < 4; axis += 1) {
+      if (p[axis] < min[axis]) min[axis] = p[axis];
+      if (p[axis] > max[axis]) max[axis] = p[axis];
+    }
+  });
+  let half = 0;
+  const center: Vec4 = [0, 0, 0, 0];
+  for (let axis = 0; axis < 4; axis += 1) {
+    center[axis] = (min[axis] + max[axis]) / 2;
+    half = Math.max(half, (max[axis] - min[axis]) / 2);
+  }
+  const root = createCell(center, half * 1.0001 + 1e-6);
+  for (let index = 0; index < positions.length; index += 1) {
+    insertBody(root, positions, index, 0);
+  }
+  summarizeCell(root, positions);
+  return root;
+}
+
+function containsPoint(cell: HyperTreeCell, point: Vec4): boolean {
+  for (let axis = 0; axis < 4; axis += 1) {
+    if (Math.abs(point[axis] - cell.center[axis]) > cell.half) return false;
+  }
+  return true;
+}
+
+/**
+ * Adds the repulsion every other body exerts on `index` to `out`. Cells whose
+ * size over distance is below `theta` act as one body at their centre of mass;
+ * `theta` 0 visits every body and matches the pairwise result.
+ */
+export function accumulateTreeRepulsion(
+  root: HyperTreeCell,
+  positions: Vec4[],
+  index: number,
+  strength: number,
+  theta: number,
+  epsilon: number,
+  out: Vec4,
+  stack: HyperTreeCell[] = []
+): void {
+  const p = positions[index];
+  const thetaSq = theta * theta;
+  stack.length = 0;
+  stack.push(root);
+  while (stack.length > 0) {
+    const cell = stack.pop()!;
+    if (cell.bodies) {
+      for (let k = 0; k < cell.bodies.length; k += 1) {
+        const body = cell.bodies[k];
+        if (body === index) continue;
+        const q = positions[body];
+        const dx = p[0] - q[0];
+        const dy = p[1] - q[1];
+        const dz = p[2] - q[2];
+        const dw = p[3] - q[3];
+        const scale = strength / (dx * dx + dy * dy + dz * dz + dw * dw + epsilon);
+        out[0] += dx * scale;
+        out[1] += dy * scale;
+        out[2] += dz * scale;
+        out[3] += dw * scale;
+      }
+      continue;
+    }
+    const c = cell.massCenter;
+    const dx = p[0] - c[0];
+    const dy = p[1] - c[1];
+    const dz = p[2] - c[2];
+    const dw = p[3] - c[3];
+    const distSq = dx * dx + dy * dy + dz * dz + dw * dw;
+    const size = cell.half * 2;
+    if (size * size < thetaSq * distSq && !containsPoint(cell, p)) {
+      const scale = (strength * cell.mass) / (distSq + epsilon);
+      out[0] += dx * scale;
+      out[1] += dy * scale;
+      out[2] += dz * scale;
+      out[3] += dw * scale;
+      continue;
+    }
+    const children = cell.children!;
+    for (let slot = 0; slot < CELL_CHILDREN; slot += 1) {
+      const child = children[slot];
+      if (child) stack.push(child);
+    }
+  }
+}
+
+/** Barnes–Hut repulsion for every body, added to `forces`. */
+export function applyTreeRepulsion(
+  positions: Vec4[],
+  forces: Vec4[],
+  strength: number,
+  theta: number,
+  epsilon: number
+): void {
+  const root = buildHyperTree(positions);
+  if (!root) return;
+  const stack: HyperTreeCell[] = [];
+  for (let index = 0; index < positions.length; index += 1) {
+    accumulateTreeRepulsion(root, positions, index, strength, theta, epsilon, forces[index], stack);
+  }
+}
+
+/** Pairwise repulsion for every body, added to `forces`. */
+export function applyExactRepulsion(positions: Vec4[], forces: Vec4[], strength: number, epsilon: number): void {
+  const count = positions.length;
+  for (let i = 0; i < count; i += 1) {
+    for (let j = i + 1; j < count; j += 1) {
+      const pi = positions[i];
+      const pj = positions[j];
+      let dx = pi[0] - pj[0];
+      let dy = pi[1] - pj[1];
+      let dz = pi[2] - pj[2];
+      let dw = pi[3] - pj[3];
+      const distSq = dx * dx + dy * dy + dz * dz + dw * dw + epsilon;
+      const scale = strength / distSq;
+      dx *= scale;
+      dy *= scale;
+      dz *= scale;
+      dw *= scale;
+      forces[i][0] += dx;
+      forces[i][1] += dy;
+      forces[i][2] += dz;
+      forces[i][3] += dw;
+      forces[j][0] -= dx;
+      forces[j][1] -= dy;
+      forces[j][2] -= dz;
+      forces[j][3] -= dw;
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import type { Vec4 } from './math4d';
+import {
+  createForceSimulation,
+  shouldApplyForceLayout,
+  stepForceSimulation,
+  writeForceLayout,
+  type ForceLayoutConfig,
+  type ForceLayoutFrame,
+  type ForceSimulation,
+} from './forceLayout';
+import type { ForceLayoutJob } from './forceLayoutRunner';
+
+/** Milliseconds of simulation run per animation frame. */
+export const LIVE_FRAME_BUDGET_MS = 6;
+/** Below this alpha the simulation has settled and stops ticking. */
+export const LIVE_ALPHA_MIN = 0.002;
+/** Heat restored when nodes are added or removed, or forces change. */
+export const LIVE_REHEAT_ALPHA = 0.3;
+/** Alpha the simulation is held at while a node is dragged. */
+const DRAG_ALPHA_TARGET = 0.3;
+/** Cools from alpha 1 to the minimum in about 300 ticks. */
+const ALPHA_DECAY = 1 - Math.pow(LIVE_ALPHA_MIN, 1 / 300);
+
+/** Kinetic energy as shown in the toolbar readout. */
+export function formatLayoutEnergy(energy: number): string {
+  if (!Number.isFinite(energy) || energy <= 0) return '0';
+  if (energy >= 100) return energy.toFixed(0);
+  if (energy >= 0.01) return energy.toPrecision(3);
+  return energy.toExponential(1);
+}
+
+/**
+ * A force simulation that keeps running after load. Forces are scaled by
+ * `alpha`, which cools towards zero as the layout settles; `reheat` and
+ * dragging a node warm it back up.
+ */
+export class LiveForceLayout {
+  alpha: number;
+  /** Kinetic energy after the latest tick. */
+  energy = 0;
+  paused = false;
+  /** Scene positions, recentred and clamped like a one-shot layout. */
+  readonly positions: Vec4[];
+  private simulation: ForceSimulation;
+  private config: ForceLayoutConfig;
+  private frame: ForceLayoutFrame;
+  private readonly held = new Map<number, Vec4>();
+  private dirty = false;
+
+  constructor(job: ForceLayoutJob, alpha = 1) {
+    this.simulation = createForceSimulation(job.vertices, job.edges, job.config, job.pinned);
+    this.config = { ...job.config };
+    this.positions = job.vertices.map((vertex) => [...vertex] as Vec4);
+    this.alpha = shouldApplyForceLayout(job.config) ? alpha : 0;
+    this.frame = writeForceLayout(this.simulation.positions, this.positions, job.pinned);
+  }
+
+  get settled(): boolean {
+    return this.alpha < LIVE_ALPHA_MIN && this.held.size === 0;
+  }
+
+  reheat(alpha = LIVE_REHEAT_ALPHA): void {
+    this.alpha = Math.max(this.alpha, alpha);
+  }
+
+  /** Swaps in new forces, keeping positions and velocities, and reheats; unchanged forces are a no-op. */
+  configure(config: ForceLayoutConfig): void {
+    const keys: Array<keyof ForceLayoutConfig> = ['repelForce', 'centerForce', 'linkForce', 'linkDistance', 'theta'];
+    if (keys.every((key) => this.config[key] === config[key])) return;
+    this.config = { ...config };
+    const { positions, velocities, edges, pinned } = this.simulation;
+    this.simulation = { ...createForceSimulation(positions, edges, config, pinned), positions, velocities };
+    if (shouldApplyForceLayout(config)) this.reheat();
+  }
+
+  /** Holds a node at a scene position while it is dragged; null lets it go. */
+  hold(index: number, position: Vec4 | null): void {
+    if (!position) {
+      this.held.delete(index);
+      return;
+    }
+    const { centroid, scale } = this.frame;
+    this.held.set(index, position.map((value, axis) => value / scale + centroid[axis]) as Vec4);
+    this.pinHeld();
+    this.dirty = true;
+  }
+
+  /** Ticks until `budgetMs` is spent or the layout settles; returns whether `positions` changed. */
+  tick(budgetMs = LIVE_FRAME_BUDGET_MS, now: () => number = () => performance.now()): boolean {
+    let changed = this.dirty;
+    this.dirty = false;
+    if (!this.paused && !this.settled) {
+      const deadline = now() + budgetMs;
+      do {
+        this.energy = stepForceSimulation(this.simulation, this.alpha);
+        this.pinHeld();
+        const target = this.held.size > 0 ? DRAG_ALPHA_TARGET : 0;
+        this.alpha += (target - this.alpha) * ALPHA_DECAY;
+        changed = true;
+      } while (!this.settled && now() < deadline);
+    }
+    if (changed) {
+      this.frame = writeForceLayout(this.simulation.positions, this.positions, this.simulation.pinned);
+    }
+    return changed;
+  }
+
+  private pinHeld(): void {
+    const { positions, velocities, pinned } = this.simulation;
+    this.held.forEach((target, index) => {
+      for (let axis = 0; axis < 4; axis += 1) {
+        if (pinned?.[index]?.[axis]) continue;
+        positions[index][axis] = target[axis];
+        velocities[index][axis] = 0;
+      }
+    });
+  }
+}
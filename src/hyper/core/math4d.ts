@@ -38,6 +38,17 @@ export function applyMatrix(vec: Vec4, mat: Float32Array): Vec4 {
   ];
 }
 
+/** Applies the inverse of a rotation matrix, which is its transpose. */
+export function applyInverseRotation(vec: Vec4, mat: Float32Array): Vec4 {
+  const [x, y, z, w] = vec;
+  return [
+    mat[0] * x + mat[4] * y + mat[8] * z + mat[12] * w,
+    mat[1] * x + mat[5] * y + mat[9] * z + mat[13] * w,
+    mat[2] * x + mat[6] * y + mat[10] * z + mat[14] * w,
+    mat[3] * x + mat[7] * y + mat[11] * z + mat[15] * w,
+  ];
+}
+
 export function rotationMatrix(angle: number, axisA: number, axisB: number): Float32Array {
   const mat = identity4();
   const c = Math.cos(angle);
@@ -82,6 +93,16 @@ export function projectPerspective(vec: Vec4, { wCamera = 3.2, scale = 1.2 }: Pe
   return [x * factor, y * factor, z * factor];
 }
 
+/** The 4D move, keeping W, that shifts the perspective projection of `vec` by `delta`. */
+export function unprojectPerspectiveDelta(
+  delta: Vec3,
+  vec: Vec4,
+  { wCamera = 3.2, scale = 1.2 }: PerspectiveOptions = {}
+): Vec4 {
+  const factor = scale / Math.max(0.05, wCamera - vec[3]);
+  return [delta[0] / factor, delta[1] / factor, delta[2] / factor, 0];
+}
+
 export function lerp(a: number, b: number, t: number): number {
   return a + (b - a) * t;
 }
@@ -1,7 +1,7 @@
 import type { Vec4 } from './math4d';
 import { normalize } from './math4d';
-import type { GraphDataPayload, GraphBuildOptions, NarrativeGraph } from './graph';
-import { buildNarrativeGraphFromData } from './graph';
+import type { GraphDataPayload, GraphBuildOptions, NarrativeGraph, PendingForceLayout } from './graph';
+import { buildNarrativeGraphDeferred, buildNarrativeGraphFromData, patchNarrativeGraph, patchNarrativeGraphDeferred } from './graph';
 
 export interface HyperObject {
   name: string;
@@ -155,6 +155,35 @@ export function replaceNarrativeGraph(data: GraphDataPayload, options: GraphBuil
   return narrativeGraph;
 }
 
+/** Like `replaceNarrativeGraph`, but leaves the force layout for the caller to run. */
+export function replaceNarrativeGraphDeferred(
+  data: GraphDataPayload,
+  options: GraphBuildOptions = {}
+): { object: HyperObject; layout: PendingForceLayout | null } {
+  const { graph, layout } = buildNarrativeGraphDeferred(data, options);
+  narrativeGraph = graph;
+  OBJECTS[NARRATIVE_GRAPH_INDEX] = narrativeGraph;
+  return { object: narrativeGraph, layout };
+}
+
+export function patchNarrativeGraphObject(previous: NarrativeGraph, data: GraphDataPayload, options: GraphBuildOptions = {}): HyperObject {
+  narrativeGraph = patchNarrativeGraph(previous, data, options);
+  OBJECTS[NARRATIVE_GRAPH_INDEX] = narrativeGraph;
+  return narrativeGraph;
+}
+
+/** Like `patchNarrativeGraphObject`, also handing back the force layout for a live simulation. */
+export function patchNarrativeGraphObjectDeferred(
+  previous: NarrativeGraph,
+  data: GraphDataPayload,
+  options: GraphBuildOptions = {}
+): { object: HyperObject; layout: PendingForceLayout | null } {
+  const { graph, layout } = patchNarrativeGraphDeferred(previous, data, options);
+  narrativeGraph = graph;
+  OBJECTS[NARRATIVE_GRAPH_INDEX] = narrativeGraph;
+  return { object: narrativeGraph, layout };
+}
+
 export function getNarrativeGraphSample(): GraphDataPayload {
   return SAMPLE_GRAPH_DATA;
 }
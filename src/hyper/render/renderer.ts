@@ -7,6 +7,7 @@ import {
 } from '../core/math4d';
 import { blendGraphChannel } from './colorThemeMath';
 import { getGraphLabelDispatchIntervalMs } from './graphLabelDispatch';
+import { EDGE_DASHES } from '../core/graph';
 
 const tempColor = new THREE.Color();
 const tempVec = new THREE.Vector3();
@@ -15,12 +16,15 @@ const GRAPH_THEME_BLEND = 0.74;
 const GRAPH_VERTEX_SHADER = `
   attribute float size;
   attribute float intensity;
+  attribute float shape;
   attribute vec3 hyperColor;
   varying vec3 vColor;
   varying float vIntensity;
+  varying float vShape;
   void main() {
     vColor = hyperColor;
     vIntensity = intensity;
+    vShape = shape;
     vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
     float attenuation = size * (220.0 / max(0.0001, -mvPosition.z));
     gl_PointSize = clamp(attenuation, 1.0, 160.0);
@@ -28,15 +32,60 @@ const GRAPH_VERTEX_SHADER = `
   }
 `;
 
+// Dash ids follow EDGE_DASHES: solid, dashed, dotted. Distances are in scene units
+// along each projected segment, so patterns stay put while the graph rotates.
+const GRAPH_LINE_VERTEX_SHADER = `
+  attribute float lineDistance;
+  attribute float dash;
+  varying vec3 vColor;
+  varying float vLineDistance;
+  varying float vDash;
+  void main() {
+    vColor = color;
+    vLineDistance = lineDistance;
+    vDash = dash;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+const GRAPH_LINE_FRAGMENT_SHADER = `
+  varying vec3 vColor;
+  varying float vLineDistance;
+  varying float vDash;
+  uniform float opacity;
+  void main() {
+    if (vDash > 0.5) {
+      float period = vDash < 1.5 ? 0.12 : 0.05;
+      if (mod(vLineDistance, period) > period * 0.5) discard;
+    }
+    gl_FragColor = vec4(vColor, opacity);
+  }
+`;
+
+// Glyph ids follow GLYPH_SHAPES: circle, square, diamond, triangle, ring, star.
+// Each returns a radius-like distance so the core and halo keep the glyph's outline.
 const GRAPH_FRAGMENT_SHADER = `
   varying vec3 vColor;
   varying float vIntensity;
+  varying float vShape;
   uniform float opacity;
   uniform float glow;
+  float glyphDistance(vec2 p, float shape) {
+    if (shape < 0.5) return length(p);
+    if (shape < 1.5) return max(abs(p.x), abs(p.y)) * 1.12;
+    if (shape < 2.5) return (abs(p.x) + abs(p.y)) * 0.8;
+    if (shape < 3.5) {
+      vec2 q = vec2(p.x, -p.y + 0.06);
+      return max(abs(q.x) * 0.866 + q.y * 0.5, -q.y) * 1.6;
+    }
+    if (shape < 4.5) return abs(length(p) - 0.2) * 2.2 + 0.04;
+    float angle = atan(p.y, p.x);
+    return length(p) / (0.78 + 0.22 * cos(5.0 * angle + 1.5708));
+  }
   void main() {
     vec2 coord = gl_PointCoord - vec2(0.5);
-    float dist = length(coord);
-    if (dist > 0.55) discard;
+    float dist = glyphDistance(coord, vShape);
+    if (dist > 0.55 || length(coord) > 0.5) discard;
     float halo = smoothstep(0.55, 0.28, dist);
     float core = smoothstep(0.32, 0.0, dist);
     float alpha = clamp(core + halo * glow, 0.0, 1.0) * opacity * clamp(vIntensity, 0.05, 1.35);
@@ -133,7 +182,11 @@ export class HyperRenderer {
     const resolved = theme || fallback;
     this.theme = resolved;
     if (!this.lines) return;
-    this.lineMaterial.opacity = resolved.lineOpacity;
+    if (this.lineMaterial.uniforms && this.lineMaterial.uniforms.opacity) {
+      this.lineMaterial.uniforms.opacity.value = resolved.lineOpacity;
+    } else {
+      this.lineMaterial.opacity = resolved.lineOpacity;
+    }
     if (this.vertexMaterial.uniforms && this.vertexMaterial.uniforms.opacity) {
       this.vertexMaterial.uniforms.opacity.value = resolved.pointOpacity;
     } else if ('opacity' in this.vertexMaterial) {
@@ -165,12 +218,36 @@ export class HyperRenderer {
       'color',
       new THREE.BufferAttribute(new Float32Array(edgeCount * 2 * 3), 3),
     );
-    this.lineMaterial = new THREE.LineBasicMaterial({
-      transparent: true,
-      opacity: 0.55,
-      vertexColors: true,
-      linewidth: 1,
-    });
+    if (isGraph) {
+      this.lineGeometry.setAttribute(
+        'lineDistance',
+        new THREE.BufferAttribute(new Float32Array(edgeCount * 2), 1),
+      );
+      const dashes = new Float32Array(edgeCount * 2);
+      this.graphMeta?.links?.forEach((link, index) => {
+        const dash = Math.max(0, EDGE_DASHES.indexOf(link?.dash ?? 'solid'));
+        dashes[index * 2] = dash;
+        dashes[index * 2 + 1] = dash;
+      });
+      this.lineGeometry.setAttribute('dash', new THREE.BufferAttribute(dashes, 1));
+      this.lineMaterial = new THREE.ShaderMaterial({
+        uniforms: {
+          opacity: { value: 0.55 },
+        },
+        transparent: true,
+        depthWrite: false,
+        vertexColors: true,
+        vertexShader: GRAPH_LINE_VERTEX_SHADER,
+        fragmentShader: GRAPH_LINE_FRAGMENT_SHADER,
+      });
+    } else {
+      this.lineMaterial = new THREE.LineBasicMaterial({
+        transparent: true,
+        opacity: 0.55,
+        vertexColors: true,
+        linewidth: 1,
+      });
+    }
     this.lines = new THREE.LineSegments(this.lineGeometry, this.lineMaterial);
     this.lines.frustumCulled = false;
     this.scene.add(this.lines);
@@ -199,6 +276,9 @@ export class HyperRenderer {
         'intensity',
         new THREE.BufferAttribute(new Float32Array(vertexCount), 1),
       );
+      const shapes = new Float32Array(vertexCount);
+      if (this.graphMeta?.vertexShapes) shapes.set(this.graphMeta.vertexShapes.subarray(0, vertexCount));
+      this.vertexGeometry.setAttribute('shape', new THREE.BufferAttribute(shapes, 1));
     } else {
       this.vertexGeometry.setAttribute(
         'color',
@@ -326,6 +406,8 @@ export class HyperRenderer {
 
     const positions = this.lineGeometry.attributes.position.array;
     const colors = this.lineGeometry.attributes.color.array;
+    const lineDistanceAttribute = this.lineGeometry.getAttribute('lineDistance');
+    const lineDistances = lineDistanceAttribute ? lineDistanceAttribute.array : null;
     const vertexPositions = this.vertexGeometry.attributes.position.array;
     const vertexColorAttr = this.vertexGeometry.getAttribute(this.isGraph ? 'hyperColor' : 'color');
     const vertexColors = vertexColorAttr ? vertexColorAttr.array : null;
@@ -376,6 +458,9 @@ export class HyperRenderer {
     const vertexVisibility = isGraph && graphState?.vertexVisibility
       ? graphState.vertexVisibility
       : null;
+    const vertexGrowth = isGraph && graphState?.vertexGrowth
+      ? graphState.vertexGrowth
+      : null;
     const focusStrength = graphState?.focusStrength ?? 0;
     const focusColor = graphState?.focusColor ?? null;
 
@@ -435,6 +520,10 @@ export class HyperRenderer {
           finalWeight *= 0.9 + pulse * 0.4 * emphasis;
         }
 
+        const growth = vertexGrowth ? vertexGrowth[i] ?? 1 : 1;
+        finalWeight *= growth;
+        sizeMultiplier *= growth;
+
         vertexColors[baseIndex] = colorR * finalWeight;
         vertexColors[baseIndex + 1] = colorG * finalWeight;
         vertexColors[baseIndex + 2] = colorB * finalWeight;
@@ -445,7 +534,7 @@ export class HyperRenderer {
           vertexSizes[i] = baseSize * scale * visibilityScale * sizeMultiplier;
         }
         if (vertexIntensity) {
-          vertexIntensity[i] = Math.min(1.35, Math.max(0.08, finalWeight));
+          vertexIntensity[i] = growth > 0 ? Math.min(1.35, Math.max(0.08, finalWeight)) : 0;
         }
       } else if (!isGraph && vertexColors) {
         const color = theme.pointColor({ normW, depth: depthNorm });
@@ -458,6 +547,9 @@ export class HyperRenderer {
     const edgeVisibility = isGraph && graphState?.edgeVisibility
       ? graphState.edgeVisibility
       : null;
+    const edgeGrowth = isGraph && graphState?.edgeGrowth
+      ? graphState.edgeGrowth
+      : null;
 
     const useSlice = sliceMode === 'hyperplane';
     const useShadow = sliceMode === 'shadow';
@@ -525,7 +617,7 @@ export class HyperRenderer {
           if (isGraph && graphLinks) {
             const link = graphLinks[i];
             const visible = edgeVisibility ? edgeVisibility[i] : 1;
-            const weight = 0.25 + visible * 0.75;
+            const weight = (0.25 + visible * 0.75) * (edgeGrowth ? edgeGrowth[i] ?? 1 : 1);
             const base = lineIndex * 6;
             let colorAR = link.color[0];
             let colorAG = link.color[1];
@@ -556,6 +648,10 @@ export class HyperRenderer {
             colors[base + 3] = colorBR * weight;
             colors[base + 4] = colorBG * weight;
             colors[base + 5] = colorBB * weight;
+            if (lineDistances) {
+              lineDistances[lineIndex * 2] = 0;
+              lineDistances[lineIndex * 2 + 1] = Math.hypot(b3[0] - a3[0], b3[1] - a3[1], b3[2] - a3[2]);
+            }
           } else if (this.theme) {
             const colorA = this.theme.lineColor({ normW: normWa, depth: depthA });
             const colorB = this.theme.lineColor({ normW: normWb, depth: depthB });
@@ -575,7 +671,8 @@ export class HyperRenderer {
           }
         }
 
-        if (useSlice || useShadow) {
+        const edgeHidden = edgeGrowth ? (edgeGrowth[i] ?? 1) <= 0 : false;
+        if ((useSlice || useShadow) && !edgeHidden) {
           const intersection = intersectHyperplane(a4, b4, 3, sliceOffset);
           if (intersection) {
             const vec3 = projectPerspective(intersection, projection);
@@ -641,6 +738,9 @@ export class HyperRenderer {
 
     this.lineGeometry.attributes.position.needsUpdate = true;
     this.lineGeometry.attributes.color.needsUpdate = true;
+    if (lineDistanceAttribute) {
+      lineDistanceAttribute.needsUpdate = true;
+    }
     this.vertexGeometry.attributes.position.needsUpdate = true;
     if (vertexColorAttr) {
       vertexColorAttr.needsUpdate = true;
@@ -1,16 +1,77 @@
 import { App, Plugin, WorkspaceLeaf, TFile } from 'obsidian';
-import { GraphExplorerView, HYPER_VIEW_TYPE } from './view/graphExplorerView';
+import { GraphExplorerView, HYPER_VIEW_TYPE, listDatasetOptions } from './view/graphExplorerView';
+import { DatasetSuggestModal } from './view/datasetSuggestModal';
 import { updateForceLayoutConfig } from './hyper/core/graph';
+import { releaseForceLayoutWorkerUrl } from './hyper/core/forceLayoutWorker';
 import { GraphRefreshScheduler } from './settings/graphRefreshScheduler';
+import { VaultChangeBatcher, type VaultChangeBatch } from './data/vaultChangeBatcher';
+import type { GlobalRankingStrategy } from './data/globalRanking';
+import type { LocalScopeDirection } from './data/localScopeSelection';
+import { migrateLegacyWAxis, type AxisBinding } from './hyper/core/axisMapping';
+import type { GlyphShape } from './hyper/core/glyphs';
+import { DEFAULT_EDGE_KIND_STYLES, type EdgeKind, type EdgeKindStyle } from './data/edgeKinds';
+import { DEFAULT_LABEL_STRIP_PATTERNS, type LabelSource } from './data/displayTitles';
 
-export type ColorRuleType = 'tag' | 'path' | 'filename';
+export type ColorRuleConditionType = 'tag' | 'path' | 'filename' | 'property';
+export type ColorRuleType = ColorRuleConditionType | 'group';
+export type PropertyOperator = 'equals' | 'contains' | 'regex' | 'gt' | 'gte' | 'lt' | 'lte' | 'exists';
+
+export interface ColorRuleCondition {
+  type: ColorRuleConditionType;
+  /** Tags, path or filename text, or the value a property is compared with. */
+  pattern: string;
+  /** Frontmatter key read by `property` conditions. */
+  property?: string;
+  operator?: PropertyOperator;
+}
 
 export interface ColorRule {
   id: string;
   type: ColorRuleType;
   pattern: string;
+  property?: string;
+  operator?: PropertyOperator;
   color: string;
+  /** Glyph for matching notes; unset keeps the category glyph. */
+  shape?: GlyphShape;
   enabled: boolean;
+  /** Group rules: whether all or any of `conditions` must hold. */
+  match?: 'all' | 'any';
+  conditions?: ColorRuleCondition[];
+}
+
+export type SizeRuleMetric = 'property' | 'word-count' | 'backlinks' | 'open-tasks';
+
+export interface SizeRule {
+  id: string;
+  metric: SizeRuleMetric;
+  /** Frontmatter key read by the `property` metric. */
+  property?: string;
+  enabled: boolean;
+}
+
+export type CustomDatasetScope = 'local' | 'global';
+export type CustomDatasetRootType = 'active' | 'note' | 'folder' | 'tag' | 'search' | 'open-tabs' | 'selection';
+
+export interface CustomDataset {
+  id: string;
+  name: string;
+  scope: CustomDatasetScope;
+  rootType: CustomDatasetRootType;
+  root: string;
+  /** Local scope: hops along outgoing links. */
+  depth: number;
+  backlinkDepth?: number;
+  direction?: LocalScopeDirection;
+  maxNodes: number;
+  includeCanvas: boolean;
+  includeAttachments: boolean;
+  filter: string;
+}
+
+export interface LinkTypeStyle {
+  visible: boolean;
+  color: string | null;
 }
 
 export interface GraphExplorerSettings {
@@ -18,12 +79,39 @@ export interface GraphExplorerSettings {
   centerForce: number;
   linkForce: number;
   linkDistance: number;
+  /** Keep the force simulation running after load so the graph reacts to changes and drags. */
+  livePhysics: boolean;
   nodeSizeMultiplier: number;
   showLinks: boolean;
   showOnlyExistingFiles: boolean;
+  showTagNodes: boolean;
+  showFolderNodes: boolean;
+  showSubNodes: boolean;
+  showCanvasTextCards: boolean;
+  /** Draw Dataview-style `key:: [[link]]` fields as typed links. */
+  showInlineFields: boolean;
+  filterQuery: string;
+  globalRanking: GlobalRankingStrategy;
+  localDirection: LocalScopeDirection;
+  localDepth: number;
+  localBacklinkDepth: number;
+  /** X, Y, Z and W, in that order. */
+  axisBindings: AxisBinding[];
+  customDatasets: CustomDataset[];
   colorRules: ColorRule[];
+  sizeRules: SizeRule[];
+  /** Glyph overrides per node category. */
+  categoryGlyphs: Record<string, GlyphShape>;
+  linkTypeStyles: Record<string, LinkTypeStyle>;
+  /** Visibility, color and dash for body links, embeds and frontmatter links. */
+  edgeKindStyles: Record<EdgeKind, EdgeKindStyle>;
   theme: string;
   labelFont: string;
+  labelSource: LabelSource;
+  /** `{{field}}` template for the 'template' label source. */
+  labelTemplate: string;
+  /** Regular expressions removed from labels, one per entry. */
+  labelStripPatterns: string[];
 }
 
 const DEFAULT_SETTINGS: GraphExplorerSettings = {
@@ -31,17 +119,38 @@ const DEFAULT_SETTINGS: GraphExplorerSettings = {
   centerForce: 0,
   linkForce: 0,
   linkDistance: 1.6,
+  livePhysics: false,
   nodeSizeMultiplier: 1,
   showLinks: true,
   showOnlyExistingFiles: true,
+  showTagNodes: false,
+  showFolderNodes: false,
+  showSubNodes: false,
+  showCanvasTextCards: false,
+  showInlineFields: false,
+  filterQuery: '',
+  globalRanking: 'recency',
+  localDirection: 'both',
+  localDepth: 2,
+  localBacklinkDepth: 2,
+  axisBindings: [{ metric: 'force' }, { metric: 'force' }, { metric: 'force' }, { metric: 'force' }],
+  customDatasets: [],
   colorRules: [],
+  sizeRules: [],
+  categoryGlyphs: {},
+  linkTypeStyles: {},
+  edgeKindStyles: DEFAULT_EDGE_KIND_STYLES,
   theme: 'neon',
   labelFont: 'default',
+  labelSource: 'basename',
+  labelTemplate: '{{title}}',
+  labelStripPatterns: DEFAULT_LABEL_STRIP_PATTERNS,
 };
 
 export default class GraphExplorerPlugin extends Plugin {
   settings: GraphExplorerSettings = { ...DEFAULT_SETTINGS };
   private refreshScheduler: GraphRefreshScheduler | null = null;
+  private changeBatcher: VaultChangeBatcher | null = null;
 
   async onload(): Promise<void> {
     await this.loadSettings();
@@ -66,6 +175,16 @@ export default class GraphExplorerPlugin extends Plugin {
       callback: () => this.activateView(),
     });
 
+    this.addCommand({
+      id: 'switch-4d-graph-dataset',
+      name: 'Switch 4D Graph dataset',
+      callback: () => {
+        new DatasetSuggestModal(this.app, listDatasetOptions(this.settings), (choice) => {
+          void this.switchDataset(choice.id);
+        }).open();
+      },
+    });
+
     this.registerEvent(this.app.workspace.on('file-open', (file: TFile | null) => {
       const leaves = this.app.workspace.getLeavesOfType(HYPER_VIEW_TYPE);
       leaves.forEach((leaf) => {
@@ -75,12 +194,53 @@ export default class GraphExplorerPlugin extends Plugin {
         }
       });
     }));
+
+    this.changeBatcher = new VaultChangeBatcher({
+      setTimeout: (callback, delayMs) => window.setTimeout(callback, delayMs),
+      clearTimeout: (timerId) => window.clearTimeout(timerId),
+      onFlush: (batch) => {
+        void this.applyVaultChanges(batch);
+      },
+    });
+    // Vault `create` fires for every file while the vault loads; only listen once the layout is ready.
+    this.app.workspace.onLayoutReady(() => this.registerVaultChangeEvents());
+  }
+
+  private registerVaultChangeEvents(): void {
+    this.registerEvent(this.app.metadataCache.on('changed', (file) => {
+      this.changeBatcher?.recordChange(file.path);
+    }));
+    this.registerEvent(this.app.metadataCache.on('resolved', () => {
+      this.changeBatcher?.markResolved();
+    }));
+    this.registerEvent(this.app.vault.on('create', (file) => {
+      if (file instanceof TFile) this.changeBatcher?.recordChange(file.path);
+    }));
+    this.registerEvent(this.app.vault.on('delete', (file) => {
+      if (file instanceof TFile) this.changeBatcher?.recordDelete(file.path);
+    }));
+    this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+      if (file instanceof TFile) this.changeBatcher?.recordRename(file.path, oldPath);
+    }));
+  }
+
+  private async applyVaultChanges(batch: VaultChangeBatch): Promise<void> {
+    const leaves = this.app.workspace.getLeavesOfType(HYPER_VIEW_TYPE);
+    for (const leaf of leaves) {
+      const view = leaf.view;
+      if (view instanceof GraphExplorerView) {
+        await view.applyVaultChanges(batch);
+      }
+    }
   }
 
   onunload(): void {
     this.refreshScheduler?.dispose();
     this.refreshScheduler = null;
+    this.changeBatcher?.dispose();
+    this.changeBatcher = null;
     this.app.workspace.getLeavesOfType(HYPER_VIEW_TYPE).forEach((leaf) => leaf.detach());
+    releaseForceLayoutWorkerUrl();
   }
 
   private applyForceLayoutSettings(): void {
@@ -93,10 +253,11 @@ export default class GraphExplorerPlugin extends Plugin {
   }
 
   async loadSettings(): Promise<void> {
-    const stored = await this.loadData();
+    const { wAxis, ...stored } = ((await this.loadData()) ?? {}) as Partial<GraphExplorerSettings> & { wAxis?: unknown };
     this.settings = {
       ...DEFAULT_SETTINGS,
-      ...(stored ?? {}),
+      ...stored,
+      axisBindings: stored.axisBindings ?? migrateLegacyWAxis(DEFAULT_SETTINGS.axisBindings, wAxis),
     };
   }
 
@@ -107,7 +268,8 @@ export default class GraphExplorerPlugin extends Plugin {
   async handleForceSettingChange(): Promise<void> {
     this.applyForceLayoutSettings();
     await this.saveSettings();
-    this.scheduleGraphRefresh(true);
+    // A live simulation picks up new forces in place.
+    this.scheduleGraphRefresh(!this.settings.livePhysics);
   }
 
   async handleVisualSettingChange(options: { reloadGraph?: boolean } = {}): Promise<void> {
@@ -137,6 +299,14 @@ export default class GraphExplorerPlugin extends Plugin {
     }
   }
 
+  private async switchDataset(datasetId: string): Promise<void> {
+    await this.activateView();
+    const view = this.app.workspace.getLeavesOfType(HYPER_VIEW_TYPE)[0]?.view;
+    if (view instanceof GraphExplorerView) {
+      view.selectDataset(datasetId);
+    }
+  }
+
   private async activateView(): Promise<void> {
     const existing = this.app.workspace.getLeavesOfType(HYPER_VIEW_TYPE)[0];
     if (existing) {
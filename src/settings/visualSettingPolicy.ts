@@ -3,12 +3,44 @@ export type VisualSettingAction =
   | 'node-size'
   | 'show-links'
   | 'show-only-existing-files'
+  | 'tag-nodes'
+  | 'folder-nodes'
+  | 'sub-nodes'
+  | 'canvas-text'
+  | 'inline-fields'
+  | 'filter-query'
+  | 'global-ranking'
+  | 'local-depth'
+  | 'axes'
+  | 'datasets'
+  | 'active-dataset'
   | 'color-rules'
-  | 'label-font';
+  | 'size-rules'
+  | 'glyphs'
+  | 'link-types'
+  | 'edge-kinds'
+  | 'label-font'
+  | 'label-source'
+  | 'label-strip'
+  | 'live-physics';
 
 const RELOAD_REQUIRED_ACTIONS = new Set<VisualSettingAction>([
   'show-only-existing-files',
+  'tag-nodes',
+  'folder-nodes',
+  'sub-nodes',
+  'canvas-text',
+  'inline-fields',
+  'filter-query',
+  'global-ranking',
+  'local-depth',
+  'axes',
+  'active-dataset',
   'color-rules',
+  'size-rules',
+  'glyphs',
+  'link-types',
+  'edge-kinds',
 ]);
 
 export function visualSettingRequiresGraphReload(action: VisualSettingAction): boolean {
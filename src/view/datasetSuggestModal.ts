@@ -0,0 +1,29 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+
+export interface DatasetChoice {
+  id: string;
+  label: string;
+}
+
+export class DatasetSuggestModal extends FuzzySuggestModal<DatasetChoice> {
+  constructor(
+    app: App,
+    private readonly choices: DatasetChoice[],
+    private readonly onChoose: (choice: DatasetChoice) => void
+  ) {
+    super(app);
+    this.setPlaceholder('Switch 4D graph dataset…');
+  }
+
+  getItems(): DatasetChoice[] {
+    return this.choices;
+  }
+
+  getItemText(item: DatasetChoice): string {
+    return item.label;
+  }
+
+  onChooseItem(item: DatasetChoice): void {
+    this.onChoose(item);
+  }
+}
@@ -1,18 +1,92 @@
-import { ItemView, Notice, WorkspaceLeaf, TFile, setIcon } from 'obsidian';
+import { Component, ItemView, MarkdownRenderer, Notice, WorkspaceLeaf, TFile, setIcon } from 'obsidian';
 import { Vector3 } from 'three';
 import { HyperRenderer } from '../hyper/render/renderer';
 import { HyperControls } from '../hyper/controls/controls';
-import { OBJECTS, getObjectByName, getNarrativeGraphObject, getNarrativeGraphSample, replaceNarrativeGraph, type HyperObject } from '../hyper/core/objects';
-import { composeRotation, applyMatrix, type RotationAngles, type Vec4 } from '../hyper/core/math4d';
+import {
+  OBJECTS,
+  getObjectByName,
+  getNarrativeGraphObject,
+  getNarrativeGraphSample,
+  patchNarrativeGraphObjectDeferred,
+  replaceNarrativeGraphDeferred,
+  type HyperObject,
+} from '../hyper/core/objects';
+import { ForceLayoutRunner } from '../hyper/core/forceLayoutRunner';
+import { createForceLayoutWorker } from '../hyper/core/forceLayoutWorker';
+import { shouldApplyForceLayout } from '../hyper/core/forceLayout';
+import { formatLayoutEnergy, LIVE_REHEAT_ALPHA, LiveForceLayout } from '../hyper/core/liveForceLayout';
+import {
+  composeRotation,
+  applyInverseRotation,
+  applyMatrix,
+  unprojectPerspectiveDelta,
+  type RotationAngles,
+  type Vec3,
+  type Vec4,
+} from '../hyper/core/math4d';
 import { getTheme, themeList } from '../hyper/render/palette';
-import { buildVaultGraph, type VaultGraphOptions } from '../data/vaultGraph';
-import type { GraphDataPayload } from '../hyper/core/graph';
+import {
+  buildVaultGraph,
+  createDatasetRootContext,
+  gatherOpenTabPaths,
+  resolveFileLabel,
+  type VaultGraphOptions,
+  type VaultGraphPayload,
+} from '../data/vaultGraph';
+import { GLOBAL_RANKING_LABELS, type GlobalRankingStrategy } from '../data/globalRanking';
+import type { LocalScopeDirection } from '../data/localScopeSelection';
+import { AXIS_METRIC_LABELS, AXIS_NAMES, sliceBounds, type AxisMetric, type AxisRange } from '../hyper/core/axisMapping';
+import { DEFAULT_CATEGORY_GLYPHS, GLYPH_LABELS, GLYPH_SHAPES, isGlyphShape, resolveGlyph } from '../hyper/core/glyphs';
+import { advanceGrowthTime, buildGrowthTimeline, growthFrame, type GrowthTimeline } from '../hyper/core/growthPlayback';
+import { applyLinkTypeStyles, collectLinkTypes } from '../data/vaultGraphRules';
+import { SIZE_RULE_METRIC_LABELS, sizeRuleLabel } from '../data/sizeRules';
+import { buildNotePreview } from '../data/notePreview';
+import { linkpathFromLinktext } from '../data/propertyLinks';
+import {
+  compileLabelStripPatterns,
+  LABEL_SOURCE_LABELS,
+  stripLabel,
+  type LabelSource,
+} from '../data/displayTitles';
+import {
+  applyEdgeKindStyles,
+  EDGE_DASH_LABELS,
+  EDGE_KIND_LABELS,
+  EDGE_KINDS,
+  edgeKindStyle,
+  type EdgeKindStyle,
+} from '../data/edgeKinds';
+import { isTagNodeId, TAG_NODE_PREFIX } from '../data/tagNodes';
+import { FOLDER_NODE_PREFIX, isFolderNodeId } from '../data/folderNodes';
+import { collapseSubNodes } from '../data/subNodes';
+import { resolvedLinkDerivedCache } from '../data/linkMaps';
+import { isBatchRelevant, type VaultChangeBatch } from '../data/vaultChangeBatcher';
+import { combineFilterPredicates, compileFilterQuery } from '../data/graphFilterQuery';
+import {
+  createCustomDataset,
+  customDatasetOptionId,
+  resolveDatasetRootPaths,
+  resolveRootPaths,
+  scopeDatasetRoot,
+} from '../data/customDatasets';
+import { EDGE_DASHES, edgeColor, type EdgeDash, type GraphBuildOptions, type GraphDataPayload, type GraphNodeMeta, type NarrativeGraph, type PendingForceLayout, getForceLayoutConfig } from '../hyper/core/graph';
 import { analyzeGraph, type GraphHighlight, type GraphInsights } from '../hyper/analysis/graphInsights';
 import { pickVisibleLabels, pushCandidateToPool, type LabelCandidate } from './labelSelection';
 import { getLabelPerformanceProfile } from './labelPerformanceProfile';
 import { visualSettingRefreshOptions, type VisualSettingAction } from '../settings/visualSettingPolicy';
 import type GraphExplorerPlugin from '../main';
-import type { GraphExplorerSettings, ColorRule, ColorRuleType } from '../main';
+import type {
+  GraphExplorerSettings,
+  ColorRule,
+  ColorRuleCondition,
+  ColorRuleConditionType,
+  ColorRuleType,
+  CustomDataset,
+  CustomDatasetRootType,
+  CustomDatasetScope,
+  PropertyOperator,
+  SizeRuleMetric,
+} from '../main';
 
 export const HYPER_VIEW_TYPE = 'obsidian-4d-graph-explorer';
 
@@ -53,6 +127,9 @@ interface GraphRenderState {
   showLinks: boolean;
   vertexVisibility?: number[] | null;
   edgeVisibility?: number[] | null;
+  /** Growth playback fade per node and edge; 0 hides them entirely. */
+  vertexGrowth?: number[] | null;
+  edgeGrowth?: number[] | null;
 }
 
 interface RotationState extends RotationAngles {
@@ -75,6 +152,20 @@ interface RenderState {
   graph: GraphRenderState;
 }
 
+/** The parts of Obsidian's (undocumented) internal plugin registry used to reach core search. */
+interface InternalPluginRegistry {
+  internalPlugins?: {
+    getPluginById?(id: string): { enabled?: boolean; instance?: { openGlobalSearch?(query: string): void } } | null;
+  };
+}
+
+interface StyledVaultGraph {
+  data: VaultGraphPayload;
+  linkTypes: string[];
+  /** Label source and template the node labels were resolved with. */
+  labelKey: string;
+}
+
 interface GraphLabelPayload {
   positions: Array<[number, number, number]>;
   labels: Array<{
@@ -98,13 +189,77 @@ interface DatasetOption {
   type: 'shape' | 'graph';
   objectName?: string;
   vaultOptions?: VaultGraphOptions;
+  customDataset?: CustomDataset;
+  /** Built-in local datasets grown from several seeds at once. */
+  seedRoot?: 'open-tabs' | 'selection';
 }
 
 const DATASET_OPTIONS: DatasetOption[] = [
   { id: 'vault-local', label: 'Local', type: 'graph', vaultOptions: { scope: 'local', includeCanvas: true, depth: 2 } },
   { id: 'vault-global', label: 'Global', type: 'graph', vaultOptions: { scope: 'global', includeCanvas: true } },
+  { id: 'vault-open-tabs', label: 'Local (open tabs)', type: 'graph', vaultOptions: { scope: 'local', includeCanvas: true }, seedRoot: 'open-tabs' },
+  { id: 'vault-seed-selection', label: 'Local (picked seeds)', type: 'graph', vaultOptions: { scope: 'local', includeCanvas: true }, seedRoot: 'selection' },
 ];
 
+/** Order-independent key for a set of open tab paths. */
+function openTabsKey(paths: string[]): string {
+  return [...paths].sort().join('\n');
+}
+
+const LOCAL_DIRECTION_LABELS: Record<LocalScopeDirection, string> = {
+  both: 'Links and backlinks',
+  outgoing: 'Outgoing links only',
+  backlinks: 'Backlinks only',
+};
+
+const CATEGORY_GLYPH_LABELS: Record<string, string> = {
+  note: 'Notes',
+  canvas: 'Canvases',
+  image: 'Images',
+  missing: 'Missing notes',
+  tag: 'Tags',
+  folder: 'Folders',
+  'canvas-text': 'Canvas cards',
+};
+
+const COLOR_RULE_TYPE_LABELS: Record<ColorRuleType, string> = {
+  tag: 'Tag',
+  path: 'Path',
+  filename: 'Filename',
+  property: 'Property',
+  group: 'Group (AND / OR)',
+};
+
+const COLOR_RULE_CONDITION_TYPES: ColorRuleConditionType[] = ['tag', 'path', 'filename', 'property'];
+
+const PROPERTY_OPERATOR_LABELS: Record<PropertyOperator, string> = {
+  equals: 'Equals',
+  contains: 'Contains',
+  regex: 'Matches regex',
+  gt: 'Greater than',
+  gte: 'At least',
+  lt: 'Less than',
+  lte: 'At most',
+  exists: 'Is set',
+};
+
+const DATASET_ROOT_LABELS: Record<CustomDatasetRootType, string> = {
+  active: 'Active note',
+  note: 'Note',
+  folder: 'Folder',
+  tag: 'Tag',
+  search: 'Search',
+  'open-tabs': 'Open tabs',
+  selection: 'Picked seeds',
+};
+
+export function listDatasetOptions(settings: GraphExplorerSettings): Array<{ id: string; label: string }> {
+  return [
+    ...DATASET_OPTIONS.map(({ id, label }) => ({ id, label })),
+    ...settings.customDatasets.map((dataset) => ({ id: customDatasetOptionId(dataset), label: dataset.name })),
+  ];
+}
+
 const CAMERA_PRESETS: CameraPreset[] = [
   {
     id: 'axial-front',
@@ -141,6 +296,67 @@ function createOption(el: HTMLSelectElement, { id, label, title }: { id: string;
   el.appendChild(option);
 }
 
+function axisRangeLabel(range: AxisRange): string {
+  return range.metric === 'property' && range.property ? range.property : AXIS_METRIC_LABELS[range.metric];
+}
+
+function formatAxisValue(range: AxisRange, value: number): string {
+  if (range.metric === 'created' || range.metric === 'modified') {
+    return new Date(value).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+  }
+  if (range.metric === 'property') {
+    return String(Math.round(value * 100) / 100);
+  }
+  return String(Math.round(value));
+}
+
+function formatLegendValue(value: number): string {
+  return Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+/** Status line for a loaded dataset, noting how many notes the global node limit left out. */
+function datasetStatusText(label: string, data: VaultGraphPayload | null): string {
+  const truncation = data?.truncation;
+  if (!truncation || truncation.dropped === 0) return label;
+  const noun = truncation.dropped === 1 ? 'note' : 'notes';
+  return `${label} · ${GLOBAL_RANKING_LABELS[truncation.strategy]} · ${truncation.dropped} ${noun} dropped`;
+}
+
+/** Shows the first syntax error of `query` under a filter input; returns whether the query is valid. */
+function renderFilterError(errorEl: HTMLElement, inputEl: HTMLInputElement, query: string): boolean {
+  const { error } = compileFilterQuery(query);
+  errorEl.empty();
+  inputEl.classList.toggle('is-invalid', Boolean(error));
+  if (!error) {
+    errorEl.style.display = 'none';
+    return true;
+  }
+  errorEl.style.display = '';
+  errorEl.createSpan({ text: `${error.message} (column ${error.start + 1})` });
+  const snippet = errorEl.createEl('code');
+  snippet.appendText(query.slice(0, error.start));
+  snippet.createEl('mark', { text: query.slice(error.start, Math.max(error.end, error.start + 1)) || ' ' });
+  snippet.appendText(query.slice(Math.max(error.end, error.start + 1)));
+  return false;
+}
+
+function clampInteger(value: string, min: number, max: number, fallback: number): number {
+  const parsed = Math.round(Number(value));
+  if (!Number.isFinite(parsed)) return fallback;
+  return Math.min(max, Math.max(min, parsed));
+}
+
+function rgbToHex(rgb: [number, number, number]): string {
+  return `#${rgb.map((channel) => Math.round(Math.min(1, Math.max(0, channel)) * 255).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/** Vault-specific fields live on the payload node's own `raw`, one level below the meta. */
+function nodeRawFields(node: { raw?: unknown }): Record<string, unknown> | null {
+  const payloadNode = node.raw as GraphNodeMeta['raw'] | undefined;
+  const inner = payloadNode?.raw;
+  return inner && typeof inner === 'object' ? inner as Record<string, unknown> : null;
+}
+
 function createButton(label: string, onClick: () => void, title?: string): HTMLButtonElement {
   const button = document.createElement('button');
   button.type = 'button';
@@ -172,6 +388,15 @@ export class GraphExplorerView extends ItemView {
   private visibleLabelIndexes: number[] = [];
   private toolbarEl!: HTMLDivElement;
   private statusEl!: HTMLSpanElement;
+  private sliceRangeEl!: HTMLSpanElement;
+  private growthBtn!: HTMLButtonElement;
+  private growthControlsEl!: HTMLDivElement;
+  private growthPlayBtn!: HTMLButtonElement;
+  private growthScrubberEl!: HTMLInputElement;
+  private growthDateEl!: HTMLSpanElement;
+  private physicsControlsEl!: HTMLDivElement;
+  private physicsPauseBtn!: HTMLButtonElement;
+  private physicsEnergyEl!: HTMLSpanElement;
   private configPanelEl!: HTMLDivElement;
   private configVisible = false;
   private datasetSelectEl!: HTMLSelectElement;
@@ -194,6 +419,23 @@ export class GraphExplorerView extends ItemView {
   private nodeSizeValueEl!: HTMLSpanElement;
   private showLinksToggleEl!: HTMLInputElement;
   private showOnlyExistingFilesToggleEl!: HTMLInputElement;
+  private showTagNodesToggleEl!: HTMLInputElement;
+  private showFolderNodesToggleEl!: HTMLInputElement;
+  private showSubNodesToggleEl!: HTMLInputElement;
+  private showCanvasTextToggleEl!: HTMLInputElement;
+  private showInlineFieldsToggleEl!: HTMLInputElement;
+  private filterInputEl!: HTMLInputElement;
+  private filterErrorEl!: HTMLDivElement;
+  private lastVaultGraphData: VaultGraphPayload | null = null;
+  private subNodeParents = new Set<string>();
+  private collapsedSubNodeParents = new Set<string>();
+  private seedSelection = new Set<string>();
+  private linkTypesContainerEl: HTMLDivElement | null = null;
+  private datasetsContainerEl: HTMLDivElement | null = null;
+  private availableLinkTypes: string[] = [];
+  private colorRuleMatches: Record<string, number> | null = null;
+  private colorRuleCountEls = new Map<string, HTMLSpanElement>();
+  private sizeLegendEl: HTMLDivElement | null = null;
   private configToggleBtn!: HTMLButtonElement;
   private analysisToggleBtn!: HTMLButtonElement;
   private refreshBtn!: HTMLButtonElement;
@@ -219,15 +461,35 @@ export class GraphExplorerView extends ItemView {
   private selectedDataset: string;
   private selectedNodeIndex: number | null = null;
   private lastRenderedNodeSignature: string | null = null;
+  private notePreviewComponent: Component | null = null;
+  private notePreviewToken = 0;
+  private labelStripPatterns: RegExp[] = [];
+  /** Label source and template the loaded graph's node labels were resolved with. */
+  private resolvedLabelKey = '';
+  private readonly layoutRunner = new ForceLayoutRunner(createForceLayoutWorker);
+  /** The active graph's layout handle, kept so live physics can restart from its current positions. */
+  private forceLayout: PendingForceLayout | null = null;
+  private liveLayout: LiveForceLayout | null = null;
+  private livePhysicsPaused = false;
+  private nodeDrag: { index: number; pointerId: number } | null = null;
   private tempVec = new Vector3();
   private themeCycle = themeList();
   private focusStrength = 0;
   private pendingFocusPath: string | null = null;
   private lastLocalRootPath: string | null = null;
+  /** Sorted open tab paths the open-tabs dataset was last built from. */
+  private lastOpenTabsKey: string | null = null;
   private localDatasetReloadDebounce: number | null = null;
   private previousVertices: Vec4[] = [];
   private animationProgress = 1;
   private animationDuration = 600;
+  private growthActive = false;
+  private growthPlaying = false;
+  private growthSpeed = 1;
+  private growthTime = 0;
+  private growthTimeline: GrowthTimeline | null = null;
+  private growthAppliedTime: number | null = null;
+  private growthLastFrameAt: number | null = null;
   private cameraAnimationProgress = 1;
   private cameraAnimationDuration = 800;
   private cameraAnimationStart: { position: [number, number, number]; up: [number, number, number] } | null = null;
@@ -252,6 +514,7 @@ export class GraphExplorerView extends ItemView {
     const activeFile = this.app.workspace.getActiveFile();
     this.selectedDataset = 'vault-local';
     this.settings = this.plugin.settings;
+    this.labelStripPatterns = compileLabelStripPatterns(this.settings.labelStripPatterns);
     this.state = {
       rotation: { xy: 0, xz: 0, xw: 0, yz: 0, yw: 0, zw: 0 },
       slice: { mode: 'projection', offset: 0, thickness: 0.24 },
@@ -276,6 +539,8 @@ export class GraphExplorerView extends ItemView {
 
   applySettings(settings: GraphExplorerSettings): void {
     this.settings = settings;
+    this.labelStripPatterns = compileLabelStripPatterns(settings.labelStripPatterns);
+    this.relabelNodes();
     this.state.themeId = settings.theme;
     this.state.graph.nodeScale = settings.nodeSizeMultiplier;
     this.state.graph.showLinks = settings.showLinks;
@@ -285,8 +550,10 @@ export class GraphExplorerView extends ItemView {
     if (this.fontSelectEl) {
       this.fontSelectEl.value = settings.labelFont;
     }
+    this.renderDatasetSelect();
     this.updateTheme();
     this.applyLabelFont();
+    this.applyLivePhysicsSetting();
   }
 
   private updateTheme() {
@@ -395,6 +662,10 @@ export class GraphExplorerView extends ItemView {
 
     this.toolbarEl = this.rootEl.createDiv({ cls: 'hyper-toolbar' });
     this.statusEl = this.toolbarEl.createEl('span', { text: 'Loading…' });
+    this.sliceRangeEl = this.toolbarEl.createEl('span', { cls: 'hyper-slice-range' });
+    this.sliceRangeEl.style.display = 'none';
+    this.buildGrowthControls();
+    this.buildPhysicsControls();
 
     this.toolbarEl.createDiv({ cls: 'hyper-toolbar-spacer' });
 
@@ -417,8 +688,16 @@ export class GraphExplorerView extends ItemView {
       const nextIndex = (order.indexOf(this.state.slice.mode) + 1) % order.length;
       this.state.slice.mode = order[nextIndex];
       this.showStatus(`Slice mode: ${this.state.slice.mode}`);
+      this.updateSliceRange();
     }, 'Cycle through projection / hyperplane / shadow views');
 
+    this.growthBtn = createIconButton('history', () => {
+      this.toggleGrowthPlayback();
+    }, {
+      title: 'Play back how the graph grew',
+      ariaLabel: 'Toggle growth playback',
+    });
+
     this.analysisToggleBtn = createIconButton('git-branch', () => {
       this.toggleConfigPanel(false);
       this.toggleAnalysisModal();
@@ -438,6 +717,7 @@ export class GraphExplorerView extends ItemView {
     this.toolbarEl.appendChild(this.refreshBtn);
     this.toolbarEl.appendChild(this.autoRotateBtn);
     this.toolbarEl.appendChild(sliceBtn);
+    this.toolbarEl.appendChild(this.growthBtn);
     this.toolbarEl.appendChild(this.analysisToggleBtn);
     this.toolbarEl.appendChild(this.configToggleBtn);
 
@@ -455,6 +735,9 @@ export class GraphExplorerView extends ItemView {
     this.imageStripEl = this.rootEl.createDiv({ cls: 'hyper-image-strip' });
     this.nodeInfoEl = this.rootEl.createDiv({ cls: 'hyper-node-info' });
     this.nodeInfoEl.style.display = 'none';
+    this.nodeInfoEl.addEventListener('click', (event) => this.handleNotePreviewLinkClick(event));
+    this.sizeLegendEl = this.rootEl.createDiv({ cls: 'hyper-size-legend' });
+    this.sizeLegendEl.style.display = 'none';
 
     this.renderer = new HyperRenderer(this.canvasEl);
     this.updateTheme();
@@ -470,7 +753,10 @@ export class GraphExplorerView extends ItemView {
           this.requestRender();
           this.isFocusing = false;
         },
-        slice: () => this.requestRender(),
+        slice: () => {
+          this.requestRender();
+          this.updateSliceRange();
+        },
         autorotate: () => {
           this.updateAutoRotateButton();
           this.requestRender();
@@ -481,6 +767,7 @@ export class GraphExplorerView extends ItemView {
           this.isFocusing = false;
         },
         onTogglePanels: () => this.toggleUI(),
+        pointerDown: (event: PointerEvent) => this.beginNodeDrag(event),
       },
     });
 
@@ -497,6 +784,9 @@ export class GraphExplorerView extends ItemView {
     this.canvasEl.addEventListener('pointerdown', (e) => {
       this.pointerDownPos = { x: e.clientX, y: e.clientY };
     });
+    this.canvasEl.addEventListener('pointermove', (event) => this.dragNode(event));
+    this.canvasEl.addEventListener('pointerup', (event) => this.endNodeDrag(event.pointerId));
+    this.canvasEl.addEventListener('pointercancel', (event) => this.endNodeDrag(event.pointerId));
     this.canvasEl.addEventListener('click', (event) => this.handleCanvasClick(event));
     this.canvasEl.addEventListener('dblclick', (event) => this.handleCanvasDoubleClick(event));
 
@@ -505,6 +795,8 @@ export class GraphExplorerView extends ItemView {
   }
 
   async onClose(): Promise<void> {
+    this.layoutRunner.cancel();
+    this.liveLayout = null;
     if (this.animationId !== null) {
       cancelAnimationFrame(this.animationId);
       this.animationId = null;
@@ -520,6 +812,264 @@ export class GraphExplorerView extends ItemView {
     this.renderer?.dispose();
   }
 
+  private graphBuildOptions(graphName: string): GraphBuildOptions {
+    return { graphName, axes: this.settings.axisBindings, categoryGlyphs: this.settings.categoryGlyphs };
+  }
+
+  /** Shows which values the hyperplane slice covers when W is bound to a metric. */
+  private updateSliceRange(): void {
+    if (!this.sliceRangeEl) return;
+    const meta = this.activeObject?.meta;
+    const range = meta?.type === 'graph' ? meta.axisRanges?.[3] ?? null : null;
+    if (!range || this.state.slice.mode !== 'hyperplane') {
+      this.sliceRangeEl.style.display = 'none';
+      return;
+    }
+    const { start, end } = sliceBounds(range, this.state.slice.offset, this.state.slice.thickness);
+    this.sliceRangeEl.textContent = `${axisRangeLabel(range)} ${formatAxisValue(range, start)} – ${formatAxisValue(range, end)}`;
+    this.sliceRangeEl.style.display = '';
+  }
+
+  private buildPhysicsControls(): void {
+    this.physicsControlsEl = this.toolbarEl.createDiv({ cls: 'hyper-physics-controls' });
+    this.physicsControlsEl.style.display = 'none';
+
+    this.physicsPauseBtn = createIconButton('pause', () => {
+      this.setLivePhysicsPaused(!this.livePhysicsPaused);
+    }, {
+      title: 'Pause live physics',
+      ariaLabel: 'Pause live physics',
+    });
+    this.physicsControlsEl.appendChild(this.physicsPauseBtn);
+    this.physicsEnergyEl = this.physicsControlsEl.createEl('span', {
+      cls: 'hyper-physics-energy',
+      attr: { title: 'Kinetic energy of the layout simulation' },
+    });
+  }
+
+  private setLivePhysicsPaused(paused: boolean): void {
+    this.livePhysicsPaused = paused;
+    if (this.liveLayout) this.liveLayout.paused = paused;
+    this.updatePhysicsControls();
+  }
+
+  private updatePhysicsControls(): void {
+    if (!this.physicsControlsEl) return;
+    this.physicsControlsEl.style.display = this.liveLayout ? '' : 'none';
+    const label = this.livePhysicsPaused ? 'Resume live physics' : 'Pause live physics';
+    setIcon(this.physicsPauseBtn, this.livePhysicsPaused ? 'play' : 'pause');
+    this.physicsPauseBtn.setAttribute('aria-label', label);
+    this.physicsPauseBtn.title = label;
+    this.updateEnergyReadout();
+  }
+
+  private updateEnergyReadout(): void {
+    const live = this.liveLayout;
+    if (!live || !this.physicsEnergyEl) return;
+    const text = live.settled ? 'Settled' : `Energy ${formatLayoutEnergy(live.energy)}`;
+    if (this.physicsEnergyEl.textContent !== text) this.physicsEnergyEl.textContent = text;
+  }
+
+  /** Starts or stops the live simulation to match the setting, and passes it changed forces. */
+  private applyLivePhysicsSetting(): void {
+    if (!this.settings.livePhysics) {
+      if (!this.liveLayout) return;
+      this.endNodeDrag();
+      this.liveLayout = null;
+      this.updatePhysicsControls();
+      return;
+    }
+    if (this.liveLayout) {
+      this.liveLayout.configure(getForceLayoutConfig());
+      return;
+    }
+    const layout = this.forceLayout;
+    if (!layout) return;
+    this.layoutRunner.cancel();
+    this.startLivePhysics({ ...layout, vertices: layout.snapshot(), config: getForceLayoutConfig() }, LIVE_REHEAT_ALPHA);
+  }
+
+  private startLivePhysics(layout: PendingForceLayout, alpha: number): void {
+    this.liveLayout = new LiveForceLayout(layout, alpha);
+    this.liveLayout.paused = this.livePhysicsPaused;
+    this.updatePhysicsControls();
+  }
+
+  /** Advances the live simulation by one frame's budget and draws the result. */
+  private stepLivePhysics(): void {
+    const live = this.liveLayout;
+    if (!live || !this.forceLayout) return;
+    if (live.tick()) {
+      this.forceLayout.apply(live.positions);
+      this.markLabelsDirty();
+    }
+    this.updateEnergyReadout();
+  }
+
+  /** Claims a press on a node while live physics runs, so dragging moves the node instead of rotating. */
+  private beginNodeDrag(event: PointerEvent): boolean {
+    if (!this.liveLayout || event.button !== 0 || event.shiftKey || event.altKey || event.metaKey) return false;
+    const index = this.pickNodeFromEvent(event);
+    if (index === null) return false;
+    this.nodeDrag = { index, pointerId: event.pointerId };
+    this.canvasEl.setPointerCapture(event.pointerId);
+    this.liveLayout.hold(index, this.liveLayout.positions[index]);
+    return true;
+  }
+
+  /** Moves the dragged node under the pointer, keeping its projected depth and W. */
+  private dragNode(event: PointerEvent): void {
+    const drag = this.nodeDrag;
+    const live = this.liveLayout;
+    if (!drag || !live || event.pointerId !== drag.pointerId) return;
+    const camera = (this.renderer as any)?.camera;
+    const projected = this.lastGraphPayload?.positions[drag.index];
+    const rotated = this.transformedVertices[drag.index];
+    const rect = this.canvasEl.getBoundingClientRect();
+    if (!camera || !projected || !rotated || rect.width === 0 || rect.height === 0) return;
+    const pointerX = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+    const pointerY = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+    this.tempVec.set(projected[0], projected[1], projected[2]).project(camera);
+    this.tempVec.set(pointerX, pointerY, this.tempVec.z).unproject(camera);
+    const delta: Vec3 = [this.tempVec.x - projected[0], this.tempVec.y - projected[1], this.tempVec.z - projected[2]];
+    const step = applyInverseRotation(
+      unprojectPerspectiveDelta(delta, rotated, this.state.projection),
+      composeRotation(this.state.rotation)
+    );
+    const current = live.positions[drag.index];
+    live.hold(drag.index, current.map((value, axis) => value + step[axis]) as Vec4);
+  }
+
+  private endNodeDrag(pointerId?: number): void {
+    const drag = this.nodeDrag;
+    if (!drag || (pointerId !== undefined && pointerId !== drag.pointerId)) return;
+    this.nodeDrag = null;
+    this.liveLayout?.hold(drag.index, null);
+    if (this.canvasEl?.hasPointerCapture(drag.pointerId)) this.canvasEl.releasePointerCapture(drag.pointerId);
+  }
+
+  private buildGrowthControls(): void {
+    this.growthControlsEl = this.toolbarEl.createDiv({ cls: 'hyper-growth-controls' });
+    this.growthControlsEl.style.display = 'none';
+
+    this.growthPlayBtn = createIconButton('play', () => {
+      this.setGrowthPlaying(!this.growthPlaying);
+    }, {
+      title: 'Play or pause growth',
+      ariaLabel: 'Play or pause growth',
+    });
+    this.growthControlsEl.appendChild(this.growthPlayBtn);
+
+    const speedSelect = this.growthControlsEl.createEl('select', { attr: { 'aria-label': 'Growth playback speed' } });
+    [0.5, 1, 2, 4].forEach((speed) => {
+      createOption(speedSelect, { id: String(speed), label: `${speed}×` });
+    });
+    speedSelect.value = String(this.growthSpeed);
+    speedSelect.addEventListener('change', () => {
+      this.growthSpeed = Number(speedSelect.value) || 1;
+    });
+
+    this.growthScrubberEl = this.growthControlsEl.createEl('input', {
+      type: 'range',
+      attr: { min: '0', max: '1000', step: '1', 'aria-label': 'Growth date' },
+    });
+    this.growthScrubberEl.addEventListener('input', () => {
+      const timeline = this.growthTimeline;
+      if (!timeline) return;
+      this.setGrowthPlaying(false);
+      const share = Number(this.growthScrubberEl.value) / 1000;
+      this.growthTime = timeline.start + (timeline.end - timeline.start) * share;
+    });
+
+    this.growthDateEl = this.growthControlsEl.createEl('span', { cls: 'hyper-growth-date' });
+  }
+
+  private toggleGrowthPlayback(force?: boolean): void {
+    const active = force ?? !this.growthActive;
+    if (!active) {
+      this.growthActive = false;
+      this.setGrowthPlaying(false);
+      this.growthTimeline = null;
+      this.growthAppliedTime = null;
+      this.state.graph.vertexGrowth = null;
+      this.state.graph.edgeGrowth = null;
+      this.growthControlsEl.style.display = 'none';
+      this.growthBtn.classList.remove('is-active');
+      this.markLabelsDirty(true);
+      return;
+    }
+    const timeline = this.buildActiveGrowthTimeline();
+    if (!timeline) {
+      this.showStatus('Growth playback needs notes with creation times');
+      return;
+    }
+    this.growthActive = true;
+    this.growthTimeline = timeline;
+    this.growthTime = timeline.start;
+    this.growthAppliedTime = null;
+    this.growthControlsEl.style.display = '';
+    this.growthBtn.classList.add('is-active');
+    this.setGrowthPlaying(true);
+  }
+
+  private buildActiveGrowthTimeline(): GrowthTimeline | null {
+    const meta = this.activeObject?.meta;
+    if (!meta || meta.type !== 'graph') return null;
+    return buildGrowthTimeline(
+      meta.nodes.map((node) => node.raw),
+      meta.links.map((link) => [link.sourceIndex, link.targetIndex] as [number, number])
+    );
+  }
+
+  /** Rebuilds the playback timeline for a new graph, keeping the current date. */
+  private refreshGrowthTimeline(): void {
+    if (!this.growthActive) return;
+    const timeline = this.buildActiveGrowthTimeline();
+    if (!timeline) {
+      this.toggleGrowthPlayback(false);
+      return;
+    }
+    this.growthTimeline = timeline;
+    this.growthTime = Math.min(timeline.end, Math.max(timeline.start, this.growthTime));
+    this.growthAppliedTime = null;
+  }
+
+  private setGrowthPlaying(playing: boolean): void {
+    const timeline = this.growthTimeline;
+    if (playing && timeline && this.growthTime >= timeline.end) {
+      this.growthTime = timeline.start;
+    }
+    this.growthPlaying = playing && Boolean(timeline);
+    this.growthLastFrameAt = null;
+    setIcon(this.growthPlayBtn, this.growthPlaying ? 'pause' : 'play');
+  }
+
+  /** Advances playback and publishes per-node growth for the renderer and labels. */
+  private updateGrowthPlayback(now: number): void {
+    const timeline = this.growthTimeline;
+    if (!this.growthActive || !timeline) return;
+    if (this.growthPlaying) {
+      const delta = this.growthLastFrameAt === null ? 0 : now - this.growthLastFrameAt;
+      this.growthLastFrameAt = now;
+      this.growthTime = advanceGrowthTime(timeline, this.growthTime, delta, this.growthSpeed);
+      if (this.growthTime >= timeline.end) {
+        this.setGrowthPlaying(false);
+      }
+    }
+    if (this.growthAppliedTime === this.growthTime) return;
+    this.growthAppliedTime = this.growthTime;
+
+    const frame = growthFrame(timeline, this.growthTime);
+    this.state.graph.vertexGrowth = frame.vertexGrowth;
+    this.state.graph.edgeGrowth = frame.edgeGrowth;
+    const span = timeline.end - timeline.start;
+    const share = span > 0 ? (this.growthTime - timeline.start) / span : 1;
+    this.growthScrubberEl.value = String(Math.round(share * 1000));
+    const date = new Date(this.growthTime).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+    this.growthDateEl.textContent = `${date} · ${frame.bornCount}/${timeline.births.length}`;
+    this.markLabelsDirty(false);
+  }
+
   private showStatus(message: string) {
     if (this.statusEl) {
       this.statusEl.textContent = message;
@@ -550,14 +1100,111 @@ export class GraphExplorerView extends ItemView {
     const datasetId = `hyper-dataset-${uniqueSuffix}`;
     datasetRow.createEl('label', { text: 'Dataset', attr: { for: datasetId } });
     this.datasetSelectEl = datasetRow.createEl('select', { attr: { id: datasetId } });
-    DATASET_OPTIONS.forEach((option) => createOption(this.datasetSelectEl, option));
-    this.datasetSelectEl.value = this.selectedDataset;
+    this.renderDatasetSelect();
     this.datasetSelectEl.addEventListener('change', (event) => {
       const value = (event.target as HTMLSelectElement).value;
       this.selectedDataset = value;
       void this.loadSelectedDataset();
     });
 
+    const filterRow = body.createDiv({ cls: 'hyper-config-row' });
+    const filterId = `hyper-filter-${uniqueSuffix}`;
+    filterRow.createEl('label', { text: 'Filter', attr: { for: filterId } });
+    this.filterInputEl = filterRow.createEl('input', {
+      attr: {
+        id: filterId,
+        type: 'text',
+        placeholder: 'tag:#project -path:archive/ links>3',
+        spellcheck: 'false',
+      },
+    });
+    this.filterInputEl.value = this.settings.filterQuery;
+    this.filterErrorEl = filterRow.createDiv({ cls: 'hyper-filter-error' });
+    renderFilterError(this.filterErrorEl, this.filterInputEl, this.settings.filterQuery);
+    this.filterInputEl.addEventListener('input', () => {
+      const value = this.filterInputEl.value;
+      if (!renderFilterError(this.filterErrorEl, this.filterInputEl, value) || value === this.settings.filterQuery) return;
+      this.settings.filterQuery = value;
+      this.notifyVisualSettingChange('filter-query');
+    });
+
+    const rankingRow = body.createDiv({ cls: 'hyper-config-row' });
+    const rankingId = `hyper-global-ranking-${uniqueSuffix}`;
+    rankingRow.createEl('label', { text: 'Global node limit keeps', attr: { for: rankingId } });
+    const rankingSelect = rankingRow.createEl('select', { attr: { id: rankingId } });
+    (Object.keys(GLOBAL_RANKING_LABELS) as GlobalRankingStrategy[]).forEach((strategy) => {
+      createOption(rankingSelect, { id: strategy, label: GLOBAL_RANKING_LABELS[strategy] });
+    });
+    rankingSelect.value = this.settings.globalRanking;
+    rankingSelect.addEventListener('change', () => {
+      this.settings.globalRanking = rankingSelect.value as GlobalRankingStrategy;
+      this.notifyVisualSettingChange('global-ranking');
+    });
+
+    AXIS_NAMES.forEach((axisName, axis) => {
+      const axisRow = body.createDiv({ cls: 'hyper-config-row' });
+      const axisId = `hyper-axis-${axisName.toLowerCase()}-${uniqueSuffix}`;
+      axisRow.createEl('label', { text: `${axisName} axis`, attr: { for: axisId } });
+      const metricSelect = axisRow.createEl('select', { attr: { id: axisId } });
+      (Object.keys(AXIS_METRIC_LABELS) as AxisMetric[]).forEach((metric) => {
+        createOption(metricSelect, { id: metric, label: AXIS_METRIC_LABELS[metric] });
+      });
+      const propertyInput = axisRow.createEl('input', {
+        attr: { type: 'text', placeholder: 'Property name', 'aria-label': `${axisName} axis property`, spellcheck: 'false' },
+      });
+      const binding = this.settings.axisBindings[axis] ?? { metric: 'force' };
+      metricSelect.value = binding.metric;
+      propertyInput.value = binding.property ?? '';
+      propertyInput.style.display = binding.metric === 'property' ? '' : 'none';
+      const updateBinding = () => {
+        const metric = metricSelect.value as AxisMetric;
+        propertyInput.style.display = metric === 'property' ? '' : 'none';
+        this.settings.axisBindings = AXIS_NAMES.map((_, index) => (
+          index === axis
+            ? { metric, property: metric === 'property' ? propertyInput.value.trim() : undefined }
+            : this.settings.axisBindings[index] ?? { metric: 'force' }
+        ));
+        this.notifyVisualSettingChange('axes');
+      };
+      metricSelect.addEventListener('change', updateBinding);
+      propertyInput.addEventListener('change', updateBinding);
+    });
+
+    const directionRow = body.createDiv({ cls: 'hyper-config-row' });
+    const directionId = `hyper-local-direction-${uniqueSuffix}`;
+    directionRow.createEl('label', { text: 'Local graph follows', attr: { for: directionId } });
+    const directionSelect = directionRow.createEl('select', { attr: { id: directionId } });
+    (Object.keys(LOCAL_DIRECTION_LABELS) as LocalScopeDirection[]).forEach((direction) => {
+      createOption(directionSelect, { id: direction, label: LOCAL_DIRECTION_LABELS[direction] });
+    });
+    directionSelect.value = this.settings.localDirection;
+
+    const createDepthRow = (label: string, key: 'localDepth' | 'localBacklinkDepth') => {
+      const row = body.createDiv({ cls: 'hyper-config-row' });
+      const inputId = `hyper-${key}-${uniqueSuffix}`;
+      row.createEl('label', { text: label, attr: { for: inputId } });
+      const input = row.createEl('input', { attr: { id: inputId, type: 'number', min: '0', max: '8', step: '1' } });
+      input.value = String(this.settings[key]);
+      input.addEventListener('change', () => {
+        this.settings[key] = clampInteger(input.value, 0, 8, this.settings[key]);
+        input.value = String(this.settings[key]);
+        this.notifyVisualSettingChange('local-depth');
+      });
+      return row;
+    };
+    const outgoingDepthRow = createDepthRow('Outgoing depth', 'localDepth');
+    const backlinkDepthRow = createDepthRow('Backlink depth', 'localBacklinkDepth');
+    const syncLocalDepthRows = () => {
+      outgoingDepthRow.style.display = this.settings.localDirection === 'backlinks' ? 'none' : '';
+      backlinkDepthRow.style.display = this.settings.localDirection === 'outgoing' ? 'none' : '';
+    };
+    syncLocalDepthRows();
+    directionSelect.addEventListener('change', () => {
+      this.settings.localDirection = directionSelect.value as LocalScopeDirection;
+      syncLocalDepthRows();
+      this.notifyVisualSettingChange('local-depth');
+    });
+
     const themeRow = body.createDiv({ cls: 'hyper-config-row' });
     const themeId = `hyper-theme-${uniqueSuffix}`;
     themeRow.createEl('label', { text: 'Theme', attr: { for: themeId } });
@@ -596,6 +1243,60 @@ export class GraphExplorerView extends ItemView {
       this.notifyVisualSettingChange('label-font');
     });
 
+    const labelSourceRow = body.createDiv({ cls: 'hyper-config-row' });
+    const labelSourceId = `hyper-label-source-${uniqueSuffix}`;
+    labelSourceRow.createEl('label', { text: 'Label text', attr: { for: labelSourceId } });
+    const labelSourceSelect = labelSourceRow.createEl('select', { attr: { id: labelSourceId } });
+    (Object.keys(LABEL_SOURCE_LABELS) as LabelSource[]).forEach((source) => {
+      createOption(labelSourceSelect, { id: source, label: LABEL_SOURCE_LABELS[source] });
+    });
+    labelSourceSelect.value = this.settings.labelSource;
+
+    const labelTemplateRow = body.createDiv({ cls: 'hyper-config-row' });
+    const labelTemplateId = `hyper-label-template-${uniqueSuffix}`;
+    labelTemplateRow.createEl('label', { text: 'Label template', attr: { for: labelTemplateId } });
+    const labelTemplateInput = labelTemplateRow.createEl('input', {
+      attr: {
+        id: labelTemplateId,
+        type: 'text',
+        placeholder: '{{title}} ({{status}})',
+        spellcheck: 'false',
+      },
+    });
+    labelTemplateInput.value = this.settings.labelTemplate;
+    labelTemplateRow.style.display = this.settings.labelSource === 'template' ? '' : 'none';
+    labelTemplateInput.addEventListener('input', () => {
+      this.settings.labelTemplate = labelTemplateInput.value;
+      this.relabelNodes();
+      this.notifyVisualSettingChange('label-source');
+    });
+    labelSourceSelect.addEventListener('change', () => {
+      this.settings.labelSource = labelSourceSelect.value as LabelSource;
+      labelTemplateRow.style.display = this.settings.labelSource === 'template' ? '' : 'none';
+      this.relabelNodes();
+      this.notifyVisualSettingChange('label-source');
+    });
+
+    const labelStripRow = body.createDiv({ cls: 'hyper-config-row' });
+    const labelStripId = `hyper-label-strip-${uniqueSuffix}`;
+    labelStripRow.createEl('label', { text: 'Strip from labels (one regex per line)', attr: { for: labelStripId } });
+    const labelStripInput = labelStripRow.createEl('textarea', {
+      cls: 'hyper-label-strip-input',
+      attr: {
+        id: labelStripId,
+        rows: '2',
+        placeholder: '^\\d{8}-',
+        spellcheck: 'false',
+      },
+    });
+    labelStripInput.value = this.settings.labelStripPatterns.join('\n');
+    labelStripInput.addEventListener('input', () => {
+      this.settings.labelStripPatterns = labelStripInput.value.split('\n');
+      this.labelStripPatterns = compileLabelStripPatterns(this.settings.labelStripPatterns);
+      this.markLabelsDirty(true);
+      this.notifyVisualSettingChange('label-strip');
+    });
+
     const cameraRow = body.createDiv({ cls: 'hyper-config-row' });
     const cameraId = `hyper-camera-${uniqueSuffix}`;
     cameraRow.createEl('label', { text: 'Camera view', attr: { for: cameraId } });
@@ -676,6 +1377,23 @@ export class GraphExplorerView extends ItemView {
     // Force layout settings
     body.createEl('h4', { text: 'Force Layout' });
 
+    const livePhysicsRow = body.createDiv({ cls: 'hyper-config-row' });
+    const livePhysicsId = `hyper-live-physics-${uniqueSuffix}`;
+    livePhysicsRow.createEl('label', { text: 'Live physics', attr: { for: livePhysicsId } });
+    const livePhysicsToggle = livePhysicsRow.createEl('input', {
+      attr: {
+        id: livePhysicsId,
+        type: 'checkbox',
+        title: 'Keep the layout running so the graph reacts to changes and node drags',
+      },
+    });
+    livePhysicsToggle.checked = this.settings.livePhysics;
+    livePhysicsToggle.addEventListener('change', (event) => {
+      this.settings.livePhysics = (event.target as HTMLInputElement).checked;
+      this.applyLivePhysicsSetting();
+      this.notifyVisualSettingChange('live-physics');
+    });
+
     const repelForceRow = body.createDiv({ cls: 'hyper-config-row' });
     const repelForceId = `hyper-repel-force-${uniqueSuffix}`;
     repelForceRow.createEl('label', { text: 'Repel force', attr: { for: repelForceId } });
@@ -828,13 +1546,98 @@ export class GraphExplorerView extends ItemView {
       this.notifyVisualSettingChange('show-only-existing-files');
     });
 
+    const showTagNodesRow = body.createDiv({ cls: 'hyper-config-row' });
+    const showTagNodesId = `hyper-show-tag-nodes-${uniqueSuffix}`;
+    showTagNodesRow.createEl('label', { text: 'Show tags as nodes', attr: { for: showTagNodesId } });
+    this.showTagNodesToggleEl = showTagNodesRow.createEl('input', {
+      attr: {
+        id: showTagNodesId,
+        type: 'checkbox',
+      },
+    });
+    this.showTagNodesToggleEl.checked = this.settings.showTagNodes;
+    this.showTagNodesToggleEl.addEventListener('change', (event) => {
+      const value = (event.target as HTMLInputElement).checked;
+      this.settings.showTagNodes = value;
+      this.notifyVisualSettingChange('tag-nodes');
+    });
+
+    const showFolderNodesRow = body.createDiv({ cls: 'hyper-config-row' });
+    const showFolderNodesId = `hyper-show-folder-nodes-${uniqueSuffix}`;
+    showFolderNodesRow.createEl('label', { text: 'Show folder structure', attr: { for: showFolderNodesId } });
+    this.showFolderNodesToggleEl = showFolderNodesRow.createEl('input', {
+      attr: {
+        id: showFolderNodesId,
+        type: 'checkbox',
+      },
+    });
+    this.showFolderNodesToggleEl.checked = this.settings.showFolderNodes;
+    this.showFolderNodesToggleEl.addEventListener('change', (event) => {
+      const value = (event.target as HTMLInputElement).checked;
+      this.settings.showFolderNodes = value;
+      this.notifyVisualSettingChange('folder-nodes');
+    });
+
+    const showSubNodesRow = body.createDiv({ cls: 'hyper-config-row' });
+    const showSubNodesId = `hyper-show-sub-nodes-${uniqueSuffix}`;
+    showSubNodesRow.createEl('label', { text: 'Split notes into sections', attr: { for: showSubNodesId } });
+    this.showSubNodesToggleEl = showSubNodesRow.createEl('input', {
+      attr: {
+        id: showSubNodesId,
+        type: 'checkbox',
+      },
+    });
+    this.showSubNodesToggleEl.checked = this.settings.showSubNodes;
+    this.showSubNodesToggleEl.addEventListener('change', (event) => {
+      const value = (event.target as HTMLInputElement).checked;
+      this.settings.showSubNodes = value;
+      this.notifyVisualSettingChange('sub-nodes');
+    });
+
+    const showCanvasTextRow = body.createDiv({ cls: 'hyper-config-row' });
+    const showCanvasTextId = `hyper-show-canvas-text-${uniqueSuffix}`;
+    showCanvasTextRow.createEl('label', { text: 'Show canvas text cards', attr: { for: showCanvasTextId } });
+    this.showCanvasTextToggleEl = showCanvasTextRow.createEl('input', {
+      attr: {
+        id: showCanvasTextId,
+        type: 'checkbox',
+      },
+    });
+    this.showCanvasTextToggleEl.checked = this.settings.showCanvasTextCards;
+    this.showCanvasTextToggleEl.addEventListener('change', (event) => {
+      const value = (event.target as HTMLInputElement).checked;
+      this.settings.showCanvasTextCards = value;
+      this.notifyVisualSettingChange('canvas-text');
+    });
+
+    const showInlineFieldsRow = body.createDiv({ cls: 'hyper-config-row' });
+    const showInlineFieldsId = `hyper-show-inline-fields-${uniqueSuffix}`;
+    showInlineFieldsRow.createEl('label', { text: 'Inline fields as links', attr: { for: showInlineFieldsId } });
+    this.showInlineFieldsToggleEl = showInlineFieldsRow.createEl('input', {
+      attr: {
+        id: showInlineFieldsId,
+        type: 'checkbox',
+      },
+    });
+    this.showInlineFieldsToggleEl.checked = this.settings.showInlineFields;
+    this.showInlineFieldsToggleEl.addEventListener('change', (event) => {
+      const value = (event.target as HTMLInputElement).checked;
+      this.settings.showInlineFields = value;
+      this.notifyVisualSettingChange('inline-fields');
+    });
+
     // Color rules
     body.createEl('h4', { text: 'Custom Colors' });
 
+    body.createEl('p', {
+      text: 'Rules higher in the list take priority. Drag the handle to reorder.',
+      cls: 'hyper-color-rules-hint',
+    });
     const colorRulesContainer = body.createDiv({ cls: 'hyper-color-rules-container' });
 
     const renderColorRules = () => {
       colorRulesContainer.empty();
+      this.colorRuleCountEls.clear();
 
       if (this.settings.colorRules.length === 0) {
         colorRulesContainer.createEl('p', {
@@ -843,10 +1646,19 @@ export class GraphExplorerView extends ItemView {
         });
       }
 
+      const drag = { index: null as number | null };
+
       this.settings.colorRules.forEach((rule, index) => {
         const ruleEl = colorRulesContainer.createDiv({ cls: 'hyper-color-rule' });
 
         const ruleHeader = ruleEl.createDiv({ cls: 'hyper-color-rule-header' });
+        this.makeRuleReorderable(ruleEl, ruleHeader, this.settings.colorRules, index, drag, () => {
+          this.notifyVisualSettingChange('color-rules');
+          renderColorRules();
+        });
+
+        const countEl = ruleHeader.createSpan({ cls: 'hyper-color-rule-count' });
+        this.colorRuleCountEls.set(rule.id, countEl);
 
         const toggleBtn = createIconButton(rule.enabled ? 'eye' : 'eye-off', () => {
           rule.enabled = !rule.enabled;
@@ -876,31 +1688,75 @@ export class GraphExplorerView extends ItemView {
         const typeRow = ruleBody.createDiv({ cls: 'hyper-color-rule-row' });
         typeRow.createEl('label', { text: 'Type' });
         const typeSelect = typeRow.createEl('select');
-        (['tag', 'path', 'filename'] as ColorRuleType[]).forEach((type) => {
+        (Object.keys(COLOR_RULE_TYPE_LABELS) as ColorRuleType[]).forEach((type) => {
           const option = document.createElement('option');
           option.value = type;
-          option.textContent = type.charAt(0).toUpperCase() + type.slice(1);
+          option.textContent = COLOR_RULE_TYPE_LABELS[type];
           typeSelect.appendChild(option);
         });
         typeSelect.value = rule.type;
         typeSelect.addEventListener('change', () => {
           rule.type = typeSelect.value as ColorRuleType;
+          if (rule.type === 'group' && !rule.conditions?.length) {
+            rule.match = rule.match ?? 'all';
+            rule.conditions = [{ type: 'tag', pattern: '' }];
+          }
           this.notifyVisualSettingChange('color-rules');
+          renderColorRules();
         });
 
-        const patternRow = ruleBody.createDiv({ cls: 'hyper-color-rule-row' });
-        patternRow.createEl('label', { text: 'Pattern' });
-        const patternInput = patternRow.createEl('input', {
-          attr: {
-            type: 'text',
-            placeholder: rule.type === 'tag' ? 'tag1, tag2 or tag1 tag2' : '/regex/ or plain text',
-          },
-        });
-        patternInput.value = rule.pattern;
-        patternInput.addEventListener('input', () => {
-          rule.pattern = patternInput.value;
-          this.notifyVisualSettingChange('color-rules');
-        });
+        if (rule.type === 'group') {
+          const matchRow = ruleBody.createDiv({ cls: 'hyper-color-rule-row' });
+          matchRow.createEl('label', { text: 'Match' });
+          const matchSelect = matchRow.createEl('select');
+          createOption(matchSelect, { id: 'all', label: 'All conditions (AND)' });
+          createOption(matchSelect, { id: 'any', label: 'Any condition (OR)' });
+          matchSelect.value = rule.match ?? 'all';
+          matchSelect.addEventListener('change', () => {
+            rule.match = matchSelect.value as 'all' | 'any';
+            this.notifyVisualSettingChange('color-rules');
+          });
+
+          const conditions = rule.conditions ?? [];
+          rule.conditions = conditions;
+          conditions.forEach((condition, conditionIndex) => {
+            const conditionEl = ruleBody.createDiv({ cls: 'hyper-color-rule-condition' });
+            const conditionHeader = conditionEl.createDiv({ cls: 'hyper-color-rule-row hyper-color-rule-condition-header' });
+            const conditionType = conditionHeader.createEl('select', { attr: { 'aria-label': 'Condition type' } });
+            COLOR_RULE_CONDITION_TYPES.forEach((type) => {
+              createOption(conditionType, { id: type, label: COLOR_RULE_TYPE_LABELS[type] });
+            });
+            conditionType.value = condition.type;
+            conditionType.addEventListener('change', () => {
+              condition.type = conditionType.value as ColorRuleConditionType;
+              this.notifyVisualSettingChange('color-rules');
+              renderColorRules();
+            });
+            const removeBtn = createIconButton('x', () => {
+              conditions.splice(conditionIndex, 1);
+              this.notifyVisualSettingChange('color-rules');
+              renderColorRules();
+            }, {
+              title: 'Remove condition',
+              ariaLabel: 'Remove condition',
+            });
+            removeBtn.classList.add('hyper-color-rule-delete');
+            conditionHeader.appendChild(removeBtn);
+            this.renderColorConditionFields(conditionEl, condition);
+          });
+
+          const addConditionBtn = ruleBody.createEl('button', {
+            text: 'Add condition',
+            cls: 'hyper-add-condition-btn',
+          });
+          addConditionBtn.addEventListener('click', () => {
+            conditions.push({ type: 'property', pattern: '', property: '', operator: 'equals' });
+            this.notifyVisualSettingChange('color-rules');
+            renderColorRules();
+          });
+        } else {
+          this.renderColorConditionFields(ruleBody, rule as ColorRuleCondition);
+        }
 
         const colorRow = ruleBody.createDiv({ cls: 'hyper-color-rule-row' });
         colorRow.createEl('label', { text: 'Color' });
@@ -914,8 +1770,21 @@ export class GraphExplorerView extends ItemView {
           rule.color = colorInput.value;
           this.notifyVisualSettingChange('color-rules');
         });
+
+        const shapeRow = ruleBody.createDiv({ cls: 'hyper-color-rule-row' });
+        shapeRow.createEl('label', { text: 'Shape' });
+        const shapeSelect = shapeRow.createEl('select');
+        createOption(shapeSelect, { id: '', label: 'Category default' });
+        GLYPH_SHAPES.forEach((shape) => createOption(shapeSelect, { id: shape, label: GLYPH_LABELS[shape] }));
+        shapeSelect.value = rule.shape ?? '';
+        shapeSelect.addEventListener('change', () => {
+          rule.shape = isGlyphShape(shapeSelect.value) ? shapeSelect.value : undefined;
+          this.notifyVisualSettingChange('color-rules');
+        });
       });
 
+      this.renderColorRuleCounts();
+
       const addRuleBtn = colorRulesContainer.createEl('button', {
         text: 'Add Rule',
         cls: 'hyper-add-rule-btn',
@@ -935,6 +1804,542 @@ export class GraphExplorerView extends ItemView {
     };
 
     renderColorRules();
+
+    body.createEl('h4', { text: 'Custom Sizes' });
+    body.createEl('p', {
+      text: 'Each note is sized by the first rule that has a value for it; other notes keep their link-count size.',
+      cls: 'hyper-color-rules-hint',
+    });
+    const sizeRulesContainer = body.createDiv({ cls: 'hyper-color-rules-container' });
+
+    const renderSizeRules = () => {
+      sizeRulesContainer.empty();
+
+      if (this.settings.sizeRules.length === 0) {
+        sizeRulesContainer.createEl('p', {
+          text: 'No size rules. Click "Add Size Rule" to create one.',
+          cls: 'hyper-color-rules-empty'
+        });
+      }
+
+      const drag = { index: null as number | null };
+
+      this.settings.sizeRules.forEach((rule, index) => {
+        const ruleEl = sizeRulesContainer.createDiv({ cls: 'hyper-color-rule' });
+
+        const ruleHeader = ruleEl.createDiv({ cls: 'hyper-color-rule-header' });
+        this.makeRuleReorderable(ruleEl, ruleHeader, this.settings.sizeRules, index, drag, () => {
+          this.notifyVisualSettingChange('size-rules');
+          renderSizeRules();
+        });
+        ruleHeader.createSpan({ cls: 'hyper-color-rule-count', text: sizeRuleLabel(rule) });
+
+        const toggleBtn = createIconButton(rule.enabled ? 'eye' : 'eye-off', () => {
+          rule.enabled = !rule.enabled;
+          this.notifyVisualSettingChange('size-rules');
+          renderSizeRules();
+        }, {
+          title: rule.enabled ? 'Disable rule' : 'Enable rule',
+          ariaLabel: rule.enabled ? 'Disable rule' : 'Enable rule',
+        });
+        toggleBtn.classList.add('hyper-color-rule-toggle');
+        if (!rule.enabled) toggleBtn.classList.add('is-disabled');
+        ruleHeader.appendChild(toggleBtn);
+
+        const deleteBtn = createIconButton('trash-2', () => {
+          this.settings.sizeRules.splice(index, 1);
+          this.notifyVisualSettingChange('size-rules');
+          renderSizeRules();
+        }, {
+          title: 'Delete rule',
+          ariaLabel: 'Delete rule',
+        });
+        deleteBtn.classList.add('hyper-color-rule-delete');
+        ruleHeader.appendChild(deleteBtn);
+
+        const ruleBody = ruleEl.createDiv({ cls: 'hyper-color-rule-body' });
+
+        const metricRow = ruleBody.createDiv({ cls: 'hyper-color-rule-row' });
+        metricRow.createEl('label', { text: 'Size by' });
+        const metricSelect = metricRow.createEl('select');
+        (Object.keys(SIZE_RULE_METRIC_LABELS) as SizeRuleMetric[]).forEach((metric) => {
+          createOption(metricSelect, { id: metric, label: SIZE_RULE_METRIC_LABELS[metric] });
+        });
+        metricSelect.value = rule.metric;
+        metricSelect.addEventListener('change', () => {
+          rule.metric = metricSelect.value as SizeRuleMetric;
+          this.notifyVisualSettingChange('size-rules');
+          renderSizeRules();
+        });
+
+        if (rule.metric === 'property') {
+          const propertyRow = ruleBody.createDiv({ cls: 'hyper-color-rule-row' });
+          propertyRow.createEl('label', { text: 'Property' });
+          const propertyInput = propertyRow.createEl('input', { attr: { type: 'text', placeholder: 'budget' } });
+          propertyInput.value = rule.property ?? '';
+          propertyInput.addEventListener('change', () => {
+            rule.property = propertyInput.value.trim();
+            this.notifyVisualSettingChange('size-rules');
+            renderSizeRules();
+          });
+        }
+      });
+
+      const addRuleBtn = sizeRulesContainer.createEl('button', {
+        text: 'Add Size Rule',
+        cls: 'hyper-add-rule-btn',
+      });
+      addRuleBtn.addEventListener('click', () => {
+        this.settings.sizeRules.push({
+          id: `size-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+          metric: 'property',
+          property: '',
+          enabled: true,
+        });
+        this.notifyVisualSettingChange('size-rules');
+        renderSizeRules();
+      });
+    };
+
+    renderSizeRules();
+
+    body.createEl('h4', { text: 'Node Shapes' });
+    Object.keys(DEFAULT_CATEGORY_GLYPHS).forEach((category) => {
+      const shapeRow = body.createDiv({ cls: 'hyper-config-row' });
+      const shapeId = `hyper-glyph-${category}-${uniqueSuffix}`;
+      shapeRow.createEl('label', { text: CATEGORY_GLYPH_LABELS[category] ?? category, attr: { for: shapeId } });
+      const shapeSelect = shapeRow.createEl('select', { attr: { id: shapeId } });
+      GLYPH_SHAPES.forEach((shape) => createOption(shapeSelect, { id: shape, label: GLYPH_LABELS[shape] }));
+      shapeSelect.value = resolveGlyph(category, null, this.settings.categoryGlyphs);
+      shapeSelect.addEventListener('change', () => {
+        if (!isGlyphShape(shapeSelect.value)) return;
+        this.settings.categoryGlyphs = { ...this.settings.categoryGlyphs, [category]: shapeSelect.value };
+        this.notifyVisualSettingChange('glyphs');
+      });
+    });
+
+    body.createEl('h4', { text: 'Edge Kinds' });
+    const edgeKindsContainer = body.createDiv({ cls: 'hyper-link-types-container' });
+    EDGE_KINDS.forEach((kind) => {
+      const style = edgeKindStyle(this.settings.edgeKindStyles, kind);
+      const updateStyle = (patch: Partial<EdgeKindStyle>) => {
+        const current = edgeKindStyle(this.settings.edgeKindStyles, kind);
+        this.settings.edgeKindStyles = { ...this.settings.edgeKindStyles, [kind]: { ...current, ...patch } };
+        this.notifyVisualSettingChange('edge-kinds');
+      };
+      const row = edgeKindsContainer.createDiv({ cls: 'hyper-link-type-row' });
+
+      const visibleToggle = row.createEl('input', { attr: { type: 'checkbox', 'aria-label': `Show ${EDGE_KIND_LABELS[kind].toLowerCase()}` } });
+      visibleToggle.checked = style.visible;
+      visibleToggle.addEventListener('change', () => updateStyle({ visible: visibleToggle.checked }));
+
+      row.createEl('span', { text: EDGE_KIND_LABELS[kind], cls: 'hyper-link-type-name' });
+
+      const dashSelect = row.createEl('select', { attr: { 'aria-label': `Line style for ${EDGE_KIND_LABELS[kind].toLowerCase()}` } });
+      EDGE_DASHES.forEach((dash) => createOption(dashSelect, { id: dash, label: EDGE_DASH_LABELS[dash] }));
+      dashSelect.value = style.dash;
+      dashSelect.addEventListener('change', () => updateStyle({ dash: dashSelect.value as EdgeDash }));
+
+      const colorInput = row.createEl('input', { attr: { type: 'color', 'aria-label': `Color for ${EDGE_KIND_LABELS[kind].toLowerCase()}` } });
+      colorInput.value = style.color ?? rgbToHex(edgeColor(kind === 'embed' ? 'embed' : 'reference'));
+      colorInput.title = style.color ? '' : 'Using each link type\'s color';
+      colorInput.addEventListener('input', () => updateStyle({ color: colorInput.value }));
+    });
+
+    body.createEl('h4', { text: 'Link Types' });
+    this.linkTypesContainerEl = body.createDiv({ cls: 'hyper-link-types-container' });
+    this.renderLinkTypeControls();
+
+    body.createEl('h4', { text: 'Datasets' });
+    this.datasetsContainerEl = body.createDiv({ cls: 'hyper-color-rules-container' });
+    this.renderDatasetControls();
+  }
+
+  /** Drag handle that moves a rule card within its priority list; `drag` is shared by one render pass. */
+  private makeRuleReorderable<T>(
+    ruleEl: HTMLElement,
+    headerEl: HTMLElement,
+    rules: T[],
+    index: number,
+    drag: { index: number | null },
+    onReorder: () => void
+  ): void {
+    const handle = headerEl.createSpan({ cls: 'hyper-color-rule-handle', attr: { 'aria-label': 'Drag to reorder' } });
+    setIcon(handle, 'grip-vertical');
+    handle.addEventListener('pointerdown', () => {
+      ruleEl.draggable = true;
+    });
+    // A press that never turns into a drag must not leave the whole rule draggable
+    // (it would swallow text selection in its inputs); once dragging, dragend resets it.
+    const releaseHandle = () => {
+      if (!ruleEl.classList.contains('is-dragging')) ruleEl.draggable = false;
+    };
+    handle.addEventListener('pointerup', releaseHandle);
+    handle.addEventListener('pointercancel', releaseHandle);
+    ruleEl.addEventListener('dragstart', (event) => {
+      drag.index = index;
+      event.dataTransfer?.setData('text/plain', String(index));
+      ruleEl.classList.add('is-dragging');
+    });
+    ruleEl.addEventListener('dragend', () => {
+      ruleEl.draggable = false;
+      ruleEl.classList.remove('is-dragging');
+    });
+    ruleEl.addEventListener('dragover', (event) => {
+      if (drag.index === null || drag.index === index) return;
+      event.preventDefault();
+      ruleEl.classList.add('is-drop-target');
+    });
+    ruleEl.addEventListener('dragleave', () => {
+      ruleEl.classList.remove('is-drop-target');
+    });
+    ruleEl.addEventListener('drop', (event) => {
+      event.preventDefault();
+      const from = drag.index;
+      drag.index = null;
+      if (from === null || from === index) return;
+      const [moved] = rules.splice(from, 1);
+      rules.splice(index, 0, moved);
+      onReorder();
+    });
+  }
+
+  /** Value range of each size rule on the loaded graph, drawn as small and large dots. */
+  private renderSizeLegend(): void {
+    const el = this.sizeLegendEl;
+    if (!el) return;
+    el.empty();
+    const legend = this.lastVaultGraphData?.sizeLegend ?? [];
+    if (legend.length === 0) {
+      el.style.display = 'none';
+      return;
+    }
+    el.createDiv({ cls: 'hyper-size-legend-title', text: 'Node size' });
+    legend.forEach((entry) => {
+      const row = el.createDiv({ cls: 'hyper-size-legend-row' });
+      row.createSpan({ cls: 'hyper-size-legend-label', text: entry.label });
+      row.createSpan({ cls: 'hyper-size-legend-dot is-small' });
+      row.createSpan({ text: formatLegendValue(entry.min) });
+      row.createSpan({ cls: 'hyper-size-legend-dot is-large' });
+      row.createSpan({ text: formatLegendValue(entry.max) });
+    });
+    el.style.display = this.uiVisible ? '' : 'none';
+  }
+
+  /** Pattern inputs for one condition; property conditions add a key and an operator. */
+  private renderColorConditionFields(container: HTMLElement, condition: ColorRuleCondition): void {
+    if (condition.type === 'property') {
+      const propertyRow = container.createDiv({ cls: 'hyper-color-rule-row' });
+      propertyRow.createEl('label', { text: 'Property' });
+      const propertyInput = propertyRow.createEl('input', { attr: { type: 'text', placeholder: 'status' } });
+      propertyInput.value = condition.property ?? '';
+      propertyInput.addEventListener('input', () => {
+        condition.property = propertyInput.value;
+        this.notifyVisualSettingChange('color-rules');
+      });
+
+      const operatorRow = container.createDiv({ cls: 'hyper-color-rule-row' });
+      operatorRow.createEl('label', { text: 'Operator' });
+      const operatorSelect = operatorRow.createEl('select');
+      (Object.keys(PROPERTY_OPERATOR_LABELS) as PropertyOperator[]).forEach((operator) => {
+        createOption(operatorSelect, { id: operator, label: PROPERTY_OPERATOR_LABELS[operator] });
+      });
+      operatorSelect.value = condition.operator ?? 'equals';
+
+      const valueRow = container.createDiv({ cls: 'hyper-color-rule-row' });
+      valueRow.createEl('label', { text: 'Value' });
+      const valueInput = valueRow.createEl('input', { attr: { type: 'text', placeholder: 'done, 3, 2024-01-01 or /regex/' } });
+      valueInput.value = condition.pattern;
+      valueInput.addEventListener('input', () => {
+        condition.pattern = valueInput.value;
+        this.notifyVisualSettingChange('color-rules');
+      });
+      const syncValueRow = () => {
+        valueRow.style.display = operatorSelect.value === 'exists' ? 'none' : '';
+      };
+      syncValueRow();
+      operatorSelect.addEventListener('change', () => {
+        condition.operator = operatorSelect.value as PropertyOperator;
+        syncValueRow();
+        this.notifyVisualSettingChange('color-rules');
+      });
+      return;
+    }
+
+    const patternRow = container.createDiv({ cls: 'hyper-color-rule-row' });
+    patternRow.createEl('label', { text: 'Pattern' });
+    const patternInput = patternRow.createEl('input', {
+      attr: {
+        type: 'text',
+        placeholder: condition.type === 'tag' ? 'tag1, tag2 or tag1 tag2' : '/regex/ or plain text',
+      },
+    });
+    patternInput.value = condition.pattern;
+    patternInput.addEventListener('input', () => {
+      condition.pattern = patternInput.value;
+      this.notifyVisualSettingChange('color-rules');
+    });
+  }
+
+  /** Shows how many notes of the loaded graph each color rule matches. */
+  private renderColorRuleCounts(): void {
+    this.colorRuleCountEls.forEach((el, id) => {
+      const count = this.colorRuleMatches?.[id];
+      el.textContent = count === undefined ? '' : `${count} ${count === 1 ? 'match' : 'matches'}`;
+    });
+  }
+
+  /** Saves a dataset edit; only edits that change what the active dataset queries reload the graph. */
+  private notifyDatasetChange(dataset: CustomDataset, queryChanged = true): void {
+    const isActive = this.selectedDataset === customDatasetOptionId(dataset);
+    this.renderDatasetSelect();
+    this.notifyVisualSettingChange(isActive && queryChanged ? 'active-dataset' : 'datasets');
+  }
+
+  private renderDatasetControls(): void {
+    const container = this.datasetsContainerEl;
+    if (!container) return;
+    container.empty();
+
+    if (this.settings.customDatasets.length === 0) {
+      container.createEl('p', {
+        text: 'No saved datasets. Click "Add Dataset" to define one.',
+        cls: 'hyper-color-rules-empty',
+      });
+    }
+
+    this.settings.customDatasets.forEach((dataset, index) => {
+      const datasetEl = container.createDiv({ cls: 'hyper-color-rule' });
+      const header = datasetEl.createDiv({ cls: 'hyper-color-rule-header' });
+      const nameInput = header.createEl('input', {
+        cls: 'hyper-dataset-name',
+        attr: { type: 'text', placeholder: 'Dataset name', 'aria-label': 'Dataset name' },
+      });
+      nameInput.value = dataset.name;
+      nameInput.addEventListener('input', () => {
+        dataset.name = nameInput.value.trim() || 'Untitled dataset';
+        this.notifyDatasetChange(dataset, false);
+      });
+
+      const deleteBtn = createIconButton('trash-2', () => {
+        this.settings.customDatasets.splice(index, 1);
+        const wasActive = this.selectedDataset === customDatasetOptionId(dataset);
+        if (wasActive) this.selectedDataset = DATASET_OPTIONS[0].id;
+        this.renderDatasetSelect();
+        this.notifyVisualSettingChange('datasets');
+        this.renderDatasetControls();
+        if (wasActive) void this.loadSelectedDataset();
+      }, {
+        title: 'Delete dataset',
+        ariaLabel: 'Delete dataset',
+      });
+      deleteBtn.classList.add('hyper-color-rule-delete');
+      header.appendChild(deleteBtn);
+
+      const bodyEl = datasetEl.createDiv({ cls: 'hyper-color-rule-body' });
+
+      const scopeRow = bodyEl.createDiv({ cls: 'hyper-color-rule-row' });
+      scopeRow.createEl('label', { text: 'Scope' });
+      const scopeSelect = scopeRow.createEl('select');
+      createOption(scopeSelect, { id: 'local', label: 'Local (grow from root)' });
+      createOption(scopeSelect, { id: 'global', label: 'Global (limit to root)' });
+      scopeSelect.value = dataset.scope;
+      scopeSelect.addEventListener('change', () => {
+        dataset.scope = scopeSelect.value as CustomDatasetScope;
+        syncDepthRows();
+        this.notifyDatasetChange(dataset);
+      });
+
+      const rootRow = bodyEl.createDiv({ cls: 'hyper-color-rule-row' });
+      rootRow.createEl('label', { text: 'Root' });
+      const rootTypeSelect = rootRow.createEl('select');
+      (Object.keys(DATASET_ROOT_LABELS) as CustomDatasetRootType[]).forEach((type) => {
+        createOption(rootTypeSelect, { id: type, label: DATASET_ROOT_LABELS[type] });
+      });
+      rootTypeSelect.value = dataset.rootType;
+      const rootInput = rootRow.createEl('input', { attr: { type: 'text' } });
+      rootInput.value = dataset.root;
+      const rootErrorEl = rootRow.createDiv({ cls: 'hyper-filter-error' });
+      rootErrorEl.style.display = 'none';
+      const syncRootInput = () => {
+        const placeholders: Record<CustomDatasetRootType, string> = {
+          active: '',
+          note: 'Projects/Alpha',
+          folder: 'Projects/',
+          tag: '#project',
+          search: 'tag:#project -path:archive/',
+          'open-tabs': '',
+          selection: '',
+        };
+        rootInput.placeholder = placeholders[dataset.rootType];
+        rootInput.style.display = placeholders[dataset.rootType] ? '' : 'none';
+        if (dataset.rootType === 'search') {
+          renderFilterError(rootErrorEl, rootInput, dataset.root);
+        } else {
+          rootErrorEl.empty();
+          rootErrorEl.style.display = 'none';
+          rootInput.classList.remove('is-invalid');
+        }
+      };
+      syncRootInput();
+      rootTypeSelect.addEventListener('change', () => {
+        dataset.rootType = rootTypeSelect.value as CustomDatasetRootType;
+        syncRootInput();
+        this.notifyDatasetChange(dataset);
+      });
+      rootInput.addEventListener('input', () => {
+        dataset.root = rootInput.value;
+        syncRootInput();
+        if (dataset.rootType === 'search' && rootInput.classList.contains('is-invalid')) return;
+        this.notifyDatasetChange(dataset);
+      });
+
+      const directionRow = bodyEl.createDiv({ cls: 'hyper-color-rule-row' });
+      directionRow.createEl('label', { text: 'Follow' });
+      const directionSelect = directionRow.createEl('select');
+      (Object.keys(LOCAL_DIRECTION_LABELS) as LocalScopeDirection[]).forEach((direction) => {
+        createOption(directionSelect, { id: direction, label: LOCAL_DIRECTION_LABELS[direction] });
+      });
+      directionSelect.value = dataset.direction ?? 'both';
+      directionSelect.addEventListener('change', () => {
+        dataset.direction = directionSelect.value as LocalScopeDirection;
+        syncDepthRows();
+        this.notifyDatasetChange(dataset);
+      });
+
+      const depthRow = bodyEl.createDiv({ cls: 'hyper-color-rule-row' });
+      depthRow.createEl('label', { text: 'Outgoing depth' });
+      const depthInput = depthRow.createEl('input', { attr: { type: 'number', min: '0', max: '8', step: '1' } });
+      depthInput.value = String(dataset.depth);
+      depthInput.addEventListener('change', () => {
+        dataset.depth = clampInteger(depthInput.value, 0, 8, dataset.depth);
+        depthInput.value = String(dataset.depth);
+        this.notifyDatasetChange(dataset);
+      });
+
+      const backlinkDepthRow = bodyEl.createDiv({ cls: 'hyper-color-rule-row' });
+      backlinkDepthRow.createEl('label', { text: 'Backlink depth' });
+      const backlinkDepthInput = backlinkDepthRow.createEl('input', { attr: { type: 'number', min: '0', max: '8', step: '1' } });
+      backlinkDepthInput.value = String(dataset.backlinkDepth ?? dataset.depth);
+      backlinkDepthInput.addEventListener('change', () => {
+        dataset.backlinkDepth = clampInteger(backlinkDepthInput.value, 0, 8, dataset.backlinkDepth ?? dataset.depth);
+        backlinkDepthInput.value = String(dataset.backlinkDepth);
+        this.notifyDatasetChange(dataset);
+      });
+
+      const syncDepthRows = () => {
+        const isLocal = dataset.scope === 'local';
+        const direction = dataset.direction ?? 'both';
+        directionRow.style.display = isLocal ? '' : 'none';
+        depthRow.style.display = isLocal && direction !== 'backlinks' ? '' : 'none';
+        backlinkDepthRow.style.display = isLocal && direction !== 'outgoing' ? '' : 'none';
+      };
+      syncDepthRows();
+
+      const maxNodesRow = bodyEl.createDiv({ cls: 'hyper-color-rule-row' });
+      maxNodesRow.createEl('label', { text: 'Max nodes' });
+      const maxNodesInput = maxNodesRow.createEl('input', { attr: { type: 'number', min: '1', max: '5000', step: '10' } });
+      maxNodesInput.value = String(dataset.maxNodes);
+      maxNodesInput.addEventListener('change', () => {
+        dataset.maxNodes = clampInteger(maxNodesInput.value, 1, 5000, dataset.maxNodes);
+        maxNodesInput.value = String(dataset.maxNodes);
+        this.notifyDatasetChange(dataset);
+      });
+
+      const toggles: Array<{ label: string; key: 'includeCanvas' | 'includeAttachments' }> = [
+        { label: 'Include canvases', key: 'includeCanvas' },
+        { label: 'Include attachments', key: 'includeAttachments' },
+      ];
+      toggles.forEach(({ label, key }) => {
+        const toggleRow = bodyEl.createDiv({ cls: 'hyper-color-rule-row hyper-dataset-toggle' });
+        const toggleLabel = toggleRow.createEl('label');
+        const checkbox = toggleLabel.createEl('input', { attr: { type: 'checkbox' } });
+        toggleLabel.appendText(label);
+        checkbox.checked = dataset[key];
+        checkbox.addEventListener('change', () => {
+          dataset[key] = checkbox.checked;
+          this.notifyDatasetChange(dataset);
+        });
+      });
+
+      const filterRow = bodyEl.createDiv({ cls: 'hyper-color-rule-row' });
+      filterRow.createEl('label', { text: 'Filter' });
+      const filterInput = filterRow.createEl('input', {
+        attr: { type: 'text', placeholder: 'links>1 -path:archive/', spellcheck: 'false' },
+      });
+      filterInput.value = dataset.filter;
+      const filterErrorEl = filterRow.createDiv({ cls: 'hyper-filter-error' });
+      renderFilterError(filterErrorEl, filterInput, dataset.filter);
+      filterInput.addEventListener('input', () => {
+        if (!renderFilterError(filterErrorEl, filterInput, filterInput.value)) return;
+        dataset.filter = filterInput.value;
+        this.notifyDatasetChange(dataset);
+      });
+    });
+
+    const addDatasetBtn = container.createEl('button', {
+      text: 'Add Dataset',
+      cls: 'hyper-add-rule-btn',
+    });
+    addDatasetBtn.addEventListener('click', () => {
+      const dataset = createCustomDataset(this.settings.customDatasets);
+      this.settings.customDatasets.push(dataset);
+      this.selectedDataset = customDatasetOptionId(dataset);
+      this.renderDatasetSelect();
+      this.notifyVisualSettingChange('datasets');
+      this.renderDatasetControls();
+      void this.loadSelectedDataset();
+    });
+  }
+
+  private renderLinkTypeControls(): void {
+    const container = this.linkTypesContainerEl;
+    if (!container) return;
+    container.empty();
+
+    const styles = this.settings.linkTypeStyles;
+    const types = Array.from(new Set([...this.availableLinkTypes, ...Object.keys(styles)])).sort();
+    if (types.length === 0) {
+      container.createEl('p', {
+        text: 'Link types appear once a vault graph is loaded.',
+        cls: 'hyper-color-rules-empty',
+      });
+      return;
+    }
+
+    types.forEach((type) => {
+      const style = styles[type];
+      const row = container.createDiv({ cls: 'hyper-link-type-row' });
+
+      const visibleToggle = row.createEl('input', { attr: { type: 'checkbox', 'aria-label': `Show ${type} links` } });
+      visibleToggle.checked = style?.visible ?? true;
+      visibleToggle.addEventListener('change', () => {
+        styles[type] = { visible: visibleToggle.checked, color: styles[type]?.color ?? null };
+        this.notifyVisualSettingChange('link-types');
+      });
+
+      row.createEl('span', { text: type, cls: 'hyper-link-type-name' });
+
+      const colorInput = row.createEl('input', { attr: { type: 'color', 'aria-label': `Color for ${type} links` } });
+      colorInput.value = style?.color ?? rgbToHex(edgeColor(type));
+      colorInput.addEventListener('input', () => {
+        styles[type] = { visible: styles[type]?.visible ?? true, color: colorInput.value };
+        this.notifyVisualSettingChange('link-types');
+      });
+
+      if (style) {
+        const resetBtn = createIconButton('rotate-ccw', () => {
+          delete styles[type];
+          this.notifyVisualSettingChange('link-types');
+          this.renderLinkTypeControls();
+        }, {
+          title: 'Reset link type style',
+          ariaLabel: `Reset ${type} link style`,
+        });
+        resetBtn.classList.add('hyper-color-rule-delete');
+        row.appendChild(resetBtn);
+      }
+    });
   }
 
   private buildAnalysisModal() {
@@ -1224,6 +2629,7 @@ export class GraphExplorerView extends ItemView {
     if (this.analysisModalEl) this.analysisModalEl.style.display = this.uiVisible && this.analysisVisible ? '' : 'none';
     if (this.nodeInfoEl) this.nodeInfoEl.style.display = this.uiVisible && this.nodeInfoEl.textContent ? '' : 'none';
     if (this.imageStripEl) this.imageStripEl.style.display = this.uiVisible && this.imageStripEl.childElementCount > 0 ? '' : 'none';
+    if (this.sizeLegendEl) this.sizeLegendEl.style.display = this.uiVisible && this.sizeLegendEl.childElementCount > 0 ? '' : 'none';
   }
 
   private toggleFullscreen() {
@@ -1354,9 +2760,10 @@ export class GraphExplorerView extends ItemView {
   }
 
   async loadSelectedDataset(force = false) {
-    const option = DATASET_OPTIONS.find((item) => item.id === this.selectedDataset) ?? DATASET_OPTIONS[0];
+    const option = this.findDatasetOption(this.selectedDataset) ?? DATASET_OPTIONS[0];
     try {
       this.showStatus(`Loading ${option.label}…`);
+      this.layoutRunner.cancel();
       this.lastGraphPayload = null;
       this.selectNode(null, { updateDetails: true, resetFocus: true });
 
@@ -1369,6 +2776,9 @@ export class GraphExplorerView extends ItemView {
         this.animationProgress = 1;
       }
 
+      this.lastVaultGraphData = null;
+      this.subNodeParents.clear();
+      let layout: PendingForceLayout | null = null;
       if (option.type === 'shape' && option.objectName) {
         this.activeObject = getObjectByName(option.objectName);
         this.lastLocalRootPath = null;
@@ -1378,33 +2788,35 @@ export class GraphExplorerView extends ItemView {
           graphData = getNarrativeGraphSample();
           this.lastLocalRootPath = null;
         } else if (option.vaultOptions) {
-          const localRoot = option.vaultOptions.scope === 'local'
-            ? this.resolveLocalRootFile()
-            : undefined;
-          const opts: VaultGraphOptions = {
-            ...option.vaultOptions,
-            rootFile: localRoot,
-            showOnlyExistingFiles: this.settings.showOnlyExistingFiles,
-            colorRules: this.settings.colorRules,
-          };
-          this.lastLocalRootPath = opts.scope === 'local' ? (opts.rootFile?.path ?? null) : null;
-          if (opts.scope === 'local' && !opts.rootFile) {
+          const { vaultOptions, rootFile, error } = this.prepareDatasetOptions(option);
+          if (error) {
+            new Notice(`${option.label}: ${error}`);
+          }
+          const isLocal = vaultOptions.scope === 'local';
+          this.lastLocalRootPath = isLocal ? (rootFile?.path ?? null) : null;
+          if (isLocal && !rootFile && !vaultOptions.seedPaths?.length && !error) {
             new Notice('No active note found. Loading local graph from recent vault notes.');
           }
-          graphData = await buildVaultGraph(this.app, opts);
+          graphData = this.commitVaultGraph(await this.buildStyledVaultGraph(vaultOptions, rootFile));
         } else {
           graphData = { nodes: [], links: [], summary: '', query: '' };
           this.lastLocalRootPath = null;
         }
-        this.activeObject = replaceNarrativeGraph(graphData, { graphName: option.label });
+        const built = replaceNarrativeGraphDeferred(graphData, this.graphBuildOptions(option.label));
+        this.activeObject = built.object;
+        layout = built.layout;
       }
       this.activeHighlight = null;
       this.renderer.setObject(this.activeObject);
+      this.settleLayout(layout);
+      this.updateSliceRange();
+      this.refreshGrowthTimeline();
       this.transformedVertices = new Array(this.activeObject.vertices.length).fill(null) as Vec4[];
       this.recomputeAnalysis();
       this.hideVisibleLabels();
       this.markLabelsDirty(true);
-      this.showStatus(`${option.label}`);
+      this.showStatus(datasetStatusText(option.label, this.lastVaultGraphData));
+      this.renderSizeLegend();
       this.applyPendingFocus(true);
     } catch (error) {
       console.error('[4d-graph] Failed to load dataset', error);
@@ -1413,26 +2825,278 @@ export class GraphExplorerView extends ItemView {
     }
   }
 
+  /**
+   * Settles a fresh graph's force layout: in the live simulation when live
+   * physics is on, otherwise in a worker, redrawing as intermediate layouts
+   * arrive. Patched graphs keep their positions and only reheat a live
+   * simulation, unless they land while the worker is still settling: then the
+   * layout restarts from the patched positions.
+   */
+  private settleLayout(layout: PendingForceLayout | null, patched = false): void {
+    this.endNodeDrag();
+    this.forceLayout = layout;
+    this.liveLayout = null;
+    if (layout && this.settings.livePhysics) {
+      this.layoutRunner.cancel();
+      this.startLivePhysics(layout, patched ? LIVE_REHEAT_ALPHA : 1);
+      return;
+    }
+    this.updatePhysicsControls();
+    if (!layout || !shouldApplyForceLayout(layout.config)) {
+      this.layoutRunner.cancel();
+      return;
+    }
+    const graph = this.activeObject;
+    const onProgress = (positions: Vec4[]) => {
+      if (this.activeObject !== graph) return;
+      layout.apply(positions);
+      this.markLabelsDirty();
+    };
+    const run = patched ? this.layoutRunner.rerun(layout, onProgress) : this.layoutRunner.run(layout, onProgress);
+    void run?.then((result) => {
+      if (result === 'done' && this.activeObject === graph) this.updateSliceRange();
+    });
+  }
+
+  private getDatasetOptions(): DatasetOption[] {
+    return [
+      ...DATASET_OPTIONS,
+      ...this.settings.customDatasets.map((dataset): DatasetOption => ({
+        id: customDatasetOptionId(dataset),
+        label: dataset.name,
+        type: 'graph',
+        vaultOptions: { scope: dataset.scope },
+        customDataset: dataset,
+      })),
+    ];
+  }
+
+  private findDatasetOption(id: string): DatasetOption | undefined {
+    return this.getDatasetOptions().find((item) => item.id === id);
+  }
+
+  private renderDatasetSelect(): void {
+    if (!this.datasetSelectEl) return;
+    this.datasetSelectEl.empty();
+    this.getDatasetOptions().forEach((option) => createOption(this.datasetSelectEl, option));
+    this.datasetSelectEl.value = this.selectedDataset;
+  }
+
+  selectDataset(id: string): void {
+    if (!this.findDatasetOption(id)) return;
+    this.selectedDataset = id;
+    if (this.datasetSelectEl) this.datasetSelectEl.value = id;
+    void this.loadSelectedDataset();
+  }
+
+  /** Local datasets rooted at the active note; seeded ones ignore it (open tabs reload on tab changes instead). */
+  private datasetFollowsActiveNote(option: DatasetOption | undefined): boolean {
+    if (!option?.vaultOptions || option.vaultOptions.scope !== 'local' || option.seedRoot) return false;
+    return !option.customDataset || option.customDataset.rootType === 'active';
+  }
+
+  private prepareDatasetOptions(option: DatasetOption): { vaultOptions: VaultGraphOptions; rootFile: TFile | null; error: string | null } {
+    const dataset = option.customDataset;
+    if (!dataset) {
+      if (option.vaultOptions?.scope !== 'local') {
+        return { vaultOptions: option.vaultOptions ?? { scope: 'global' }, rootFile: null, error: null };
+      }
+      const vaultOptions: VaultGraphOptions = {
+        ...option.vaultOptions,
+        depth: this.settings.localDepth,
+        backlinkDepth: this.settings.localBacklinkDepth,
+        direction: this.settings.localDirection,
+      };
+      if (!option.seedRoot) {
+        return { vaultOptions, rootFile: this.resolveLocalRootFile(), error: null };
+      }
+      const activePath = this.app.workspace.getActiveFile()?.path ?? null;
+      const context = createDatasetRootContext(this.app, activePath, true, Array.from(this.seedSelection));
+      const { paths, error } = resolveRootPaths(option.seedRoot, '', context);
+      if (option.seedRoot === 'open-tabs') this.lastOpenTabsKey = openTabsKey(context.openPaths);
+      vaultOptions.seedPaths = paths;
+      return { vaultOptions, rootFile: null, error };
+    }
+
+    const vaultOptions: VaultGraphOptions = {
+      scope: dataset.scope,
+      depth: dataset.depth,
+      backlinkDepth: dataset.backlinkDepth,
+      direction: dataset.direction,
+      maxNodes: dataset.maxNodes,
+      includeCanvas: dataset.includeCanvas,
+      includeAttachments: dataset.includeAttachments,
+      filter: compileFilterQuery(dataset.filter).predicate,
+    };
+    if (dataset.rootType === 'active') {
+      const rootFile = dataset.scope === 'local' ? this.resolveLocalRootFile() : null;
+      return { vaultOptions, rootFile, error: null };
+    }
+
+    const activePath = this.app.workspace.getActiveFile()?.path ?? null;
+    const context = createDatasetRootContext(this.app, activePath, dataset.includeCanvas, Array.from(this.seedSelection));
+    const { paths, error } = resolveDatasetRootPaths(dataset, context);
+    const { rootPath, seedPaths, candidatePaths } = scopeDatasetRoot(dataset, paths);
+    if (seedPaths) vaultOptions.seedPaths = seedPaths;
+    if (candidatePaths) vaultOptions.candidatePaths = candidatePaths;
+    const entry = rootPath ? this.app.vault.getAbstractFileByPath(rootPath) : null;
+    return { vaultOptions, rootFile: entry instanceof TFile ? entry : null, error };
+  }
+
+  /** Builds the vault graph with link styles applied, leaving view state alone until `commitVaultGraph`. */
+  private async buildStyledVaultGraph(vaultOptions: VaultGraphOptions, rootFile: TFile | null | undefined): Promise<StyledVaultGraph> {
+    const labelKey = this.labelKey();
+    const opts: VaultGraphOptions = {
+      ...vaultOptions,
+      rootFile,
+      showOnlyExistingFiles: this.settings.showOnlyExistingFiles,
+      includeTagNodes: this.settings.showTagNodes,
+      includeFolderNodes: this.settings.showFolderNodes,
+      includeSubNodes: this.settings.showSubNodes,
+      includeCanvasText: this.settings.showCanvasTextCards,
+      includeInlineFields: this.settings.showInlineFields,
+      labelSource: this.settings.labelSource,
+      labelTemplate: this.settings.labelTemplate,
+      filter: combineFilterPredicates([compileFilterQuery(this.settings.filterQuery).predicate, vaultOptions.filter ?? null]),
+      ranking: this.settings.globalRanking,
+      includeWordCounts: this.settings.axisBindings.some((binding) => binding.metric === 'word-count'),
+      colorRules: this.settings.colorRules,
+      sizeRules: this.settings.sizeRules,
+    };
+    const graphData = await buildVaultGraph(this.app, opts);
+    return {
+      data: {
+        ...graphData,
+        links: applyLinkTypeStyles(
+          applyEdgeKindStyles(graphData.links ?? [], this.settings.edgeKindStyles),
+          this.settings.linkTypeStyles
+        ),
+      },
+      linkTypes: collectLinkTypes(graphData.links ?? []),
+      labelKey,
+    };
+  }
+
+  /** Makes a freshly built vault graph the view's current one and returns it with collapsed sub-nodes folded. */
+  private commitVaultGraph({ data: graphData, linkTypes, labelKey }: StyledVaultGraph): GraphDataPayload {
+    this.resolvedLabelKey = labelKey;
+    this.availableLinkTypes = linkTypes;
+    this.renderLinkTypeControls();
+    this.colorRuleMatches = graphData.colorRuleMatches ?? null;
+    this.renderColorRuleCounts();
+    this.lastVaultGraphData = graphData;
+    this.renderSizeLegend();
+    this.subNodeParents = new Set(
+      (graphData.nodes ?? [])
+        .filter((node) => node.parent !== undefined)
+        .map((node) => String(node.parent))
+    );
+    return collapseSubNodes(graphData, this.collapsedSubNodeParents);
+  }
+
+  /**
+   * Applies a batch of vault edits to the loaded vault graph in place: nodes
+   * that survive keep their 4D positions and the selection is kept by id.
+   */
+  async applyVaultChanges(batch: VaultChangeBatch): Promise<void> {
+    const option = this.findDatasetOption(this.selectedDataset);
+    const previous = this.activeObject;
+    if (!option?.vaultOptions || !this.lastVaultGraphData || previous?.meta?.type !== 'graph') return;
+
+    const isLocal = option.vaultOptions.scope === 'local';
+    const nodeIds = new Set(previous.meta.nodes.map((node) => node.id));
+    if (isLocal && !isBatchRelevant(batch, nodeIds, this.app.metadataCache.resolvedLinks)) return;
+    if (isLocal && this.lastLocalRootPath && batch.removedPaths.includes(this.lastLocalRootPath)) {
+      await this.loadSelectedDataset(true);
+      return;
+    }
+
+    resolvedLinkDerivedCache.clear();
+    const prepared = this.prepareDatasetOptions(option);
+    const rootEntry = isLocal && this.lastLocalRootPath
+      ? this.app.vault.getAbstractFileByPath(this.lastLocalRootPath)
+      : null;
+    const rootFile = rootEntry instanceof TFile ? rootEntry : prepared.rootFile;
+    const selectedId = this.selectedNodeIndex !== null
+      ? previous.meta.nodes[this.selectedNodeIndex]?.id ?? null
+      : null;
+
+    const styled = await this.buildStyledVaultGraph(prepared.vaultOptions, rootFile);
+    if (this.activeObject !== previous) return;
+    const graphData = this.commitVaultGraph(styled);
+
+    this.lastGraphPayload = null;
+    const { object, layout } = patchNarrativeGraphObjectDeferred(previous as NarrativeGraph, graphData, this.graphBuildOptions(previous.name));
+    this.activeObject = object;
+    this.renderer.setObject(this.activeObject);
+    this.settleLayout(layout, true);
+    this.updateSliceRange();
+    this.refreshGrowthTimeline();
+    this.transformedVertices = new Array(this.activeObject.vertices.length).fill(null) as Vec4[];
+    this.recomputeAnalysis();
+    this.hideVisibleLabels();
+    this.markLabelsDirty(true);
+    const index = selectedId ? (this.activeObject.meta?.nodes.findIndex((node) => node.id === selectedId) ?? -1) : -1;
+    this.selectNode(index === -1 ? null : index, { resetFocus: false });
+  }
+
+  private toggleSubNodes(parentId: string, focusId: string) {
+    if (this.collapsedSubNodeParents.has(parentId)) {
+      this.collapsedSubNodeParents.delete(parentId);
+    } else {
+      this.collapsedSubNodeParents.add(parentId);
+    }
+    if (!this.lastVaultGraphData) return;
+    const previous = this.activeObject;
+    if (previous?.meta?.type !== 'graph') return;
+    const graphData = collapseSubNodes(this.lastVaultGraphData, this.collapsedSubNodeParents);
+    this.lastGraphPayload = null;
+    // Patch rather than rebuild so only the folded or unfolded sub-nodes move.
+    const { object, layout } = patchNarrativeGraphObjectDeferred(previous as NarrativeGraph, graphData, this.graphBuildOptions(previous.name));
+    this.activeObject = object;
+    this.activeHighlight = null;
+    this.renderer.setObject(this.activeObject);
+    this.settleLayout(layout, true);
+    this.updateSliceRange();
+    this.refreshGrowthTimeline();
+    this.transformedVertices = new Array(this.activeObject.vertices.length).fill(null) as Vec4[];
+    this.recomputeAnalysis();
+    this.hideVisibleLabels();
+    this.markLabelsDirty(true);
+    const index = this.activeObject.meta?.nodes.findIndex((node) => node.id === focusId) ?? -1;
+    this.selectNode(index === -1 ? null : index, { resetFocus: false });
+  }
+
   async handleActiveFileChange(file: TFile | null): Promise<void> {
     this.pendingFocusPath = file?.path ?? null;
-    if (this.selectedDataset === 'vault-local') {
-      const nextRootPath = file?.path ?? null;
-      if (nextRootPath === this.lastLocalRootPath && this.activeObject?.meta?.type === 'graph') {
-        this.applyPendingFocus(true);
+    const option = this.findDatasetOption(this.selectedDataset);
+    const graphLoaded = this.activeObject?.meta?.type === 'graph';
+    if (option?.seedRoot === 'open-tabs') {
+      const tabsKey = openTabsKey(gatherOpenTabPaths(this.app, true));
+      if (tabsKey !== this.lastOpenTabsKey || !graphLoaded) {
+        this.scheduleDatasetReload();
         return;
       }
-      if (this.localDatasetReloadDebounce !== null) {
-        window.clearTimeout(this.localDatasetReloadDebounce);
+    } else if (this.datasetFollowsActiveNote(option)) {
+      const nextRootPath = file?.path ?? null;
+      if (nextRootPath !== this.lastLocalRootPath || !graphLoaded) {
+        this.scheduleDatasetReload();
+        return;
       }
-      this.localDatasetReloadDebounce = window.setTimeout(() => {
-        this.localDatasetReloadDebounce = null;
-        void this.loadSelectedDataset(true);
-      }, 220);
-      return;
     }
     this.applyPendingFocus(true);
   }
 
+  private scheduleDatasetReload(): void {
+    if (this.localDatasetReloadDebounce !== null) {
+      window.clearTimeout(this.localDatasetReloadDebounce);
+    }
+    this.localDatasetReloadDebounce = window.setTimeout(() => {
+      this.localDatasetReloadDebounce = null;
+      void this.loadSelectedDataset(true);
+    }, 220);
+  }
+
   private applyPendingFocus(force = false) {
     if (!this.activeObject?.meta || this.activeObject.meta.type !== 'graph') {
       if (force) {
@@ -1499,6 +3163,28 @@ export class GraphExplorerView extends ItemView {
     }
   }
 
+  /** Nodes still fading in during growth playback slide out from the neighbour they grew from. */
+  private growNodesFromAnchors(): void {
+    const growth = this.state.graph.vertexGrowth;
+    const anchors = this.growthTimeline?.anchors;
+    if (!growth || !anchors) return;
+    for (let i = 0; i < this.transformedVertices.length; i += 1) {
+      const amount = growth[i] ?? 1;
+      const anchor = anchors[i];
+      if (amount >= 1 || anchor === null || anchor === undefined) continue;
+      const from = this.transformedVertices[anchor];
+      const to = this.transformedVertices[i];
+      if (!from || !to) continue;
+      const ease = this.easeOutCubic(amount);
+      this.transformedVertices[i] = [
+        from[0] + (to[0] - from[0]) * ease,
+        from[1] + (to[1] - from[1]) * ease,
+        from[2] + (to[2] - from[2]) * ease,
+        from[3] + (to[3] - from[3]) * ease,
+      ];
+    }
+  }
+
   private startAnimationLoop() {
     const loop = () => {
       this.animationId = requestAnimationFrame(loop);
@@ -1569,6 +3255,9 @@ export class GraphExplorerView extends ItemView {
       this.animationProgress = Math.min(1, this.animationProgress + (16 / this.animationDuration));
     }
 
+    this.updateGrowthPlayback(performance.now());
+    this.stepLivePhysics();
+
     const rotationMatrix = composeRotation(this.state.rotation);
     const easeProgress = this.easeOutCubic(this.animationProgress);
 
@@ -1588,6 +3277,7 @@ export class GraphExplorerView extends ItemView {
         this.transformedVertices[i] = targetVertex;
       }
     }
+    this.growNodesFromAnchors();
 
     if (this.state.projection.scaleTarget !== undefined) {
       this.state.projection.scale += (this.state.projection.scaleTarget - this.state.projection.scale) * 0.08;
@@ -1645,6 +3335,39 @@ export class GraphExplorerView extends ItemView {
     this.markLabelsDirty();
   }
 
+  private labelKey(): string {
+    return `${this.settings.labelSource}\n${this.settings.labelTemplate}`;
+  }
+
+  /** Re-resolves note labels in place after the label source or template changes, without reloading the graph. */
+  private relabelNodes(): void {
+    const key = this.labelKey();
+    if (key === this.resolvedLabelKey) return;
+    this.resolvedLabelKey = key;
+    const { labelSource, labelTemplate } = this.settings;
+    const labels = new Map<string, string>();
+    const labelFor = (id: string): string | null => {
+      if (!labels.has(id)) {
+        const file = this.app.vault.getAbstractFileByPath(id);
+        if (!(file instanceof TFile)) return null;
+        labels.set(id, resolveFileLabel(file, this.app.metadataCache.getFileCache(file), labelSource, labelTemplate));
+      }
+      return labels.get(id) ?? null;
+    };
+    // The raw payload is what sub-node folding rebuilds from, so it has to carry the new labels too.
+    this.lastVaultGraphData?.nodes?.forEach((node) => {
+      const label = labelFor(String(node.id));
+      if (label !== null) node.label = label;
+    });
+    const meta = this.activeObject?.meta;
+    if (meta?.type !== 'graph') return;
+    meta.nodes.forEach((node) => {
+      const label = labelFor(node.id);
+      if (label !== null) node.label = label;
+    });
+    this.markLabelsDirty(true);
+  }
+
   private markLabelsDirty(force = false): void {
     this.labelsDirty = true;
     if (force) {
@@ -1678,9 +3401,40 @@ export class GraphExplorerView extends ItemView {
       this.selectNode(null);
       return;
     }
+    if (event.shiftKey) {
+      this.toggleSeed(index);
+    }
     this.selectNode(index);
   }
 
+  private isSeedCandidate(index: number): boolean {
+    const node = this.lastGraphPayload?.labels[index];
+    return node ? this.app.vault.getAbstractFileByPath(node.id) instanceof TFile : false;
+  }
+
+  /** Adds or removes a note from the picked seeds, regrowing the graph if it is seeded from them. */
+  private toggleSeed(index: number): void {
+    const node = this.lastGraphPayload?.labels[index];
+    if (!node || !this.isSeedCandidate(index)) return;
+    if (this.seedSelection.has(node.id)) {
+      this.seedSelection.delete(node.id);
+    } else {
+      this.seedSelection.add(node.id);
+    }
+    this.lastRenderedNodeSignature = null;
+    this.markLabelsDirty(true);
+    if (this.usesSeedSelection()) {
+      void this.loadSelectedDataset(true);
+    } else {
+      this.showStatus(`${this.seedSelection.size} seed${this.seedSelection.size === 1 ? '' : 's'} picked`);
+    }
+  }
+
+  private usesSeedSelection(): boolean {
+    const option = this.findDatasetOption(this.selectedDataset);
+    return option?.seedRoot === 'selection' || option?.customDataset?.rootType === 'selection';
+  }
+
   private handleCanvasDoubleClick(event: MouseEvent) {
     const index = this.pickNodeFromEvent(event);
     if (index === null) return;
@@ -1701,12 +3455,14 @@ export class GraphExplorerView extends ItemView {
     let closestDistance = 0.14;
 
     const visibility = this.lastGraphPayload.vertexVisibility;
+    const growth = this.state.graph.vertexGrowth;
 
     for (let index = 0; index < this.lastGraphPayload.positions.length; index += 1) {
       const pos = this.lastGraphPayload.positions[index];
       if (!pos) continue;
       const visible = visibility ? (visibility[index] ?? 0) > 0.05 : true;
       if (!visible) continue;
+      if (growth && (growth[index] ?? 1) <= 0.05) continue;
       this.tempVec.set(pos[0], pos[1], pos[2]).project(camera);
       if (!Number.isFinite(this.tempVec.x) || !Number.isFinite(this.tempVec.y)) continue;
       const dx = this.tempVec.x - pointerX;
@@ -1725,9 +3481,7 @@ export class GraphExplorerView extends ItemView {
     if (!this.lastGraphPayload) return;
     const node = this.lastGraphPayload.labels[index];
     if (!node) return;
-    const raw = node.raw && typeof node.raw === 'object'
-      ? node.raw as Record<string, unknown>
-      : null;
+    const raw = nodeRawFields(node);
     const isMissing = raw?.isMissing === true || node.category === 'missing';
 
     const gallery = Array.isArray(node.media) ? (node.media as string[]) : [];
@@ -1739,7 +3493,12 @@ export class GraphExplorerView extends ItemView {
     this.nodeInfoEl.empty();
     const title = this.nodeInfoEl.createEl('h2');
     title.textContent = node.emoji ? `${node.emoji} ${node.label}` : node.label;
-    this.nodeInfoEl.createEl('p', { text: node.summary || (isMissing ? 'Unresolved link target.' : 'No summary available yet.') });
+    const previewFile = isMissing || raw?.isSubNode === true ? null : this.app.vault.getAbstractFileByPath(node.id);
+    if (previewFile instanceof TFile && previewFile.extension.toLowerCase() === 'md') {
+      void this.renderNotePreview(previewFile, this.nodeInfoEl.createDiv({ cls: 'hyper-note-preview' }));
+    } else {
+      this.nodeInfoEl.createEl('p', { text: node.summary || (isMissing ? 'Unresolved link target.' : 'No summary available yet.') });
+    }
 
     if (isMissing) {
       const sourceCount = Number(raw?.incomingSources ?? 0);
@@ -1754,6 +3513,12 @@ export class GraphExplorerView extends ItemView {
       if (detailParts.length > 0) {
         this.nodeInfoEl.createEl('p', { text: detailParts.join(' ') + '.' });
       }
+      const sourcePaths = Array.isArray(raw?.incomingSourcePaths) ? raw.incomingSourcePaths as string[] : [];
+      if (sourcePaths.length > 0) {
+        const names = sourcePaths.slice(0, 5).map((path) => path.split('/').pop()?.replace(/\.md$/i, '') ?? path);
+        const more = sourcePaths.length > names.length ? ` and ${sourcePaths.length - names.length} more` : '';
+        this.nodeInfoEl.createEl('p', { text: `Linked from ${names.join(', ')}${more}.` });
+      }
       const openBtn = this.nodeInfoEl.createEl('button', { text: 'Open or create note', cls: 'hyper-node-return-btn' });
       openBtn.addEventListener('click', (e) => {
         e.stopPropagation();
@@ -1761,6 +3526,32 @@ export class GraphExplorerView extends ItemView {
       });
     }
 
+    const parentId = typeof raw?.notePath === 'string' ? raw.notePath : null;
+    if (parentId || this.subNodeParents.has(node.id)) {
+      const collapseTarget = parentId ?? node.id;
+      const collapsed = this.collapsedSubNodeParents.has(collapseTarget);
+      const sectionsBtn = this.nodeInfoEl.createEl('button', {
+        text: parentId ? 'Collapse into note' : (collapsed ? 'Expand sections' : 'Collapse sections'),
+        cls: 'hyper-node-return-btn',
+      });
+      sectionsBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.toggleSubNodes(collapseTarget, collapseTarget);
+      });
+    }
+
+    if (this.isSeedCandidate(index)) {
+      const seedBtn = this.nodeInfoEl.createEl('button', {
+        text: this.seedSelection.has(node.id) ? 'Remove from seeds' : 'Add to seeds',
+        cls: 'hyper-node-return-btn',
+      });
+      seedBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.toggleSeed(index);
+        this.updateNodeDetails(index);
+      });
+    }
+
     const returnBtn = this.nodeInfoEl.createEl('button', { text: 'Return to Node', cls: 'hyper-node-return-btn' });
     returnBtn.addEventListener('click', (e) => {
       e.stopPropagation();
@@ -1785,6 +3576,79 @@ export class GraphExplorerView extends ItemView {
     this.updateNodeInfoVisibility();
   }
 
+  /** Renders a note's properties, opening section and a scrollable excerpt of the rest into the node panel. */
+  private async renderNotePreview(file: TFile, containerEl: HTMLElement): Promise<void> {
+    const token = ++this.notePreviewToken;
+    if (this.notePreviewComponent) {
+      this.removeChild(this.notePreviewComponent);
+    }
+    const component = this.addChild(new Component());
+    this.notePreviewComponent = component;
+    // A newer preview has started; drop what this one rendered so far.
+    const superseded = (): boolean => {
+      if (token === this.notePreviewToken) return false;
+      this.removeChild(component);
+      if (this.notePreviewComponent === component) this.notePreviewComponent = null;
+      return true;
+    };
+
+    let markdown: string;
+    try {
+      markdown = await this.app.vault.cachedRead(file);
+    } catch (error) {
+      console.warn('[GraphExplorerView] Failed to read note for preview', file.path, error);
+      if (superseded()) return;
+      containerEl.createEl('p', { text: 'Could not read this note.' });
+      return;
+    }
+    if (superseded()) return;
+
+    const preview = buildNotePreview(markdown, this.app.metadataCache.getFileCache(file)?.frontmatter);
+    if (preview.properties.length > 0) {
+      const table = containerEl.createEl('table', { cls: 'hyper-note-preview-properties' });
+      for (const property of preview.properties) {
+        const row = table.createEl('tr');
+        row.createEl('th', { text: property.key });
+        await MarkdownRenderer.render(this.app, property.value, row.createEl('td'), file.path, component);
+        if (superseded()) return;
+      }
+    }
+    if (preview.lead) {
+      const leadEl = containerEl.createDiv({ cls: 'hyper-note-preview-lead markdown-rendered' });
+      await MarkdownRenderer.render(this.app, preview.lead, leadEl, file.path, component);
+      if (superseded()) return;
+    }
+    if (preview.body) {
+      const bodyEl = containerEl.createDiv({ cls: 'hyper-note-preview-body markdown-rendered' });
+      await MarkdownRenderer.render(this.app, preview.body, bodyEl, file.path, component);
+      if (superseded()) return;
+    }
+    if (preview.truncated) {
+      containerEl.createEl('p', { text: 'Preview shortened. Open the note to read on.', cls: 'hyper-note-preview-more' });
+    } else if (!preview.lead && !preview.body && preview.properties.length === 0) {
+      containerEl.createEl('p', { text: 'This note is empty.' });
+    }
+  }
+
+  /** Internal links in the note preview focus their node, or open the note when it is not in the graph. */
+  private handleNotePreviewLinkClick(event: MouseEvent) {
+    const link = (event.target as HTMLElement | null)?.closest('a.internal-link');
+    if (!(link instanceof HTMLAnchorElement)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    const linktext = link.getAttribute('data-href') ?? link.getAttribute('href') ?? '';
+    const sourceIndex = this.selectedNodeIndex;
+    const sourcePath = sourceIndex !== null ? this.lastGraphPayload?.labels[sourceIndex]?.id ?? '' : '';
+    const file = this.app.metadataCache.getFirstLinkpathDest(linkpathFromLinktext(linktext), sourcePath);
+    const index = file ? (this.activeObject.meta?.nodes.findIndex((node) => node.id === file.path) ?? -1) : -1;
+    if (index !== -1) {
+      this.selectNode(index);
+      this.isFocusing = true;
+      return;
+    }
+    void this.app.workspace.openLinkText(linktext, sourcePath, false);
+  }
+
   private hideVisibleLabels() {
     if (this.visibleLabelIndexes.length === 0) {
       return;
@@ -1813,6 +3677,7 @@ export class GraphExplorerView extends ItemView {
     if (width === 0 || height === 0) return;
 
     const { positions, labels, vertexVisibility } = payload;
+    const vertexGrowth = payload.graphState?.vertexGrowth ?? null;
     const focusIndex = this.selectedNodeIndex ?? -1;
     const profile = getLabelPerformanceProfile(labels.length);
     const MAX_VISIBLE_LABELS = profile.maxVisibleLabels;
@@ -1833,7 +3698,7 @@ export class GraphExplorerView extends ItemView {
       const node = labels[i];
       const pos = positions[i];
       if (!node || !pos) continue;
-      const visibility = vertexVisibility ? vertexVisibility[i] ?? 0 : 1;
+      const visibility = (vertexVisibility ? vertexVisibility[i] ?? 0 : 1) * (vertexGrowth ? vertexGrowth[i] ?? 1 : 1);
       if (visibility <= MIN_VISIBILITY) {
         continue;
       }
@@ -1849,14 +3714,15 @@ export class GraphExplorerView extends ItemView {
       const depthNorm = Math.min(1, Math.max(0, (this.tempVec.z + 1) * 0.5));
       const depthFactor = 1 - Math.pow(depthNorm, 1.8);
       const radialFalloff = 1 - Math.min(1, Math.hypot(ndcX, ndcY) / 1.35);
-      const focusBoost = focusIndex === i ? 1.6 : 1;
+      const seed = nodeRawFields(node)?.isSeed === true || this.seedSelection.has(node.id);
+      const focusBoost = focusIndex === i ? 1.6 : (seed ? 1.3 : 1);
       const weight = visibility * (0.45 + depthFactor * 0.55) * (0.55 + radialFalloff * 0.45) * focusBoost;
       const opacity = focusIndex === i ? 1 : Math.min(1, Math.max(MIN_OPACITY, weight));
       const baseSize = focusIndex === i ? 21 : 14;
       const fontSize = Math.max(11, baseSize + depthFactor * 8 + visibility * 4);
       const x = (ndcX + 1) * 0.5 * width;
       const y = (1 - ndcY) * 0.5 * height;
-      const rawLabel = node.label.replace(/^\d{8}-/, '');
+      const rawLabel = stripLabel(node.label, this.labelStripPatterns);
       const text = node.emoji ? `${node.emoji} ${rawLabel}` : rawLabel;
       const missing = node.category === 'missing';
 
@@ -1870,6 +3736,7 @@ export class GraphExplorerView extends ItemView {
         fontSize,
         focus: focusIndex === i,
         missing,
+        seed,
       }, MAX_CANDIDATE_POOL);
     }
 
@@ -1893,6 +3760,7 @@ export class GraphExplorerView extends ItemView {
       el.style.display = 'block';
       el.classList.toggle('hyper-label-focus', candidate.focus);
       el.classList.toggle('hyper-label-missing', candidate.missing);
+      el.classList.toggle('hyper-label-seed', candidate.seed);
       this.visibleLabelIndexes.push(candidate.index);
     }
   }
@@ -1902,6 +3770,25 @@ export class GraphExplorerView extends ItemView {
     if (!payload) return;
     const node = payload.labels[index];
     if (!node) return;
+    if (isTagNodeId(node.id)) {
+      this.openGlobalSearch(`tag:#${node.id.slice(TAG_NODE_PREFIX.length)}`);
+      return;
+    }
+    if (isFolderNodeId(node.id)) {
+      const folderPath = node.id.slice(FOLDER_NODE_PREFIX.length);
+      this.openGlobalSearch(`path:"${folderPath === '/' ? '' : folderPath}"`);
+      return;
+    }
+    const raw = nodeRawFields(node);
+    if (raw?.isCanvasText === true && typeof raw.canvasPath === 'string') {
+      await this.app.workspace.openLinkText(raw.canvasPath, '', false);
+      return;
+    }
+    if (raw?.isSubNode === true && typeof raw.notePath === 'string') {
+      const subpath = raw.subNodeKind === 'block' ? `#^${raw.ref}` : `#${raw.ref}`;
+      await this.app.workspace.openLinkText(`${raw.notePath}${subpath}`, '', false);
+      return;
+    }
     const abstractFile = this.app.vault.getAbstractFileByPath(node.id);
     if (abstractFile instanceof TFile) {
       const leaf = this.app.workspace.getLeaf(false) ?? this.app.workspace.getLeaf(true);
@@ -1912,4 +3799,14 @@ export class GraphExplorerView extends ItemView {
       this.app.workspace.openLinkText(node.id, '', false);
     }
   }
+
+  /** Runs a query in the core Search pane; tag and folder nodes open here instead of a note. */
+  private openGlobalSearch(query: string): void {
+    const search = (this.app as unknown as InternalPluginRegistry).internalPlugins?.getPluginById?.('global-search');
+    if (!search?.enabled || !search.instance?.openGlobalSearch) {
+      new Notice('Enable the core Search plugin to search from the graph.');
+      return;
+    }
+    search.instance.openGlobalSearch(query);
+  }
 }
@@ -8,6 +8,7 @@ export interface LabelCandidate {
   fontSize: number;
   focus: boolean;
   missing: boolean;
+  seed: boolean;
 }
 
 function findMinWeightIndex(candidates: LabelCandidate[]): number {
@@ -0,0 +1,5 @@
+/** `?worker` imports are bundled by esbuild into a standalone script and imported as its source. */
+declare module '*?worker' {
+  const source: string;
+  export default source;
+}
@@ -71,6 +71,7 @@ function runLabelSelectionBenchmark(nodeCount: number, runs: number, labelPoolSi
         fontSize: 12 + ((i + run) % 7),
         focus: i === run % Math.max(1, nodeCount),
         missing: false,
+        seed: false,
       };
       pushCandidateToPool(candidates, candidate, labelPoolSize);
     }
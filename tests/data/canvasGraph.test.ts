@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  arrowTypeFromLabel,
+  canvasTextCardId,
+  parseCanvasStructure,
+  summarizeCanvasText,
+} from '../../src/data/canvasGraph';
+
+test('parseCanvasStructure collects file cards, text cards and arrows', () => {
+  const structure = parseCanvasStructure(JSON.stringify({
+    nodes: [
+      { id: 'n1', type: 'file', file: 'Plans/Roadmap.md', x: 0, y: 0 },
+      { id: 'n2', type: 'file', file: 'Research/Survey.md' },
+      { id: 'n3', type: 'file', file: 'Plans/Roadmap.md' },
+      { id: 't1', type: 'text', text: '## Open question\nWho owns this?' },
+      { id: 'g1', type: 'group', label: 'Q3' },
+      { id: 'l1', type: 'link', url: 'https://example.com' },
+    ],
+    edges: [
+      { id: 'e1', fromNode: 'n1', toNode: 'n2', label: 'Depends On' },
+      { id: 'e2', fromNode: 't1', toNode: 'n1' },
+      { id: 'e3', fromNode: 'n2', toNode: 'g1', label: 'inside' },
+      { id: 'e4', fromNode: 'n2', toNode: 'missing' },
+    ],
+  }));
+
+  assert.deepEqual(structure.fileCards, [
+    { path: 'Plans/Roadmap.md', count: 2 },
+    { path: 'Research/Survey.md', count: 1 },
+  ]);
+  assert.deepEqual(structure.textCards, [{ id: 't1', text: '## Open question\nWho owns this?' }]);
+  assert.deepEqual(structure.arrows, [
+    {
+      from: { kind: 'file', path: 'Plans/Roadmap.md' },
+      to: { kind: 'file', path: 'Research/Survey.md' },
+      type: 'depends on',
+    },
+    {
+      from: { kind: 'text', id: 't1' },
+      to: { kind: 'file', path: 'Plans/Roadmap.md' },
+      type: 'canvas-arrow',
+    },
+  ]);
+});
+
+test('parseCanvasStructure tolerates malformed canvas content', () => {
+  assert.deepEqual(parseCanvasStructure('not json'), { fileCards: [], textCards: [], arrows: [] });
+  assert.deepEqual(parseCanvasStructure('[]'), { fileCards: [], textCards: [], arrows: [] });
+  assert.deepEqual(parseCanvasStructure('{"nodes": {"id": 1}}'), { fileCards: [], textCards: [], arrows: [] });
+});
+
+test('canvas helpers build ids, arrow types and text card labels', () => {
+  assert.equal(canvasTextCardId('Board.canvas', 'abc'), 'Board.canvas::abc');
+  assert.equal(arrowTypeFromLabel('   '), 'canvas-arrow');
+  assert.equal(arrowTypeFromLabel(' Blocks  Release '), 'blocks release');
+  assert.equal(summarizeCanvasText('\n## Heading\nbody'), 'Heading');
+  assert.equal(summarizeCanvasText('x'.repeat(60), 10), `${'x'.repeat(9)}…`);
+});
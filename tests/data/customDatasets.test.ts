@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  createCustomDataset,
+  customDatasetOptionId,
+  isCustomDatasetOptionId,
+  resolveDatasetRootPaths,
+  resolveRootPaths,
+  scopeDatasetRoot,
+  type DatasetRootContext,
+} from '../../src/data/customDatasets';
+import type { CustomDataset } from '../../src/main';
+
+const TAGS: Record<string, string[]> = {
+  'Projects/Alpha.md': ['project/alpha'],
+  'Projects/Beta.md': ['project'],
+  'Areas/Health.md': ['area'],
+  'Projectsish.md': [],
+};
+
+function createContext(activePath: string | null = null, openPaths: string[] = [], selectedPaths: string[] = []): DatasetRootContext {
+  return {
+    activePath,
+    openPaths,
+    selectedPaths,
+    filePaths: Object.keys(TAGS),
+    resolveNotePath: (linkpath) => (linkpath === 'Alpha' ? 'Projects/Alpha.md' : null),
+    tagsForPath: (path) => TAGS[path] ?? [],
+    filterTargetForPath: (path) => ({
+      path,
+      basename: path.split('/').pop()!.replace(/\.md$/, ''),
+      category: 'note',
+      tags: TAGS[path] ?? [],
+      outgoingLinks: 0,
+      incomingLinks: path === 'Areas/Health.md' ? 4 : 0,
+      mtime: 0,
+      ctime: 0,
+      properties: null,
+    }),
+  };
+}
+
+function dataset(overrides: Partial<CustomDataset>): CustomDataset {
+  return { ...createCustomDataset([], 0), ...overrides };
+}
+
+test('createCustomDataset picks an unused default name', () => {
+  const first = createCustomDataset([], 1000);
+  assert.equal(first.name, 'Dataset 1');
+  assert.equal(first.scope, 'local');
+  assert.equal(first.rootType, 'active');
+  const second = createCustomDataset([{ ...first, name: 'Dataset 2' }], 1000);
+  assert.equal(second.name, 'Dataset 3');
+  assert.notEqual(second.id, first.id);
+  assert.equal(isCustomDatasetOptionId(customDatasetOptionId(second)), true);
+  assert.equal(isCustomDatasetOptionId('vault-local'), false);
+});
+
+test('resolveDatasetRootPaths resolves active, note, folder and tag roots', () => {
+  const context = createContext('Areas/Health.md');
+  assert.deepEqual(resolveDatasetRootPaths(dataset({ rootType: 'active' }), context), { paths: ['Areas/Health.md'], error: null });
+  assert.deepEqual(resolveDatasetRootPaths(dataset({ rootType: 'note', root: 'Alpha' }), context), { paths: ['Projects/Alpha.md'], error: null });
+  assert.deepEqual(resolveDatasetRootPaths(dataset({ rootType: 'note', root: 'Gamma' }), context), { paths: [], error: 'Note "Gamma" not found' });
+  assert.deepEqual(resolveDatasetRootPaths(dataset({ rootType: 'folder', root: '/Projects/' }), context).paths, ['Projects/Alpha.md', 'Projects/Beta.md']);
+  assert.equal(resolveDatasetRootPaths(dataset({ rootType: 'folder', root: '' }), context).paths.length, 4);
+  assert.deepEqual(resolveDatasetRootPaths(dataset({ rootType: 'tag', root: '#Project' }), context).paths, ['Projects/Alpha.md', 'Projects/Beta.md']);
+});
+
+test('scopeDatasetRoot limits global datasets to the root, including a single note', () => {
+  assert.deepEqual(scopeDatasetRoot(dataset({ scope: 'global', rootType: 'note' }), ['Projects/Alpha.md']), {
+    rootPath: null,
+    seedPaths: null,
+    candidatePaths: new Set(['Projects/Alpha.md']),
+  });
+  assert.deepEqual(scopeDatasetRoot(dataset({ scope: 'global', rootType: 'folder' }), ['a.md', 'b.md']).candidatePaths, new Set(['a.md', 'b.md']));
+  assert.deepEqual(scopeDatasetRoot(dataset({ scope: 'local', rootType: 'note' }), ['Projects/Alpha.md']), {
+    rootPath: 'Projects/Alpha.md',
+    seedPaths: null,
+    candidatePaths: null,
+  });
+  assert.deepEqual(scopeDatasetRoot(dataset({ scope: 'local', rootType: 'tag' }), ['a.md']).seedPaths, ['a.md']);
+});
+
+test('resolveDatasetRootPaths evaluates search roots with the filter language', () => {
+  const context = createContext();
+  assert.deepEqual(resolveDatasetRootPaths(dataset({ rootType: 'search', root: 'backlinks>2 OR name:beta' }), context), {
+    paths: ['Projects/Beta.md', 'Areas/Health.md'],
+    error: null,
+  });
+  assert.deepEqual(resolveDatasetRootPaths(dataset({ rootType: 'search', root: 'colour:red' }), context), {
+    paths: [],
+    error: 'Search: Unknown filter field "colour"',
+  });
+});
+
+test('resolveRootPaths seeds from open tabs and the graph selection', () => {
+  const context = createContext(null, ['Projects/Alpha.md', 'Areas/Health.md'], ['Projects/Beta.md']);
+  assert.deepEqual(resolveRootPaths('open-tabs', '', context), { paths: ['Projects/Alpha.md', 'Areas/Health.md'], error: null });
+  assert.deepEqual(resolveRootPaths('selection', '', context), { paths: ['Projects/Beta.md'], error: null });
+  assert.equal(resolveRootPaths('open-tabs', '', createContext()).paths.length, 0);
+  assert.match(resolveRootPaths('selection', '', createContext()).error ?? '', /Shift-click/);
+});
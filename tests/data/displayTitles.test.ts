@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  compileLabelStripPatterns,
+  DEFAULT_LABEL_STRIP_PATTERNS,
+  renderLabelTemplate,
+  resolveDisplayTitle,
+  stripLabel,
+} from '../../src/data/displayTitles';
+
+const subject = {
+  basename: '202401151030 reading notes',
+  frontmatter: { Title: 'On Reading', aliases: ['Reading', 'Books'], status: 'draft' },
+  firstHeading: 'Reading, slowly',
+};
+
+test('resolveDisplayTitle reads each label source and falls back to the file name', () => {
+  assert.equal(resolveDisplayTitle(subject, 'basename'), '202401151030 reading notes');
+  assert.equal(resolveDisplayTitle(subject, 'title'), 'On Reading');
+  assert.equal(resolveDisplayTitle(subject, 'alias'), 'Reading');
+  assert.equal(resolveDisplayTitle(subject, 'heading'), 'Reading, slowly');
+  assert.equal(resolveDisplayTitle({ basename: 'plain' }, 'title'), 'plain');
+  assert.equal(resolveDisplayTitle({ basename: 'plain', frontmatter: { alias: 'Solo' } }, 'alias'), 'Solo');
+});
+
+test('renderLabelTemplate fills fields and tidies up missing ones', () => {
+  assert.equal(renderLabelTemplate('{{title}} ({{status}})', subject), 'On Reading (draft)');
+  assert.equal(renderLabelTemplate('{{title}} ({{owner}})', subject), 'On Reading');
+  assert.equal(renderLabelTemplate('{{owner}} · {{ alias }}', subject), 'Reading');
+  assert.equal(resolveDisplayTitle({ basename: 'x' }, 'template', '{{title}}'), 'x');
+});
+
+test('stripLabel applies every pattern and skips invalid ones', () => {
+  const defaults = compileLabelStripPatterns(DEFAULT_LABEL_STRIP_PATTERNS);
+  assert.equal(stripLabel('20240115-Idea', defaults), 'Idea');
+  const patterns = compileLabelStripPatterns(['^\\d{12}\\s*', '', '(unclosed', '_draft$']);
+  assert.equal(patterns.length, 2);
+  assert.equal(stripLabel('202401151030 Idea_draft', patterns), 'Idea');
+  assert.equal(stripLabel('202401151030', patterns), '202401151030');
+});
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { RawGraphLink } from '../../src/hyper/core/graph';
+import { applyEdgeKindStyles, countEmbedTargets, DEFAULT_EDGE_KIND_STYLES } from '../../src/data/edgeKinds';
+
+test('countEmbedTargets groups resolved embeds by target and skips unresolved ones', () => {
+  const resolve = (linkpath: string) => (linkpath === 'missing' ? null : `${linkpath}.md`);
+  const counts = countEmbedTargets(
+    [{ link: 'A#Heading' }, { link: 'A' }, { link: 'B|alias' }, { link: 'missing' }],
+    resolve
+  );
+  assert.deepEqual(counts, [
+    { targetPath: 'A.md', count: 2 },
+    { targetPath: 'B.md', count: 1 },
+  ]);
+  assert.deepEqual(countEmbedTargets(undefined, resolve), []);
+});
+
+test('applyEdgeKindStyles hides disabled kinds and applies color and dash', () => {
+  const links: RawGraphLink[] = [
+    { source: 'a', target: 'b', kind: 'link' },
+    { source: 'a', target: 'c', kind: 'embed', color: 0xffffff },
+    { source: 'a', target: 'd', kind: 'frontmatter' },
+    { source: 'a', target: 'e', type: 'tag' },
+  ];
+  const styled = applyEdgeKindStyles(links, {
+    ...DEFAULT_EDGE_KIND_STYLES,
+    frontmatter: { visible: false, color: null, dash: 'dotted' },
+  });
+  assert.deepEqual(
+    styled.map((link) => link.target),
+    ['b', 'c', 'e']
+  );
+  assert.equal(styled[0].dash, 'solid');
+  assert.equal(styled[0].color, undefined);
+  assert.equal(styled[1].dash, 'dashed');
+  assert.equal(styled[1].color, 0x4dd0e1);
+  assert.equal(styled[2], links[3]);
+});
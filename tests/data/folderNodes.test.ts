@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildFolderHierarchy, folderNodeId, parentFolderPath } from '../../src/data/folderNodes';
+
+test('parentFolderPath and folderNodeId treat the vault root as an empty path', () => {
+  assert.equal(parentFolderPath('Projects/2026/plan.md'), 'Projects/2026');
+  assert.equal(parentFolderPath('inbox.md'), '');
+  assert.equal(folderNodeId(''), 'folder:/');
+  assert.equal(folderNodeId('Projects'), 'folder:Projects');
+});
+
+test('buildFolderHierarchy creates intermediate folders and counts descendants', () => {
+  const hierarchy = buildFolderHierarchy([
+    'inbox.md',
+    'Projects/2026/plan.md',
+    'Projects/2026/budget.md',
+    'Projects/readme.md',
+  ]);
+
+  assert.deepEqual(hierarchy.folders, [
+    { path: '', parent: null, descendantCount: 6 },
+    { path: 'Projects', parent: '', descendantCount: 4 },
+    { path: 'Projects/2026', parent: 'Projects', descendantCount: 2 },
+  ]);
+  assert.deepEqual(hierarchy.fileLinks, [
+    { folder: '', path: 'inbox.md' },
+    { folder: 'Projects/2026', path: 'Projects/2026/plan.md' },
+    { folder: 'Projects/2026', path: 'Projects/2026/budget.md' },
+    { folder: 'Projects', path: 'Projects/readme.md' },
+  ]);
+});
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { computePageRank, rankGlobalCandidates, type RankingCandidate } from '../../src/data/globalRanking';
+import { ResolvedLinkDerivedCache, type ResolvedLinks } from '../../src/data/linkMaps';
+
+function inputsFor(resolvedLinks: ResolvedLinks) {
+  return { resolvedLinks, degreeMaps: new ResolvedLinkDerivedCache().get(resolvedLinks).degreeMaps };
+}
+
+const candidates: RankingCandidate[] = [
+  { path: 'hub.md', mtime: 1 },
+  { path: 'a.md', mtime: 4 },
+  { path: 'b.md', mtime: 3 },
+  { path: 'c.md', mtime: 2 },
+];
+
+const links: ResolvedLinks = {
+  'a.md': { 'hub.md': 1 },
+  'b.md': { 'hub.md': 1 },
+  'c.md': { 'hub.md': 1, 'a.md': 1 },
+};
+
+test('computePageRank favours linked-to notes and keeps scores summing to one', () => {
+  const ranks = computePageRank(candidates.map((candidate) => candidate.path), links);
+  const total = Array.from(ranks.values()).reduce((sum, value) => sum + value, 0);
+  assert.ok(Math.abs(total - 1) < 1e-6);
+  assert.ok((ranks.get('hub.md') ?? 0) > (ranks.get('a.md') ?? 0));
+  assert.ok((ranks.get('a.md') ?? 0) > (ranks.get('b.md') ?? 0));
+});
+
+test('computePageRank ignores links leaving the candidate set', () => {
+  const ranks = computePageRank(['a.md', 'b.md'], { 'a.md': { 'outside.md': 5 } });
+  assert.ok(Math.abs((ranks.get('a.md') ?? 0) - 0.5) < 1e-6);
+  assert.ok(Math.abs((ranks.get('b.md') ?? 0) - 0.5) < 1e-6);
+});
+
+test('rankGlobalCandidates keeps the most recent notes by default', () => {
+  const result = rankGlobalCandidates(candidates, 'recency', inputsFor(links), 2);
+  assert.deepEqual(result.selected, ['a.md', 'b.md']);
+  assert.equal(result.dropped, 2);
+});
+
+test('rankGlobalCandidates ranks by degree and backlinks, breaking ties by recency', () => {
+  const inputs = inputsFor(links);
+  assert.deepEqual(rankGlobalCandidates(candidates, 'degree', inputs, 3).selected, ['hub.md', 'a.md', 'c.md']);
+  assert.deepEqual(rankGlobalCandidates(candidates, 'backlinks', inputs, 3).selected, ['hub.md', 'a.md', 'b.md']);
+  assert.deepEqual(rankGlobalCandidates(candidates, 'pagerank', inputs, 1).selected, ['hub.md']);
+});
+
+test('rankGlobalCandidates samples across folders for the folder-balanced strategy', () => {
+  const pool: RankingCandidate[] = [
+    { path: 'big/1.md', mtime: 9 },
+    { path: 'big/2.md', mtime: 8 },
+    { path: 'big/3.md', mtime: 7 },
+    { path: 'big/4.md', mtime: 6 },
+    { path: 'small/1.md', mtime: 1 },
+    { path: 'root.md', mtime: 0 },
+  ];
+  const result = rankGlobalCandidates(pool, 'folder-balanced', inputsFor({}), 4);
+  assert.deepEqual(result.selected, ['big/1.md', 'root.md', 'small/1.md', 'big/2.md']);
+  assert.equal(result.dropped, 2);
+});
+
+test('rankGlobalCandidates drops nothing when the limit covers every candidate', () => {
+  const result = rankGlobalCandidates(candidates, 'pagerank', inputsFor(links), 10);
+  assert.equal(result.selected.length, 4);
+  assert.equal(result.dropped, 0);
+});
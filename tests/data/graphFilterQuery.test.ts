@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { combineFilterPredicates, compileFilterQuery, type FilterTarget } from '../../src/data/graphFilterQuery';
+
+const DAY = 86_400_000;
+const NOW = new Date(2024, 5, 15, 12).getTime();
+
+function target(overrides: Partial<FilterTarget> = {}): FilterTarget {
+  return {
+    path: 'Projects/Alpha.md',
+    basename: 'Alpha',
+    category: 'note',
+    tags: ['project/active'],
+    outgoingLinks: 2,
+    incomingLinks: 2,
+    mtime: NOW - 3 * DAY,
+    ctime: new Date(2023, 1, 10).getTime(),
+    properties: { Status: 'Active', priority: 3, owners: ['[[Ann]]', 'Bob'] },
+    ...overrides,
+  };
+}
+
+function matches(query: string, value: FilterTarget): boolean {
+  const { predicate, error } = compileFilterQuery(query, NOW);
+  assert.equal(error, null, query);
+  assert.ok(predicate, query);
+  return predicate!(value);
+}
+
+test('compileFilterQuery returns no predicate for blank queries', () => {
+  assert.deepEqual(compileFilterQuery('   ', NOW), { predicate: null, error: null });
+});
+
+test('filter terms match tags, paths, names, categories and link counts', () => {
+  const note = target();
+  assert.equal(matches('tag:#project', note), true);
+  assert.equal(matches('tag:proj', note), false);
+  assert.equal(matches('path:projects/', note), true);
+  assert.equal(matches('-path:archive/', note), true);
+  assert.equal(matches('name:alp category:note', note), true);
+  assert.equal(matches('category:canvas', note), false);
+  assert.equal(matches('links>3', note), true);
+  assert.equal(matches('links:>=5', note), false);
+  assert.equal(matches('backlinks=2 outlinks<3', note), true);
+  assert.equal(matches('alpha', note), true);
+  assert.equal(matches('path:"Projects/Alpha"', note), true);
+});
+
+test('filter dates accept relative durations and calendar periods', () => {
+  const note = target();
+  assert.equal(matches('modified:<30d', note), true);
+  assert.equal(matches('modified:>1w', note), false);
+  assert.equal(matches('modified:7d', note), true);
+  assert.equal(matches('created:2023-02', note), true);
+  assert.equal(matches('created:>2023-02-10', note), false);
+  assert.equal(matches('created:>=2023-02-10 created:<2024', note), true);
+});
+
+test('filter properties compare values case-insensitively', () => {
+  const note = target();
+  assert.equal(matches('property:status=active', note), true);
+  assert.equal(matches('property:owners=ann', note), true);
+  assert.equal(matches('property:priority>2', note), true);
+  assert.equal(matches('property:priority<=2', note), false);
+  assert.equal(matches('property:status', note), true);
+  assert.equal(matches('property:missing', note), false);
+});
+
+test('filter boolean structure binds AND tighter than OR', () => {
+  const canvas = target({ path: 'Boards/Plan.canvas', category: 'canvas', tags: [], properties: null });
+  const query = 'tag:#project -path:archive/ links>3 modified:<30d category:canvas OR property:status=active';
+  assert.equal(matches(query, canvas), false);
+  assert.equal(matches(query, target({ properties: { status: 'active' }, tags: [] })), true);
+  assert.equal(matches('category:canvas OR tag:project', target()), true);
+  assert.equal(matches('-(category:canvas OR tag:project)', target()), false);
+  assert.equal(matches('(path:boards AND category:canvas) OR property:status=done', canvas), true);
+});
+
+test('filter syntax errors carry their position', () => {
+  assert.deepEqual(compileFilterQuery('tag:x colour:red', NOW).error, {
+    message: 'Unknown filter field "colour"',
+    start: 6,
+    end: 12,
+  });
+  assert.equal(compileFilterQuery('links>many', NOW).error?.message, 'Expected a number but found "many"');
+  assert.equal(compileFilterQuery('modified:<soon', NOW).error?.start, 0);
+  assert.deepEqual(compileFilterQuery('(tag:a OR tag:b', NOW).error, { message: 'Missing closing ")"', start: 0, end: 1 });
+  assert.equal(compileFilterQuery('tag:a)', NOW).error?.message, 'Unexpected ")"');
+  assert.equal(compileFilterQuery('tag:a OR', NOW).error?.message, 'Expected an expression after OR');
+  assert.deepEqual(compileFilterQuery('tag:a AND', NOW).error, { message: 'Expected an expression after AND', start: 6, end: 9 });
+  assert.equal(compileFilterQuery('(tag:a AND) OR tag:b', NOW).error?.message, 'Expected an expression after AND');
+  assert.equal(compileFilterQuery('tag:a AND OR tag:b', NOW).error?.message, 'Expected an expression after AND');
+  assert.equal(compileFilterQuery('AND tag:a', NOW).error?.message, 'Expected an expression before AND');
+  assert.equal(compileFilterQuery('- tag:a', NOW).error?.message, 'Nothing to negate after "-"');
+  assert.equal(compileFilterQuery('path:"open', NOW).error?.message, 'Unterminated quote');
+  assert.equal(compileFilterQuery('tag>3', NOW).error?.message, '"tag" does not support >');
+  assert.equal(compileFilterQuery('path:', NOW).error?.message, 'Missing value for "path"');
+});
+
+test('combineFilterPredicates ANDs the active predicates', () => {
+  const byTag = compileFilterQuery('tag:project', NOW).predicate;
+  const byCanvas = compileFilterQuery('category:canvas', NOW).predicate;
+  assert.equal(combineFilterPredicates([null, null]), null);
+  assert.equal(combineFilterPredicates([byTag, null]), byTag);
+  assert.equal(combineFilterPredicates([byTag, byCanvas])!(target()), false);
+  assert.equal(combineFilterPredicates([byTag, byCanvas])!(target({ category: 'canvas' })), true);
+});
@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { extractInlineFieldReferences } from '../../src/data/inlineFields';
+
+test('extractInlineFieldReferences reads line and bracketed fields with their lines', () => {
+  const markdown = [
+    '---',
+    'up:: [[Ignored]]',
+    '---',
+    'mentor:: [[Ada]]',
+    '- **blocked-by**:: [[Task 12]], [[Task 14|fourteen]]',
+    'Working on it [reviewer:: [[Grace]]] and (status:: done).',
+    '```',
+    'fake:: [[Code]]',
+    '```',
+    'note: not a field [[Plain]]',
+  ].join('\n');
+  assert.deepEqual(extractInlineFieldReferences(markdown), [
+    { key: 'mentor', link: 'Ada', line: 3 },
+    { key: 'blocked-by', link: 'Task 12', line: 4 },
+    { key: 'blocked-by', link: 'Task 14|fourteen', line: 4 },
+    { key: 'reviewer', link: 'Grace', line: 5 },
+  ]);
+});
+
+test('extractInlineFieldReferences keeps bracketed links out of the line field', () => {
+  assert.deepEqual(extractInlineFieldReferences('owner:: [[Lin]] (backup:: [[Sam]])'), [
+    { key: 'backup', link: 'Sam', line: 0 },
+    { key: 'owner', link: 'Lin', line: 0 },
+  ]);
+});
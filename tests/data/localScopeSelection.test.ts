@@ -95,3 +95,97 @@ test('selectLocalScopePaths excludes canvas paths when includeCanvas is false',
 
   assert.deepEqual(Array.from(selected).sort(), ['neighbor.md', 'root.md']);
 });
+
+test('selectLocalScopePaths grows from every seed path without fallback padding', () => {
+  const resolvedLinks: ResolvedLinks = {
+    'alpha.md': { 'alpha-child.md': 1 },
+    'beta.md': { 'beta-child.md': 1 },
+    'far.md': { 'alpha-child.md': 1 },
+  };
+
+  const selected = selectLocalScopePaths({
+    rootPath: 'ignored.md',
+    seedPaths: ['alpha.md', 'beta.md', 'board.canvas'],
+    depth: 1,
+    minNodes: 10,
+    maxDepth: 1,
+    includeCanvas: false,
+    fallbackPaths: ['recent.md'],
+    resolvedLinks,
+    reverseLinks: buildReverseLinks(resolvedLinks),
+  });
+
+  assert.deepEqual(Array.from(selected).sort(), ['alpha-child.md', 'alpha.md', 'beta-child.md', 'beta.md']);
+});
+
+test('selectLocalScopePaths follows only the chosen link direction', () => {
+  const resolvedLinks: ResolvedLinks = {
+    'root.md': { 'cited.md': 1 },
+    'cited.md': { 'cited-2.md': 1 },
+    'fan-1.md': { 'root.md': 1 },
+    'fan-2.md': { 'root.md': 1 },
+  };
+  const base = {
+    rootPath: 'root.md',
+    depth: 2,
+    minNodes: 1,
+    maxDepth: 4,
+    includeCanvas: true,
+    fallbackPaths: [],
+    resolvedLinks,
+    reverseLinks: buildReverseLinks(resolvedLinks),
+  };
+
+  const outgoing = selectLocalScopePaths({ ...base, direction: 'outgoing' });
+  assert.deepEqual(Array.from(outgoing).sort(), ['cited-2.md', 'cited.md', 'root.md']);
+
+  const backlinks = selectLocalScopePaths({ ...base, direction: 'backlinks' });
+  assert.deepEqual(Array.from(backlinks).sort(), ['fan-1.md', 'fan-2.md', 'root.md']);
+});
+
+test('selectLocalScopePaths applies separate outgoing and backlink depths', () => {
+  const resolvedLinks: ResolvedLinks = {
+    'root.md': { 'cited.md': 1 },
+    'cited.md': { 'cited-2.md': 1 },
+    'fan.md': { 'root.md': 1 },
+    'fan-of-fan.md': { 'fan.md': 1 },
+    'co-citer.md': { 'cited.md': 1 },
+  };
+
+  const selected = selectLocalScopePaths({
+    rootPath: 'root.md',
+    depth: 2,
+    backlinkDepth: 1,
+    minNodes: 1,
+    maxDepth: 2,
+    includeCanvas: true,
+    fallbackPaths: [],
+    resolvedLinks,
+    reverseLinks: buildReverseLinks(resolvedLinks),
+  });
+
+  assert.deepEqual(Array.from(selected).sort(), ['cited-2.md', 'cited.md', 'co-citer.md', 'fan.md', 'root.md']);
+});
+
+test('selectLocalScopePaths auto-expands only along the chosen direction', () => {
+  const resolvedLinks: ResolvedLinks = {
+    'root.md': { 'a.md': 1 },
+    'a.md': { 'b.md': 1 },
+    'b.md': { 'c.md': 1 },
+    'fan.md': { 'root.md': 1 },
+  };
+
+  const selected = selectLocalScopePaths({
+    rootPath: 'root.md',
+    depth: 1,
+    direction: 'outgoing',
+    minNodes: 4,
+    maxDepth: 4,
+    includeCanvas: true,
+    fallbackPaths: [],
+    resolvedLinks,
+    reverseLinks: buildReverseLinks(resolvedLinks),
+  });
+
+  assert.deepEqual(Array.from(selected).sort(), ['a.md', 'b.md', 'c.md', 'root.md']);
+});
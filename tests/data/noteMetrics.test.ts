@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { countOpenTasks, countWords, numericProperties } from '../../src/data/noteMetrics';
+
+test('countWords skips frontmatter and fenced code', () => {
+  const markdown = [
+    '---',
+    'title: Ignored words here',
+    '---',
+    '# Heading one',
+    "It's a [[linked note]] with café-style words.",
+    '```js',
+    'const ignored = true;',
+    '```',
+    'Done 2024.',
+  ].join('\n');
+  assert.equal(countWords(markdown), 11);
+  assert.equal(countWords(''), 0);
+});
+
+test('numericProperties keeps numbers and numeric strings only', () => {
+  assert.deepEqual(numericProperties({ rating: 4, weight: '2.5', status: 'done', tags: ['a'], year: '2024', blank: '' }), {
+    rating: 4,
+    weight: 2.5,
+    year: 2024,
+  });
+  assert.deepEqual(numericProperties(null), {});
+});
+
+test('countOpenTasks counts unchecked tasks only', () => {
+  assert.equal(countOpenTasks([{ task: ' ' }, { task: 'x' }, {}, { task: '-' }, { task: ' ' }]), 2);
+  assert.equal(countOpenTasks(undefined), 0);
+});
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildNotePreview, formatPropertyValue } from '../../src/data/notePreview';
+
+test('buildNotePreview splits the opening section from the rest of the note', () => {
+  const markdown = [
+    '---',
+    'status: draft',
+    '---',
+    '# Title',
+    'Intro with [[Link]].',
+    '```md',
+    '# not a heading',
+    '```',
+    '## Details',
+    'More text.',
+  ].join('\n');
+  const preview = buildNotePreview(markdown, { status: 'draft', related: ['[[A]]', '[[B]]'], position: { start: 0 } });
+  assert.deepEqual(preview.properties, [
+    { key: 'status', value: 'draft' },
+    { key: 'related', value: '[[A]], [[B]]' },
+  ]);
+  assert.equal(preview.lead, '# Title\nIntro with [[Link]].\n```md\n# not a heading\n```');
+  assert.equal(preview.body, '## Details\nMore text.');
+  assert.equal(preview.truncated, false);
+});
+
+test('buildNotePreview starts a new section at the first heading after prose', () => {
+  const preview = buildNotePreview('Opening line.\n\n## Next\nBody.', null);
+  assert.equal(preview.lead, 'Opening line.');
+  assert.equal(preview.body, '## Next\nBody.');
+});
+
+test('buildNotePreview cuts long notes at a line and closes an open fence', () => {
+  const markdown = ['# Title', 'Lead.', '## Code', '```', 'line one', 'line two', 'line three', '```'].join('\n');
+  const preview = buildNotePreview(markdown, null, 40);
+  assert.equal(preview.lead, '# Title\nLead.');
+  assert.equal(preview.body, '## Code\n```\nline one\n```');
+  assert.equal(preview.truncated, true);
+});
+
+test('formatPropertyValue flattens lists and skips empty values', () => {
+  assert.equal(formatPropertyValue(['a', null, 3]), 'a, 3');
+  assert.equal(formatPropertyValue(undefined), '');
+  assert.equal(formatPropertyValue(true), 'true');
+});
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  collectPropertyLinks,
+  extractFrontmatterLinkReferences,
+  propertyNameFromKey,
+  subtractLinkCounts,
+} from '../../src/data/propertyLinks';
+
+test('propertyNameFromKey strips list indexes and normalizes case', () => {
+  assert.equal(propertyNameFromKey('related.2'), 'related');
+  assert.equal(propertyNameFromKey('Parent'), 'parent');
+});
+
+test('extractFrontmatterLinkReferences finds wiki-links in scalar and list values', () => {
+  const refs = extractFrontmatterLinkReferences({
+    parent: '[[Projects]]',
+    related: ['[[Alpha|the alpha]]', 'plain text', '[[Beta#Intro]]'],
+    status: 'active',
+  });
+
+  assert.deepEqual(refs, [
+    { key: 'parent', link: 'Projects' },
+    { key: 'related.0', link: 'Alpha|the alpha' },
+    { key: 'related.2', link: 'Beta#Intro' },
+  ]);
+});
+
+test('collectPropertyLinks resolves targets and merges repeated property links', () => {
+  const paths: Record<string, string> = {
+    Alpha: 'Notes/Alpha.md',
+    Beta: 'Notes/Beta.md',
+  };
+  const links = collectPropertyLinks(
+    [
+      { key: 'related.0', link: 'Alpha' },
+      { key: 'related.1', link: 'Alpha|again' },
+      { key: 'supersedes', link: 'Beta#Intro' },
+      { key: 'author', link: 'Nobody' },
+    ],
+    (linkpath) => paths[linkpath] ?? null
+  );
+
+  assert.deepEqual(links, [
+    { property: 'related', targetPath: 'Notes/Alpha.md', count: 2 },
+    { property: 'supersedes', targetPath: 'Notes/Beta.md', count: 1 },
+  ]);
+});
+
+test('subtractLinkCounts removes property links from resolved reference counts', () => {
+  const remaining = subtractLinkCounts(
+    { 'A.md': 2, 'B.md': 1, 'C.md': 1 },
+    [
+      { targetPath: 'A.md', count: 1 },
+      { targetPath: 'B.md', count: 1 },
+    ]
+  );
+  assert.deepEqual(remaining, { 'A.md': 1, 'C.md': 1 });
+});
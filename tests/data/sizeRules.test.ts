@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { SizeRule } from '../../src/main';
+import { applySizeRules, SIZE_RULE_MAX_SIZE, SIZE_RULE_MIN_SIZE, type SizeRuleSubject } from '../../src/data/sizeRules';
+
+function subject(properties: Record<string, number>, openTasks = 0): SizeRuleSubject {
+  return { properties, backlinks: 0, openTasks };
+}
+
+test('applySizeRules spreads values between the minimum and maximum size', () => {
+  const rules: SizeRule[] = [{ id: 'budget', metric: 'property', property: 'budget', enabled: true }];
+  const result = applySizeRules([subject({ budget: 1000 }), subject({ budget: 5000 }), subject({ budget: 3000 }), subject({})], rules);
+  assert.deepEqual(result.sizes, [SIZE_RULE_MIN_SIZE, SIZE_RULE_MAX_SIZE, (SIZE_RULE_MIN_SIZE + SIZE_RULE_MAX_SIZE) / 2, null]);
+  assert.deepEqual(result.legend, [{ ruleId: 'budget', label: 'budget', min: 1000, max: 5000, count: 3 }]);
+});
+
+test('applySizeRules uses the first enabled rule with a value and skips the rest', () => {
+  const rules: SizeRule[] = [
+    { id: 'off', metric: 'open-tasks', enabled: false },
+    { id: 'budget', metric: 'property', property: 'budget', enabled: true },
+    { id: 'tasks', metric: 'open-tasks', enabled: true },
+  ];
+  const result = applySizeRules([subject({ budget: 10 }, 4), subject({}, 2), subject({}, 6)], rules);
+  assert.equal(result.sizes[0], SIZE_RULE_MAX_SIZE);
+  assert.equal(result.sizes[1], SIZE_RULE_MIN_SIZE);
+  assert.equal(result.sizes[2], SIZE_RULE_MAX_SIZE);
+  assert.deepEqual(result.legend.map((entry) => [entry.ruleId, entry.label, entry.count]), [
+    ['budget', 'budget', 1],
+    ['tasks', 'Open tasks', 2],
+  ]);
+  assert.deepEqual(applySizeRules([subject({})], []), { sizes: [null], legend: [] });
+});
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  collapseSubNodes,
+  collectSectionLinks,
+  findSectionHeading,
+  parseSubpathLink,
+  prioritizeSubNodes,
+  subNodeBudget,
+  subNodeId,
+} from '../../src/data/subNodes';
+
+test('parseSubpathLink splits heading and block references', () => {
+  assert.deepEqual(parseSubpathLink('Note#Section|alias'), { linkpath: 'Note', kind: 'heading', ref: 'Section' });
+  assert.deepEqual(parseSubpathLink('Note#Outer#Inner'), { linkpath: 'Note', kind: 'heading', ref: 'Inner' });
+  assert.deepEqual(parseSubpathLink('Note#^abc123'), { linkpath: 'Note', kind: 'block', ref: 'abc123' });
+  assert.deepEqual(parseSubpathLink('Note^abc123'), { linkpath: 'Note', kind: 'block', ref: 'abc123' });
+  assert.deepEqual(parseSubpathLink('#Local'), { linkpath: '', kind: 'heading', ref: 'Local' });
+  assert.equal(parseSubpathLink('Note'), null);
+  assert.equal(parseSubpathLink('Note#'), null);
+});
+
+test('subNodeId normalizes heading case and whitespace', () => {
+  assert.equal(subNodeId('a.md', 'heading', '  Key   Findings '), 'a.md#key findings');
+  assert.equal(subNodeId('a.md', 'block', 'Ab1'), 'a.md#^Ab1');
+});
+
+test('subNodeBudget keeps room for sub-nodes when notes fill maxNodes', () => {
+  assert.equal(subNodeBudget(100, 20), 80);
+  assert.equal(subNodeBudget(100, 100), 50);
+  assert.equal(subNodeBudget(100, 130), 50);
+  assert.equal(subNodeBudget(0, 10), 0);
+});
+
+test('prioritizeSubNodes keeps linked sections and blocks ahead of other headings', () => {
+  const intro = { id: 'a.md#intro' };
+  const method = { id: 'a.md#method' };
+  const block = { id: 'b.md#^q1' };
+  assert.deepEqual(prioritizeSubNodes([block, method], [intro, method], 2), [block, method]);
+  assert.deepEqual(prioritizeSubNodes([method], [intro, method], 5), [method, intro]);
+  assert.deepEqual(prioritizeSubNodes([block], [intro], 0), []);
+});
+
+test('findSectionHeading returns the closest heading above a line', () => {
+  const headings = [{ heading: 'Intro', line: 2 }, { heading: 'Method', line: 10 }];
+  assert.equal(findSectionHeading(headings, 0), null);
+  assert.equal(findSectionHeading(headings, 5)?.heading, 'Intro');
+  assert.equal(findSectionHeading(headings, 10)?.heading, 'Method');
+});
+
+test('collectSectionLinks attributes links to sections and sub-node targets', () => {
+  const existing = new Set(['a.md#intro', 'a.md#method', 'b.md#results', 'b.md#^q1']);
+  const links = collectSectionLinks({
+    notePath: 'a.md',
+    headings: [{ heading: 'Intro', line: 2 }, { heading: 'Method', line: 10 }],
+    references: [
+      { link: 'B', line: 0 },
+      { link: 'B#Results', line: 4 },
+      { link: 'B#Results|see', line: 5 },
+      { link: 'B#Results', line: 6, embed: true },
+      { link: 'B#^q1', line: 12 },
+      { link: 'B#Unknown', line: 12 },
+      { link: '#Method', line: 3 },
+      { link: 'Ghost', line: 3 },
+    ],
+    resolveLinkpath: (linkpath) => (linkpath === 'B' ? 'b.md' : null),
+    hasSubNode: (id) => existing.has(id),
+  });
+
+  assert.deepEqual(links, [
+    { sourceId: 'a.md', targetId: 'b.md', targetPath: 'b.md', count: 1, embed: false },
+    { sourceId: 'a.md#intro', targetId: 'b.md#results', targetPath: 'b.md', count: 2, embed: false },
+    { sourceId: 'a.md#intro', targetId: 'b.md#results', targetPath: 'b.md', count: 1, embed: true },
+    { sourceId: 'a.md#method', targetId: 'b.md#^q1', targetPath: 'b.md', count: 1, embed: false },
+    { sourceId: 'a.md#method', targetId: 'b.md', targetPath: 'b.md', count: 1, embed: false },
+    { sourceId: 'a.md#intro', targetId: 'a.md#method', targetPath: 'a.md', count: 1, embed: false },
+  ]);
+});
+
+test('collapseSubNodes folds children into their parent and merges links', () => {
+  const data = {
+    nodes: [
+      { id: 'a.md' },
+      { id: 'b.md' },
+      { id: 'b.md#results', parent: 'b.md' },
+      { id: 'b.md#^q1', parent: 'b.md' },
+    ],
+    links: [
+      { source: 'b.md', target: 'b.md#results', type: 'section', value: 1 },
+      { source: 'a.md', target: 'b.md#results', type: 'reference', value: 2 },
+      { source: 'a.md', target: 'b.md#^q1', type: 'reference', value: 1 },
+      { source: 'a.md', target: 'b.md', type: 'tag', value: 1 },
+    ],
+  };
+
+  const collapsed = collapseSubNodes(data, new Set(['b.md']));
+  assert.deepEqual(collapsed.nodes?.map((node) => node.id), ['a.md', 'b.md']);
+  assert.deepEqual(collapsed.links, [
+    { source: 'a.md', target: 'b.md', type: 'reference', value: 3 },
+    { source: 'a.md', target: 'b.md', type: 'tag', value: 1 },
+  ]);
+  assert.equal(data.links[1].value, 2);
+  assert.equal(collapseSubNodes(data, new Set()), data);
+});
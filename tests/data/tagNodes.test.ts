@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildTagHierarchy, expandTagHierarchy, tagNodeId } from '../../src/data/tagNodes';
+
+test('expandTagHierarchy lists every ancestor of a nested tag', () => {
+  assert.deepEqual(expandTagHierarchy('#Area/Research/ML'), ['area', 'area/research', 'area/research/ml']);
+  assert.deepEqual(expandTagHierarchy('#'), []);
+  assert.equal(tagNodeId('#Area/Research'), 'tag:area/research');
+});
+
+test('buildTagHierarchy links notes to carried tags and child tags to parents', () => {
+  const hierarchy = buildTagHierarchy(new Map([
+    ['a.md', ['area/research', 'project']],
+    ['b.md', ['area']],
+    ['c.md', ['#area/research']],
+  ]));
+
+  assert.deepEqual(hierarchy.tags, [
+    { tag: 'area', parent: null, noteCount: 3 },
+    { tag: 'area/research', parent: 'area', noteCount: 2 },
+    { tag: 'project', parent: null, noteCount: 1 },
+  ]);
+  assert.deepEqual(hierarchy.noteLinks, [
+    { path: 'a.md', tag: 'area/research' },
+    { path: 'a.md', tag: 'project' },
+    { path: 'b.md', tag: 'area' },
+    { path: 'c.md', tag: 'area/research' },
+  ]);
+});
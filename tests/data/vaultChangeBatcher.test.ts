@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { isBatchRelevant, VaultChangeBatcher, type VaultChangeBatch } from '../../src/data/vaultChangeBatcher';
+
+interface TimerTask {
+  id: number;
+  runAt: number;
+  callback: () => void;
+}
+
+class FakeTimers {
+  private now = 0;
+  private nextId = 1;
+  private tasks = new Map<number, TimerTask>();
+
+  setTimeout(callback: () => void, delayMs: number): number {
+    const id = this.nextId;
+    this.nextId += 1;
+    this.tasks.set(id, { id, runAt: this.now + Math.max(0, delayMs), callback });
+    return id;
+  }
+
+  clearTimeout(id: number): void {
+    this.tasks.delete(id);
+  }
+
+  advanceBy(delayMs: number): void {
+    this.now += Math.max(0, delayMs);
+    const due = Array.from(this.tasks.values())
+      .filter((task) => task.runAt <= this.now)
+      .sort((a, b) => a.runAt - b.runAt || a.id - b.id);
+    due.forEach((task) => {
+      this.tasks.delete(task.id);
+      task.callback();
+    });
+  }
+}
+
+function createBatcher(timers: FakeTimers, batches: VaultChangeBatch[]): VaultChangeBatcher {
+  return new VaultChangeBatcher({
+    setTimeout: (callback, delayMs) => timers.setTimeout(callback, delayMs),
+    clearTimeout: (id) => timers.clearTimeout(id),
+    onFlush: (batch) => batches.push(batch),
+  }, { changeDelayMs: 1000, resolvedDelayMs: 100 });
+}
+
+test('VaultChangeBatcher coalesces edits until the vault goes quiet', () => {
+  const timers = new FakeTimers();
+  const batches: VaultChangeBatch[] = [];
+  const batcher = createBatcher(timers, batches);
+
+  batcher.recordChange('a.md');
+  timers.advanceBy(800);
+  batcher.recordChange('b.md');
+  batcher.recordChange('a.md');
+  timers.advanceBy(800);
+  assert.equal(batches.length, 0);
+
+  timers.advanceBy(200);
+  assert.deepEqual(batches, [{ changedPaths: ['a.md', 'b.md'], removedPaths: [] }]);
+  assert.equal(batcher.hasPending(), false);
+});
+
+test('VaultChangeBatcher flushes early once links are resolved', () => {
+  const timers = new FakeTimers();
+  const batches: VaultChangeBatch[] = [];
+  const batcher = createBatcher(timers, batches);
+
+  batcher.markResolved();
+  timers.advanceBy(5000);
+  assert.equal(batches.length, 0);
+
+  batcher.recordChange('a.md');
+  batcher.markResolved();
+  timers.advanceBy(100);
+  assert.equal(batches.length, 1);
+});
+
+test('VaultChangeBatcher tracks renames and deletes', () => {
+  const timers = new FakeTimers();
+  const batches: VaultChangeBatch[] = [];
+  const batcher = createBatcher(timers, batches);
+
+  batcher.recordChange('draft.md');
+  batcher.recordRename('final.md', 'draft.md');
+  batcher.recordDelete('old.md');
+  timers.advanceBy(1000);
+  assert.deepEqual(batches, [{ changedPaths: ['final.md'], removedPaths: ['draft.md', 'old.md'] }]);
+
+  batcher.recordChange('x.md');
+  batcher.dispose();
+  timers.advanceBy(1000);
+  assert.equal(batches.length, 1);
+});
+
+test('isBatchRelevant checks graph nodes and new links into the graph', () => {
+  const nodeIds = new Set(['a.md', 'b.md']);
+  const resolvedLinks = { 'c.md': { 'b.md': 1 }, 'd.md': { 'e.md': 1 } };
+
+  assert.equal(isBatchRelevant({ changedPaths: ['a.md'], removedPaths: [] }, nodeIds, resolvedLinks), true);
+  assert.equal(isBatchRelevant({ changedPaths: [], removedPaths: ['b.md'] }, nodeIds, resolvedLinks), true);
+  assert.equal(isBatchRelevant({ changedPaths: ['c.md'], removedPaths: [] }, nodeIds, resolvedLinks), true);
+  assert.equal(isBatchRelevant({ changedPaths: ['d.md'], removedPaths: ['z.md'] }, nodeIds, resolvedLinks), false);
+});
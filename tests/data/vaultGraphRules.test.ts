@@ -2,10 +2,14 @@ import assert from 'node:assert/strict';
 import test from 'node:test';
 import type { ColorRule } from '../../src/main';
 import {
-  collectMissingTargetPaths,
+  applyLinkTypeStyles,
+  collectLinkTypes,
+  collectMissingTargets,
   compileIgnorePattern,
+  countColorRuleMatches,
   getCustomColorForFile,
   matchColorRule,
+  normalizeMissingTargetPath,
 } from '../../src/data/vaultGraphRules';
 
 test('compileIgnorePattern supports single and double star globs', () => {
@@ -58,20 +62,163 @@ test('getCustomColorForFile returns first matched rule color', () => {
   assert.equal(color, 0x112233);
 });
 
-test('collectMissingTargetPaths returns unresolved targets and respects limits', () => {
-  const resolvedLinks = {
-    'A.md': { 'B.md': 1, 'C.canvas': 1, 'Missing.md': 2 },
-    'B.md': { 'Missing-2.md': 1 },
+test('matchColorRule compares frontmatter properties', () => {
+  const properties = { Status: 'Done', rating: 4, due: '2024-05-01', topics: ['graphs', 'Physics'] };
+  const rule = (operator: ColorRule['operator'], property: string, pattern: string): ColorRule => ({
+    id: 'p', type: 'property', property, operator, pattern, color: '#ffffff', enabled: true,
+  });
+  const matches = (candidate: ColorRule) => matchColorRule(candidate, 'a.md', [], 'a.md', properties);
+
+  assert.equal(matches(rule('equals', 'status', 'done')), true);
+  assert.equal(matches(rule('contains', 'topics', 'phys')), true);
+  assert.equal(matches(rule('regex', 'topics', '^gr')), true);
+  assert.equal(matches(rule('regex', 'topics', '(')), false);
+  assert.equal(matches(rule('gt', 'rating', '3')), true);
+  assert.equal(matches(rule('lte', 'rating', '3')), false);
+  assert.equal(matches(rule('lt', 'due', '2024-06-01')), true);
+  assert.equal(matches(rule('gte', 'status', '1')), false);
+  assert.equal(matches(rule('exists', 'rating', '')), true);
+  assert.equal(matches(rule('exists', 'missing', '')), false);
+});
+
+test('group rules combine conditions with AND or OR', () => {
+  const group: ColorRule = {
+    id: 'g',
+    type: 'group',
+    pattern: '',
+    color: '#ffffff',
+    enabled: true,
+    match: 'all',
+    conditions: [
+      { type: 'tag', pattern: 'project' },
+      { type: 'property', property: 'status', operator: 'equals', pattern: 'active' },
+    ],
   };
+  assert.equal(matchColorRule(group, 'p.md', ['project'], 'p.md', { status: 'active' }), true);
+  assert.equal(matchColorRule(group, 'p.md', ['project'], 'p.md', { status: 'paused' }), false);
+  assert.equal(matchColorRule({ ...group, match: 'any' }, 'p.md', ['project'], 'p.md', { status: 'paused' }), true);
+  assert.equal(matchColorRule({ ...group, conditions: [] }, 'p.md', ['project'], 'p.md', {}), false);
+});
+
+test('countColorRuleMatches counts every rule a note satisfies', () => {
+  const rules: ColorRule[] = [
+    { id: 'tag', type: 'tag', pattern: 'person', color: '#111111', enabled: true },
+    { id: 'folder', type: 'path', pattern: 'People/', color: '#222222', enabled: true },
+    { id: 'off', type: 'path', pattern: 'People/', color: '#333333', enabled: false },
+  ];
+  const counts = countColorRuleMatches([
+    { path: 'People/Alice.md', tags: ['person'], properties: {} },
+    { path: 'People/Bob.md', tags: [], properties: {} },
+    { path: 'Notes/Idea.md', tags: [], properties: {} },
+  ], rules);
+  assert.deepEqual(counts, { tag: 1, folder: 2, off: 0 });
+});
+
+function createFakeMetadataCache(
+  resolvedLinks: Record<string, Record<string, number>>,
+  unresolvedLinks: Record<string, Record<string, number>>
+) {
+  return { resolvedLinks, unresolvedLinks };
+}
+
+test('collectMissingTargets reads unresolvedLinks and respects limits', () => {
+  const metadataCache = createFakeMetadataCache(
+    { 'A.md': { 'B.md': 1 } },
+    {
+      'A.md': { Missing: 2, 'Board.canvas': 1 },
+      'B.md': { 'Missing-2': 1 },
+    }
+  );
 
-  const missing = collectMissingTargetPaths({
+  const missing = collectMissingTargets({
     includeCanvas: false,
     maxCount: 1,
     sourcePaths: ['A.md', 'B.md'],
-    resolvedLinks,
+    metadataCache,
     knownPaths: new Set(['A.md', 'B.md']),
     hasPath: (path) => path === 'B.md',
   });
 
-  assert.deepEqual(missing, ['Missing.md']);
+  assert.deepEqual(missing, [
+    { path: 'Missing.md', references: 2, sources: [{ path: 'A.md', count: 2 }] },
+  ]);
+});
+
+test('collectMissingTargets collapses link variants and aggregates sources', () => {
+  const metadataCache = createFakeMetadataCache(
+    {},
+    {
+      'A.md': { Foo: 1, 'Foo.md': 2, 'foo#Heading': 1 },
+      'B.md': { 'Foo.md': 1 },
+      'C.md': { Bar: 1 },
+    }
+  );
+
+  const missing = collectMissingTargets({
+    includeCanvas: true,
+    maxCount: 10,
+    sourcePaths: ['A.md', 'B.md', 'C.md'],
+    metadataCache,
+    knownPaths: new Set(['A.md', 'B.md', 'C.md']),
+    hasPath: () => false,
+  });
+
+  assert.deepEqual(missing, [
+    {
+      path: 'Foo.md',
+      references: 5,
+      sources: [
+        { path: 'A.md', count: 4 },
+        { path: 'B.md', count: 1 },
+      ],
+    },
+    { path: 'Bar.md', references: 1, sources: [{ path: 'C.md', count: 1 }] },
+  ]);
+});
+
+test('collectMissingTargets skips targets that exist and keeps stale resolved entries', () => {
+  const metadataCache = createFakeMetadataCache(
+    { 'A.md': { 'Deleted.md': 1, 'Present.md': 1 } },
+    { 'A.md': { Present: 1 } }
+  );
+
+  const missing = collectMissingTargets({
+    includeCanvas: true,
+    maxCount: 10,
+    sourcePaths: ['A.md'],
+    metadataCache,
+    knownPaths: new Set(['A.md']),
+    hasPath: (path) => path === 'Present.md',
+  });
+
+  assert.deepEqual(missing.map((target) => target.path), ['Deleted.md']);
+});
+
+test('normalizeMissingTargetPath strips subpaths and adds the markdown extension', () => {
+  assert.equal(normalizeMissingTargetPath('Foo#Section'), 'Foo.md');
+  assert.equal(normalizeMissingTargetPath('Folder/Foo.md'), 'Folder/Foo.md');
+  assert.equal(normalizeMissingTargetPath('diagram.png'), 'diagram.png');
+  assert.equal(normalizeMissingTargetPath('Version 1.2'), 'Version 1.2.md');
+  assert.equal(normalizeMissingTargetPath('Meeting.notes'), 'Meeting.notes.md');
+  assert.equal(normalizeMissingTargetPath('Board.canvas'), 'Board.canvas');
+  assert.equal(normalizeMissingTargetPath('#Heading'), '');
+});
+
+test('applyLinkTypeStyles hides invisible types and overrides colors', () => {
+  const links = [
+    { source: 'a', target: 'b', type: 'parent' },
+    { source: 'a', target: 'c', type: 'Related' },
+    { source: 'a', target: 'd', type: 'reference' },
+  ];
+
+  assert.deepEqual(collectLinkTypes(links), ['parent', 'reference', 'related']);
+
+  const styled = applyLinkTypeStyles(links, {
+    parent: { visible: false, color: null },
+    related: { visible: true, color: '#00ff00' },
+  });
+
+  assert.equal(styled.length, 2);
+  assert.equal(styled[0].color, 0x00ff00);
+  assert.equal(styled[1], links[2]);
 });
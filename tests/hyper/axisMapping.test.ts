@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildNarrativeGraphFromData, patchNarrativeGraph, updateForceLayoutConfig } from '../../src/hyper/core/graph';
+import { AXIS_EXTENT, layoutAxes, migrateLegacyWAxis, sliceBounds, type AxisBinding } from '../../src/hyper/core/axisMapping';
+
+const DAY = 24 * 60 * 60 * 1000;
+const FORCE: AxisBinding = { metric: 'force' };
+
+function note(id: string, ctime: number, mtime: number, extra: Record<string, unknown> = {}) {
+  return { id, category: 'note', raw: { tags: [], ctime, mtime, ...extra } };
+}
+
+test('layoutAxes spreads timestamps across the band and leaves untimed nodes free', () => {
+  const nodes = [note('old.md', 10 * DAY, 40 * DAY), note('new.md', 30 * DAY, 20 * DAY), { id: 'tag:x', raw: { tags: [] } }];
+  const { ranges, coordinates } = layoutAxes(nodes, [], [FORCE, FORCE, { metric: 'created' }, { metric: 'modified' }]);
+  assert.equal(ranges[0], null);
+  assert.deepEqual(ranges[2], { metric: 'created', property: undefined, min: 10 * DAY, max: 30 * DAY, extent: AXIS_EXTENT });
+  assert.deepEqual(coordinates[2], [-AXIS_EXTENT, AXIS_EXTENT, null]);
+  assert.deepEqual(coordinates[3], [AXIS_EXTENT, -AXIS_EXTENT, null]);
+  assert.deepEqual(coordinates[0], [null, null, null]);
+});
+
+test('layoutAxes reads properties, vault metrics and graph structure', () => {
+  const nodes = [
+    note('a.md', DAY, DAY, { properties: { rating: 1 }, wordCount: 100, folderDepth: 0 }),
+    note('b.md', DAY, DAY, { properties: { rating: 5 }, wordCount: 300, folderDepth: 2 }),
+    note('c.md', DAY, DAY, { properties: {}, wordCount: 200, folderDepth: 1 }),
+  ];
+  const edges: Array<[number, number]> = [[0, 1], [2, 1]];
+  const { ranges, coordinates } = layoutAxes(nodes, edges, [
+    { metric: 'property', property: 'rating' },
+    { metric: 'in-degree' },
+    { metric: 'word-count' },
+    { metric: 'folder-depth' },
+  ]);
+  assert.deepEqual(coordinates[0], [-AXIS_EXTENT, AXIS_EXTENT, null]);
+  assert.deepEqual(coordinates[1], [-AXIS_EXTENT, AXIS_EXTENT, -AXIS_EXTENT]);
+  assert.deepEqual(coordinates[2], [-AXIS_EXTENT, AXIS_EXTENT, 0]);
+  assert.deepEqual(coordinates[3], [-AXIS_EXTENT, AXIS_EXTENT, 0]);
+  assert.equal(ranges[1]?.max, 2);
+
+  const unnamed = layoutAxes(nodes, edges, [{ metric: 'property', property: ' ' }, { metric: 'out-degree' }]);
+  assert.equal(unnamed.ranges[0], null);
+  assert.deepEqual(unnamed.coordinates[1], [AXIS_EXTENT, -AXIS_EXTENT, AXIS_EXTENT]);
+});
+
+test('layoutAxes gives each community its own coordinate', () => {
+  const nodes = ['a', 'b', 'c', 'd', 'e'].map((id) => ({ id }));
+  const { coordinates } = layoutAxes(nodes, [[0, 1], [1, 2], [2, 0], [3, 4]], [{ metric: 'community' }]);
+  const [a, b, c, d, e] = coordinates[0];
+  assert.equal(a, b);
+  assert.equal(b, c);
+  assert.equal(d, e);
+  assert.notEqual(a, d);
+});
+
+test('sliceBounds maps the slice band back to values', () => {
+  const range = { metric: 'created' as const, min: 0, max: 100 * DAY, extent: AXIS_EXTENT };
+  const middle = sliceBounds(range, 0, 0.24);
+  assert.ok(Math.abs(middle.start - 45 * DAY) < 1);
+  assert.ok(Math.abs(middle.end - 55 * DAY) < 1);
+  const edge = sliceBounds(range, 1.5, 0.24);
+  assert.equal(edge.start, 100 * DAY);
+  assert.equal(edge.end, 100 * DAY);
+});
+
+test('bound axes stay pinned through force layout and patches', () => {
+  updateForceLayoutConfig({ repelForce: 0.6, centerForce: 0.2, linkForce: 0.3 });
+  try {
+    const axes: AxisBinding[] = [FORCE, FORCE, FORCE, { metric: 'modified' }];
+    const graph = buildNarrativeGraphFromData({
+      nodes: [note('a.md', DAY, 10 * DAY), note('b.md', DAY, 60 * DAY), note('c.md', DAY, 110 * DAY), { id: 'tag:x', category: 'tag' }],
+      links: [{ source: 'a.md', target: 'b.md' }, { source: 'b.md', target: 'tag:x' }],
+    }, { axes });
+
+    assert.deepEqual(graph.meta.axisRanges?.[3], { metric: 'modified', property: undefined, min: 10 * DAY, max: 110 * DAY, extent: AXIS_EXTENT });
+    assert.deepEqual(graph.vertices.slice(0, 3).map((vertex) => vertex[3]), [-AXIS_EXTENT, 0, AXIS_EXTENT]);
+
+    const patched = patchNarrativeGraph(graph, {
+      nodes: [note('a.md', DAY, 200 * DAY), note('b.md', DAY, 60 * DAY), note('c.md', DAY, 110 * DAY)],
+      links: [],
+    }, { axes });
+    assert.equal(patched.vertices[0][3], AXIS_EXTENT);
+    assert.deepEqual(patched.vertices[0].slice(0, 3), graph.vertices[0].slice(0, 3));
+  } finally {
+    updateForceLayoutConfig({ repelForce: 0, centerForce: 0, linkForce: 0 });
+  }
+});
+
+test('bound X axes stretch to the extent of the force-directed axes', () => {
+  const graph = buildNarrativeGraphFromData({
+    nodes: [note('a.md', DAY, DAY, { folderDepth: 0 }), note('b.md', DAY, DAY, { folderDepth: 3 })],
+  }, { axes: [{ metric: 'folder-depth' }, FORCE, FORCE, FORCE] });
+  const range = graph.meta.axisRanges?.[0];
+  assert.ok(range);
+  assert.ok(range.extent >= AXIS_EXTENT);
+  assert.equal(graph.vertices[1][0], range.extent);
+  assert.equal(graph.vertices[0][0], -range.extent);
+});
+
+test('migrateLegacyWAxis moves a stored time mode onto the W binding', () => {
+  const defaults: AxisBinding[] = [FORCE, FORCE, FORCE, FORCE];
+  assert.deepEqual(migrateLegacyWAxis(defaults, 'modified'), [FORCE, FORCE, FORCE, { metric: 'modified' }]);
+  assert.deepEqual(migrateLegacyWAxis(defaults, 'created')[3], { metric: 'created' });
+  assert.equal(migrateLegacyWAxis(defaults, 'layout'), defaults);
+  assert.equal(migrateLegacyWAxis(defaults, undefined), defaults);
+  assert.deepEqual(defaults[3], FORCE);
+});
@@ -0,0 +1,165 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { applyForceLayout, type ForceLayoutConfig } from '../../src/hyper/core/forceLayout';
+import { buildNarrativeGraphDeferred, patchNarrativeGraphDeferred } from '../../src/hyper/core/graph';
+import {
+  ForceLayoutRunner,
+  packVertices,
+  runForceLayoutRequest,
+  unpackVertices,
+  type ForceLayoutJob,
+  type ForceLayoutMessage,
+  type ForceLayoutRequest,
+} from '../../src/hyper/core/forceLayoutRunner';
+import type { Vec4 } from '../../src/hyper/core/math4d';
+
+const CONFIG: ForceLayoutConfig = { iterations: 12, repelForce: 1, centerForce: 0.1, linkForce: 0.5, linkDistance: 1.6 };
+
+function ringJob(count: number): ForceLayoutJob {
+  const vertices = Array.from({ length: count }, (_, index) => {
+    const angle = (index / count) * Math.PI * 2;
+    return [Math.cos(angle), Math.sin(angle), Math.cos(angle * 2) * 0.5, Math.sin(angle * 3) * 0.5] as Vec4;
+  });
+  const edges = vertices.map((_, index) => [index, (index + 1) % count] as [number, number]);
+  return { vertices, edges, config: CONFIG, pinned: null };
+}
+
+function syncLayout(job: ForceLayoutJob): Vec4[] {
+  const positions = job.vertices.map((vertex) => [...vertex] as Vec4);
+  applyForceLayout(positions, job.edges, job.config, job.pinned);
+  return positions;
+}
+
+class FakeWorker {
+  onmessage: ((event: { data: ForceLayoutMessage }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  requests: ForceLayoutRequest[] = [];
+  terminated = false;
+
+  postMessage(request: ForceLayoutRequest): void {
+    this.requests.push(request);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  reply(message: ForceLayoutMessage): void {
+    this.onmessage?.({ data: message });
+  }
+}
+
+function runnerWith(workers: FakeWorker[]): ForceLayoutRunner {
+  return new ForceLayoutRunner(() => {
+    const worker = new FakeWorker();
+    workers.push(worker);
+    return worker as unknown as Worker;
+  });
+}
+
+test('packVertices round-trips through unpackVertices', () => {
+  const vertices: Vec4[] = [[1, 2, 3, 4], [-0.5, 0, 0.25, 8]];
+  assert.deepEqual(unpackVertices(packVertices(vertices)), vertices);
+});
+
+test('runForceLayoutRequest streams progress and finishes with the synchronous layout', () => {
+  const job = ringJob(10);
+  const messages: ForceLayoutMessage[] = [];
+  runForceLayoutRequest(
+    { id: 7, positions: packVertices(job.vertices), edges: job.edges, config: job.config, pinned: null },
+    (message) => messages.push(message)
+  );
+
+  assert.deepEqual(messages.map((message) => message.type), ['progress', 'progress', 'done']);
+  assert.ok(messages.every((message) => message.id === 7));
+  const done = messages[messages.length - 1];
+  assert.equal(done.type, 'done');
+  if (done.type !== 'done') return;
+  assert.equal(done.iteration, done.iterations);
+  assert.deepEqual(unpackVertices(done.positions), syncLayout(job));
+});
+
+test('ForceLayoutRunner lays out synchronously without a worker', async () => {
+  const job = ringJob(8);
+  const updates: Vec4[][] = [];
+  const result = await new ForceLayoutRunner(null).run(job, (positions) => updates.push(positions));
+
+  assert.equal(result, 'done');
+  assert.equal(updates.length, 1);
+  assert.deepEqual(updates[0], syncLayout(job));
+  assert.notEqual(updates[0][0], job.vertices[0]);
+});
+
+test('ForceLayoutRunner falls back to a synchronous layout when the worker reports an error', async () => {
+  const workers: FakeWorker[] = [];
+  const runner = runnerWith(workers);
+  const job = ringJob(6);
+  const updates: Vec4[][] = [];
+  const pending = runner.run(job, (positions) => updates.push(positions));
+  workers[0].reply({ id: workers[0].requests[0].id, type: 'error', message: 'boom' });
+
+  assert.equal(await pending, 'done');
+  assert.equal(workers[0].terminated, true);
+  assert.deepEqual(updates, [syncLayout(job)]);
+});
+
+test('ForceLayoutRunner forwards worker progress and cancels the run in flight', async () => {
+  const workers: FakeWorker[] = [];
+  const runner = runnerWith(workers);
+  const job = ringJob(4);
+  const iterations: number[] = [];
+  const first = runner.run(job, (_positions, iteration) => iterations.push(iteration));
+  const firstId = workers[0].requests[0].id;
+  const positions = packVertices(job.vertices);
+  workers[0].reply({ id: firstId, type: 'progress', positions, iteration: 4, iterations: 12 });
+  assert.equal(runner.running, true);
+
+  const second = runner.run(job, (_positions, iteration) => iterations.push(100 + iteration));
+  assert.equal(await first, 'cancelled');
+  assert.equal(workers[0].terminated, true);
+
+  workers[0].reply({ id: firstId, type: 'done', positions, iteration: 12, iterations: 12 });
+  const secondId = workers[1].requests[0].id;
+  assert.notEqual(secondId, firstId);
+  workers[1].reply({ id: secondId, type: 'done', positions, iteration: 12, iterations: 12 });
+
+  assert.equal(await second, 'done');
+  assert.deepEqual(iterations, [4, 112]);
+  assert.equal(workers[1].terminated, true);
+  assert.equal(runner.running, false);
+});
+
+test('ForceLayoutRunner restarts a layout in flight from a graph patched mid-run', async () => {
+  const workers: FakeWorker[] = [];
+  const runner = runnerWith(workers);
+  const nodes = [{ id: 'a.md' }, { id: 'b.md' }, { id: 'c.md' }];
+  const links = [{ source: 'a.md', target: 'b.md' }, { source: 'b.md', target: 'c.md' }];
+  const { graph, layout } = buildNarrativeGraphDeferred({ nodes, links });
+  assert.ok(layout);
+  assert.equal(runner.rerun({ ...layout, config: CONFIG }, () => {}), null);
+  assert.equal(workers.length, 0);
+
+  const first = runner.run({ ...layout, config: CONFIG }, (positions) => layout.apply(positions));
+  const settling = layout.vertices.map((vertex) => vertex.map((value) => value * 0.5) as Vec4);
+  workers[0].reply({ id: workers[0].requests[0].id, type: 'progress', positions: packVertices(settling), iteration: 4, iterations: 12 });
+
+  const patched = patchNarrativeGraphDeferred(graph, {
+    nodes: [...nodes, { id: 'd.md' }],
+    links: [...links, { source: 'c.md', target: 'd.md' }],
+  });
+  const patchedLayout = patched.layout;
+  assert.ok(patchedLayout);
+  const second = runner.rerun({ ...patchedLayout, config: CONFIG }, (positions) => patchedLayout.apply(positions));
+  assert.ok(second);
+  assert.equal(await first, 'cancelled');
+  assert.equal(workers[0].terminated, true);
+
+  // Kept nodes restart from where the interrupted layout left them.
+  const request = workers[1].requests[0];
+  assert.deepEqual(unpackVertices(request.positions).slice(0, 3), settling);
+
+  const settled = unpackVertices(request.positions).map((vertex) => vertex.map((value) => value + 1) as Vec4);
+  workers[1].reply({ id: request.id, type: 'done', positions: packVertices(settled), iteration: 12, iterations: 12 });
+  assert.equal(await second, 'done');
+  assert.deepEqual(patched.graph.vertices, settled);
+});
@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildNarrativeGraphFromData } from '../../src/hyper/core/graph';
+import { GLYPH_SHAPES, glyphIndex, resolveGlyph } from '../../src/hyper/core/glyphs';
+
+test('resolveGlyph prefers the node shape, then category overrides, then defaults', () => {
+  assert.equal(resolveGlyph('canvas', null, null), 'square');
+  assert.equal(resolveGlyph('canvas', null, { canvas: 'star' }), 'star');
+  assert.equal(resolveGlyph('canvas', 'ring', { canvas: 'star' }), 'ring');
+  assert.equal(resolveGlyph('canvas', 'blob', {}), 'square');
+  assert.equal(resolveGlyph('pdf', undefined, {}), 'circle');
+});
+
+test('graphs carry a glyph id per vertex', () => {
+  const graph = buildNarrativeGraphFromData({
+    nodes: [
+      { id: 'a.md', category: 'note' },
+      { id: 'b.canvas', category: 'canvas' },
+      { id: 'gone.md', category: 'note', raw: { isMissing: true } },
+      { id: 'c.md', category: 'note', shape: 'star' },
+    ],
+  }, { categoryGlyphs: { note: 'diamond' } });
+  assert.deepEqual(
+    Array.from(graph.meta.vertexShapes ?? []).map((index) => GLYPH_SHAPES[index]),
+    ['diamond', 'square', 'ring', 'star']
+  );
+  assert.equal(glyphIndex('circle'), 0);
+});
@@ -0,0 +1,17 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildNarrativeGraphFromData, edgeColor } from '../../src/hyper/core/graph';
+
+test('nodes and links keep a custom color exactly; links fall back to the type color', () => {
+  const graph = buildNarrativeGraphFromData({
+    nodes: [{ id: 'a.md', color: 0x336699 }, { id: 'b.md' }, { id: 'c.md' }],
+    links: [
+      { source: 'a.md', target: 'b.md', type: 'parent', color: 0x336699 },
+      { source: 'b.md', target: 'c.md', type: 'reference' },
+    ],
+  });
+
+  assert.deepEqual(graph.meta.links[0].color, [0x33 / 255, 0x66 / 255, 0x99 / 255]);
+  assert.deepEqual(graph.meta.links[1].color, edgeColor('reference'));
+  assert.deepEqual(graph.meta.nodes[0].color, graph.meta.links[0].color);
+});
@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildNarrativeGraphFromData, patchNarrativeGraph } from '../../src/hyper/core/graph';
+
+test('patchNarrativeGraph keeps positions of surviving nodes and places new ones near neighbours', () => {
+  const previous = buildNarrativeGraphFromData({
+    nodes: [
+      { id: 'a.md', category: 'note' },
+      { id: 'b.md', category: 'note' },
+      { id: 'c.md', category: 'note' },
+    ],
+    links: [{ source: 'a.md', target: 'b.md' }],
+  }, { graphName: 'Local' });
+
+  const patched = patchNarrativeGraph(previous, {
+    nodes: [
+      { id: 'b.md', category: 'note' },
+      { id: 'new.md', category: 'note' },
+      { id: 'a.md', category: 'note', summary: 'edited' },
+      { id: 'tag:fresh', category: 'tag' },
+    ],
+    links: [
+      { source: 'a.md', target: 'b.md' },
+      { source: 'new.md', target: 'a.md' },
+    ],
+  });
+
+  assert.equal(patched.name, 'Local');
+  assert.deepEqual(patched.meta.nodes.map((node) => node.id), ['b.md', 'new.md', 'a.md', 'tag:fresh']);
+  assert.deepEqual(patched.vertices[0], previous.vertices[1]);
+  assert.deepEqual(patched.vertices[2], previous.vertices[0]);
+  assert.notEqual(patched.vertices[2], previous.vertices[0]);
+  assert.equal(patched.meta.nodes[2].summary, 'edited');
+  assert.deepEqual(patched.edges, [[2, 0], [1, 2]]);
+
+  const distance = (a: number[], b: number[]) => Math.hypot(...a.map((value, axis) => value - b[axis]));
+  const edgeLength = distance(previous.vertices[0], previous.vertices[1]);
+  assert.ok(Math.abs(distance(patched.vertices[1], patched.vertices[2]) - edgeLength * 0.5) < 1e-9);
+  assert.ok(patched.vertices[3].every((value) => Number.isFinite(value)));
+});
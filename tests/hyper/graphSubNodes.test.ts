@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildNarrativeGraphFromData } from '../../src/hyper/core/graph';
+
+test('sub-nodes orbit their parent note', () => {
+  const graph = buildNarrativeGraphFromData({
+    nodes: [
+      { id: 'a.md', category: 'note' },
+      { id: 'b.md', category: 'note' },
+      { id: 'a.md#intro', category: 'heading', parent: 'a.md' },
+      { id: 'a.md#method', category: 'heading', parent: 'a.md' },
+    ],
+    links: [
+      { source: 'a.md', target: 'a.md#intro', type: 'section' },
+      { source: 'a.md', target: 'a.md#method', type: 'section' },
+    ],
+  });
+
+  const [parent, other, first, second] = graph.vertices;
+  const distance = (a: number[], b: number[]) => Math.hypot(...a.map((value, axis) => value - b[axis]));
+  const orbit = distance(first, parent);
+  assert.ok(orbit > 0);
+  assert.ok(Math.abs(distance(second, parent) - orbit) < 1e-9);
+  assert.ok(orbit < distance(parent, other));
+  assert.ok(distance(first, second) > 0);
+});
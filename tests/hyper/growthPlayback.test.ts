@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { advanceGrowthTime, buildGrowthTimeline, growthFrame } from '../../src/hyper/core/growthPlayback';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function note(id: string, ctime: number) {
+  return { id, raw: { tags: [], ctime, mtime: ctime } };
+}
+
+test('buildGrowthTimeline times untimed nodes by their earliest neighbour', () => {
+  const nodes = [note('a.md', 10 * DAY), note('b.md', 30 * DAY), { id: 'tag:x' }, { id: 'tag:lonely' }];
+  const timeline = buildGrowthTimeline(nodes, [[0, 1], [1, 2], [0, 2]]);
+  assert.ok(timeline);
+  assert.equal(timeline.start, 10 * DAY);
+  assert.equal(timeline.end, 30 * DAY);
+  assert.deepEqual(timeline.births, [10 * DAY, 30 * DAY, 10 * DAY, 10 * DAY]);
+  assert.deepEqual(timeline.anchors, [null, 0, 0, null]);
+  assert.equal(buildGrowthTimeline([{ id: 'tag:x' }], []), null);
+});
+
+test('growthFrame fades nodes in up to their birth and links once both ends exist', () => {
+  const timeline = buildGrowthTimeline([note('a.md', 0.5 * DAY), note('b.md', 100 * DAY), note('c.md', 50 * DAY)], [[0, 1], [0, 2]]);
+  assert.ok(timeline);
+  const early = growthFrame(timeline, 0.5 * DAY, 0.1);
+  assert.deepEqual(early.vertexGrowth.slice(0, 2), [1, 0]);
+  assert.deepEqual(early.edgeGrowth, [0, 0]);
+  assert.equal(early.bornCount, 1);
+
+  const fading = growthFrame(timeline, 45 * DAY, 0.1);
+  assert.ok(Math.abs(fading.vertexGrowth[2] - 0.5) < 0.01);
+  assert.equal(fading.edgeGrowth[1], fading.vertexGrowth[2]);
+
+  const done = growthFrame(timeline, timeline.end, 0.1);
+  assert.deepEqual(done.vertexGrowth, [1, 1, 1]);
+  assert.deepEqual(done.edgeGrowth, [1, 1]);
+  assert.equal(done.bornCount, 3);
+});
+
+test('advanceGrowthTime scales wall time by speed and stops at the end', () => {
+  const timeline = buildGrowthTimeline([note('a.md', DAY), note('b.md', 101 * DAY)], []);
+  assert.ok(timeline);
+  assert.equal(advanceGrowthTime(timeline, DAY, 1000, 2, 20000), 11 * DAY);
+  assert.equal(advanceGrowthTime(timeline, 100 * DAY, 5000, 1, 20000), 101 * DAY);
+});
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { DEFAULT_REPULSION_THETA } from '../../src/hyper/core/forceLayoutPlan';
+import { applyExactRepulsion, applyTreeRepulsion, buildHyperTree } from '../../src/hyper/core/hyperTree';
+import type { Vec4 } from '../../src/hyper/core/math4d';
+
+function randomPositions(count: number, seed: number): Vec4[] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () => [next() * 4, next() * 4, next() * 4, next() * 4] as Vec4);
+}
+
+function zeroForces(count: number): Vec4[] {
+  return Array.from({ length: count }, () => [0, 0, 0, 0] as Vec4);
+}
+
+function relativeError(approx: Vec4[], exact: Vec4[]): number {
+  let diff = 0;
+  let total = 0;
+  exact.forEach((force, index) => {
+    for (let axis = 0; axis < 4; axis += 1) {
+      diff += (approx[index][axis] - force[axis]) ** 2;
+      total += force[axis] ** 2;
+    }
+  });
+  return Math.sqrt(diff / total);
+}
+
+test('buildHyperTree keeps every body and its centre of mass', () => {
+  const positions = randomPositions(200, 3);
+  const root = buildHyperTree(positions);
+  assert.ok(root);
+  assert.equal(root.mass, 200);
+  const mean = [0, 1, 2, 3].map((axis) => positions.reduce((sum, p) => sum + p[axis], 0) / positions.length);
+  root.massCenter.forEach((value, axis) => assert.ok(Math.abs(value - mean[axis]) < 1e-9));
+  assert.equal(buildHyperTree([]), null);
+});
+
+test('tree repulsion with theta 0 matches the pairwise result', () => {
+  const positions = randomPositions(150, 11);
+  const exact = zeroForces(positions.length);
+  const tree = zeroForces(positions.length);
+  applyExactRepulsion(positions, exact, 0.5, 0.0001);
+  applyTreeRepulsion(positions, tree, 0.5, 0, 0.0001);
+  assert.ok(relativeError(tree, exact) < 1e-9);
+});
+
+test('tree repulsion stays close to the pairwise result and tightens with smaller theta', () => {
+  const positions = randomPositions(800, 7);
+  const exact = zeroForces(positions.length);
+  applyExactRepulsion(positions, exact, 0.5, 0.0001);
+  const errors = [1, DEFAULT_REPULSION_THETA, 0.3].map((theta) => {
+    const tree = zeroForces(positions.length);
+    applyTreeRepulsion(positions, tree, 0.5, theta, 0.0001);
+    return relativeError(tree, exact);
+  });
+  assert.ok(errors[0] < 0.1, `theta 1 error ${errors[0]}`);
+  assert.ok(errors[1] < 0.04, `default theta error ${errors[1]}`);
+  assert.ok(errors[2] < 0.01, `theta 0.3 error ${errors[2]}`);
+  assert.ok(errors[2] < errors[1] && errors[1] < errors[0]);
+});
+
+test('tree repulsion handles coincident bodies', () => {
+  const positions: Vec4[] = [[0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0], [1, 0, 0, 0]];
+  const exact = zeroForces(positions.length);
+  const tree = zeroForces(positions.length);
+  applyExactRepulsion(positions, exact, 1, 0.0001);
+  applyTreeRepulsion(positions, tree, 1, 0.8, 0.0001);
+  assert.ok(relativeError(tree, exact) < 1e-9);
+});
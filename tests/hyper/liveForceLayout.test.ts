@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { ForceLayoutConfig } from '../../src/hyper/core/forceLayout';
+import type { ForceLayoutJob } from '../../src/hyper/core/forceLayoutRunner';
+import { formatLayoutEnergy, LIVE_REHEAT_ALPHA, LiveForceLayout } from '../../src/hyper/core/liveForceLayout';
+import type { Vec4 } from '../../src/hyper/core/math4d';
+
+const CONFIG: ForceLayoutConfig = { iterations: 48, repelForce: 1, centerForce: 0.1, linkForce: 0.5, linkDistance: 1.6 };
+
+function ringJob(count: number, config = CONFIG): ForceLayoutJob {
+  const vertices = Array.from({ length: count }, (_, index) => {
+    const angle = (index / count) * Math.PI * 2;
+    return [Math.cos(angle), Math.sin(angle), Math.cos(angle * 2) * 0.5, Math.sin(angle * 3) * 0.5] as Vec4;
+  });
+  const edges = vertices.map((_, index) => [index, (index + 1) % count] as [number, number]);
+  return { vertices, edges, config, pinned: null };
+}
+
+/** A clock that advances one millisecond per reading, so a budget caps the tick count. */
+function stepClock(): () => number {
+  let time = 0;
+  return () => {
+    time += 1;
+    return time;
+  };
+}
+
+test('LiveForceLayout cools until it settles and then stops ticking', () => {
+  const live = new LiveForceLayout(ringJob(12));
+  const clock = stepClock();
+  assert.equal(live.tick(10, clock), true);
+  const earlyEnergy = live.energy;
+  assert.ok(earlyEnergy > 0);
+
+  for (let frame = 0; frame < 200 && !live.settled; frame += 1) live.tick(10, clock);
+  assert.equal(live.settled, true);
+  assert.ok(live.energy < earlyEnergy);
+  assert.equal(live.tick(10, clock), false);
+
+  live.reheat();
+  assert.equal(live.alpha, LIVE_REHEAT_ALPHA);
+  assert.equal(live.tick(10, clock), true);
+});
+
+test('LiveForceLayout reheats only when forces change', () => {
+  const live = new LiveForceLayout(ringJob(6), 0);
+  live.configure({ ...CONFIG });
+  assert.equal(live.alpha, 0);
+  live.configure({ ...CONFIG, repelForce: 2 });
+  assert.equal(live.alpha, LIVE_REHEAT_ALPHA);
+});
+
+test('LiveForceLayout starts settled when every force is off', () => {
+  const live = new LiveForceLayout(ringJob(6, { ...CONFIG, repelForce: 0, centerForce: 0, linkForce: 0 }));
+  assert.equal(live.settled, true);
+  assert.equal(live.tick(10, stepClock()), false);
+});
+
+test('LiveForceLayout moves a held node even while paused', () => {
+  const live = new LiveForceLayout(ringJob(8));
+  live.paused = true;
+  assert.equal(live.tick(10, stepClock()), false);
+
+  const before = live.positions.map((position) => [...position] as Vec4);
+  const delta: Vec4 = [0.4, -0.2, 0.1, 0];
+  live.hold(3, before[3].map((value, axis) => value + delta[axis]) as Vec4);
+  assert.equal(live.tick(10, stepClock()), true);
+
+  // Recentring spreads the move over every node.
+  const shift = delta.map((value) => value / 8);
+  live.positions.forEach((position, index) => {
+    position.forEach((value, axis) => {
+      const expected = before[index][axis] + (index === 3 ? delta[axis] : 0) - shift[axis];
+      assert.ok(Math.abs(value - expected) < 1e-9);
+    });
+  });
+  assert.equal(live.settled, false);
+
+  live.hold(3, null);
+  live.paused = false;
+  assert.equal(live.tick(10, stepClock()), true);
+});
+
+test('formatLayoutEnergy keeps the readout short', () => {
+  assert.equal(formatLayoutEnergy(0), '0');
+  assert.equal(formatLayoutEnergy(Number.NaN), '0');
+  assert.equal(formatLayoutEnergy(1234.5), '1235');
+  assert.equal(formatLayoutEnergy(1.23456), '1.23');
+  assert.equal(formatLayoutEnergy(0.000123), '1.2e-4');
+});
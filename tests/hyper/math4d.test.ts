@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  applyInverseRotation,
+  applyMatrix,
+  composeRotation,
+  projectPerspective,
+  unprojectPerspectiveDelta,
+  type Vec4,
+} from '../../src/hyper/core/math4d';
+
+function assertClose(actual: number[], expected: number[], tolerance = 1e-5): void {
+  actual.forEach((value, index) => assert.ok(Math.abs(value - expected[index]) < tolerance, `${actual} vs ${expected}`));
+}
+
+test('applyInverseRotation undoes a composed rotation', () => {
+  const rotation = composeRotation({ xy: 0.4, xw: -1.1, yz: 0.7, zw: 2.3 });
+  const vec: Vec4 = [1.5, -0.25, 0.8, 2];
+  assertClose(applyInverseRotation(applyMatrix(vec, rotation), rotation), vec);
+});
+
+test('unprojectPerspectiveDelta moves the projection by the requested amount', () => {
+  const options = { wCamera: 3.2, scale: 1.08 };
+  const vec: Vec4 = [0.5, -1, 0.25, 1.4];
+  const step = unprojectPerspectiveDelta([0.3, 0.1, -0.2], vec, options);
+  assert.equal(step[3], 0);
+  const moved = vec.map((value, axis) => value + step[axis]) as Vec4;
+  const before = projectPerspective(vec, options);
+  const after = projectPerspective(moved, options);
+  assertClose([after[0] - before[0], after[1] - before[1], after[2] - before[2]], [0.3, 0.1, -0.2]);
+});
@@ -5,11 +5,14 @@ import { visualSettingRefreshOptions, visualSettingRequiresGraphReload } from '.
 test('visualSettingPolicy keeps theme and label font changes as visual-only refreshes', () => {
   assert.equal(visualSettingRequiresGraphReload('theme'), false);
   assert.equal(visualSettingRequiresGraphReload('label-font'), false);
+  assert.equal(visualSettingRequiresGraphReload('label-strip'), false);
+  assert.equal(visualSettingRequiresGraphReload('label-source'), false);
   assert.deepEqual(visualSettingRefreshOptions('theme'), { reloadGraph: false });
 });
 
 test('visualSettingPolicy requires graph reload for color rules and existing-file filter', () => {
   assert.equal(visualSettingRequiresGraphReload('color-rules'), true);
+  assert.equal(visualSettingRequiresGraphReload('size-rules'), true);
   assert.equal(visualSettingRequiresGraphReload('show-only-existing-files'), true);
   assert.deepEqual(visualSettingRefreshOptions('show-only-existing-files'), { reloadGraph: true });
 });
@@ -17,6 +17,7 @@ function candidate(overrides: Partial<LabelCandidate> = {}): LabelCandidate {
     fontSize: 16,
     focus: false,
     missing: false,
+    seed: false,
     ...overrides,
   };
 }